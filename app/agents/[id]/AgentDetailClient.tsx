@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -21,16 +21,19 @@ import {
   Monitor,
   Loader2,
   List,
+  Film,
 } from "lucide-react";
-import type { AgentWithRelations, AgentSession, AgentContext, AgentTask as AgentTaskType } from "../../../lib/types/mongodb";
+import type { AgentWithRelations, AgentSession, AgentContext, AgentTask as AgentTaskType, AgentSchedule, SessionStopReason } from "../../../lib/types/mongodb";
 import SessionViewer from "../../components/SessionViewer";
 import MemoryViewer from "../../components/MemoryViewer";
 import AuditLogsViewer from "../../components/AuditLogsViewer";
+import WorkflowPlan from "../../components/WorkflowPlan";
 import LivePreviewSplit, { LiveStep } from "../../components/LivePreviewSplit";
-import { SessionLog } from "../../utils/stepFormatter";
 import { useToast } from "../../contexts/ToastContext";
 import { useUserPreferences } from "../../hooks/useUserPreferences";
+import { useSessionEvents } from "../../hooks/useSessionEvents";
 import ExtractionResultsViewer from "../../components/ExtractionResultsViewer";
+import ApprovalPrompt from "../../components/ApprovalPrompt";
 
 interface DailyTask {
   id: string;
@@ -46,6 +49,22 @@ interface DailyTask {
 
 type TabType = "overview" | "livepreview" | "tasks" | "sessions" | "memory" | "audit" | "extractions";
 
+const STOP_REASON_LABELS: Record<SessionStopReason, string> = {
+  model_finished: "Finished",
+  max_actions: "Action limit",
+  budget_exhausted: "Budget used up",
+  user_paused: "Agent paused",
+  user_stopped: "Stopped by user",
+  approval_rejected: "Approval rejected",
+  pause_expired: "Pause expired",
+  stalled: "Stalled",
+  browser_crashed: "Browser crashed",
+  auth_failed: "Auth failed",
+  policy_violation: "Policy violation",
+  worker_lost: "Worker lost",
+  error: "Error",
+};
+
 interface AgentDetailClientProps {
   agent: AgentWithRelations;
   initialSessions: AgentSession[];
@@ -78,16 +97,20 @@ export default function AgentDetailClient({
   const [runningSession, setRunningSession] = useState<AgentSession | null>(null);
   const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
   const [liveViewUrl, setLiveViewUrl] = useState<string | null>(null);
-  const [liveSteps, setLiveSteps] = useState<LiveStep[]>([]);
   const [isDeploying, setIsDeploying] = useState(false);
   const [isStopping, setIsStopping] = useState(false);
   const [deploymentStartTime, setDeploymentStartTime] = useState<number | null>(null);
   const [currentDeploySessionId, setCurrentDeploySessionId] = useState<string | null>(null);
   const [userCredits, setUserCredits] = useState<number | null>(null);
+  const [schedule, setSchedule] = useState<AgentSchedule | null>(null);
+  const [isTogglingPause, setIsTogglingPause] = useState(false);
+  const [resumeInstruction, setResumeInstruction] = useState("");
+  const [isSwitchingControl, setIsSwitchingControl] = useState(false);
+  const [stopReasonFilter, setStopReasonFilter] = useState<SessionStopReason | null>(null);
 
   useEffect(() => {
     // Check for running session on mount
-    const running = initialSessions.find(s => s.status === 'running');
+    const running = initialSessions.find(s => s.status === 'running' || s.status === 'paused');
     setRunningSession(running || null);
     
     if (running && running.browserSessionId) {
@@ -114,6 +137,66 @@ export default function AgentDetailClient({
     return () => clearInterval(interval);
   }, [fetchCredits]);
 
+  // Live steps, status changes and credit deductions for the running session arrive over SSE
+  const { logs: liveLogs, status: liveStatus } = useSessionEvents(runningSession?.id ?? null, {
+    onStatus: (status) => {
+      setRunningSession(prevSession => {
+        if (!prevSession) return prevSession;
+        if (prevSession.status === status.status && prevSession.controlledBy === status.controlledBy) return prevSession;
+        return { ...prevSession, status: status.status, controlledBy: status.controlledBy };
+      });
+    },
+    onCredits: (entry) => setUserCredits(entry.balanceAfter),
+    onEnd: (status) => {
+      // Show the final status right away; the next poll brings the full session record
+      setRunningSession(null);
+      setLiveViewUrl(null);
+      setAgent(prev => ({
+        ...prev,
+        sessions: prev.sessions?.map(s => (s.id === runningSession?.id ? { ...s, status } : s)),
+      }));
+    },
+  });
+
+  const liveSteps: LiveStep[] = useMemo(
+    () => liveLogs.map(log => ({
+      stepNumber: log.stepNumber,
+      tool: log.tool || 'ACTION',
+      text: log.instruction || 'Performing action',
+      reasoning: log.reasoning || '',
+    })),
+    [liveLogs]
+  );
+
+  // Only offer filters for stop reasons this agent's sessions actually have
+  const sessionStopReasons = useMemo(
+    () => Array.from(new Set((agent.sessions ?? []).flatMap(session => (session.stopReason ? [session.stopReason] : [])))),
+    [agent.sessions]
+  );
+  const filteredSessions = useMemo(
+    () => (agent.sessions ?? []).filter(session => !stopReasonFilter || session.stopReason === stopReasonFilter),
+    [agent.sessions, stopReasonFilter]
+  );
+
+  // Fetch schedule (next/last run, runtime used today) on mount and poll every 30 seconds
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/agents/${agentId}/schedule`);
+      if (response.ok) {
+        const data = await response.json();
+        setSchedule(data.schedule);
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedule:', error);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    fetchSchedule();
+    const interval = setInterval(fetchSchedule, 30000); // Poll every 30 seconds
+    return () => clearInterval(interval);
+  }, [fetchSchedule]);
+
   // Safety timeout: if deployment takes longer than 2 minutes without browser session, clear deploying state
   useEffect(() => {
     if (isDeploying && deploymentStartTime) {
@@ -152,8 +235,8 @@ export default function AgentDetailClient({
               context: data.context || prevAgent.context
             }));
             
-            // Check for running session
-            const running = data.sessions.find((s: AgentSession) => s.status === 'running');
+            // Check for running session (a paused session still holds its browser)
+            const running = data.sessions.find((s: AgentSession) => s.status === 'running' || s.status === 'paused');
             // Check if the CURRENT deployment's session failed
             // If we have a tracked session ID, check that specific session
             // If no session ID (deploy didn't return session), fallback to checking most recent session with timestamp validation
@@ -169,7 +252,7 @@ export default function AgentDetailClient({
               : null;
             
             if (running) {
-              // Only update if session ID or browserSessionId changed
+              // Only update if session ID, browserSessionId, status or control changed
               setRunningSession(prevSession => {
                 if (!prevSession || prevSession.id !== running.id || prevSession.browserSessionId !== running.browserSessionId) {
                   // Fetch live view URL when browserSessionId becomes available
@@ -178,6 +261,9 @@ export default function AgentDetailClient({
                   }
                   return running;
                 }
+                if (prevSession.status !== running.status || prevSession.controlledBy !== running.controlledBy) {
+                  return { ...prevSession, status: running.status, controlledBy: running.controlledBy };
+                }
                 return prevSession;
               });
               
@@ -188,29 +274,6 @@ export default function AgentDetailClient({
                 setCurrentDeploySessionId(null); // Clear deployment session tracking
               }
 
-              // Fetch session logs for the running session
-              try {
-                const logsResponse = await fetch(`/api/sessions/${running.id}`);
-                if (logsResponse.ok) {
-                  const logsData = await logsResponse.json();
-                  if (logsData.session && logsData.session.logs) {
-                    // Logs are already formatted in user-friendly language from the backend
-                    const formattedSteps: LiveStep[] = logsData.session.logs.map((log: SessionLog) => {
-                      // Use pre-formatted data from database
-                      return {
-                        stepNumber: log.stepNumber,
-                        tool: log.tool || 'ACTION',
-                        text: log.instruction || 'Performing action',
-                        reasoning: log.reasoning || ''
-                      };
-                    });
-                    
-                    setLiveSteps(formattedSteps);
-                  }
-                }
-              } catch (logError) {
-                console.error('Error fetching session logs:', logError);
-              }
             } else if (failed) {
               // Current deployment's session failed - clear deploying state and show error
               setIsDeploying(false);
@@ -218,15 +281,13 @@ export default function AgentDetailClient({
               setCurrentDeploySessionId(null);
               setRunningSession(null);
               setLiveViewUrl(null);
-              setLiveSteps([]);
               // Agent isDeployed should already be false from the API, but ensure it's updated
               setAgent(prev => ({ ...prev, isDeployed: false }));
             } else {
-              // No running session - clear running session state and live steps
+              // No running session - clear running session state (live steps follow the session)
               setRunningSession(prevSession => {
                 if (prevSession) {
                   setLiveViewUrl(null);
-                  setLiveSteps([]);
                   return null;
                 }
                 return prevSession;
@@ -234,8 +295,6 @@ export default function AgentDetailClient({
               // Don't clear isDeploying here - let it stay true until browser session is ready
               // isDeploying will be cleared when browserSessionId is detected or session fails
               // or when user explicitly pauses the agent
-              // Also clear live steps even if there was no previous running session
-              setLiveSteps([]);
             }
           } else {
             // No sessions in response - only update agent fields, preserve sessions/context
@@ -405,9 +464,87 @@ export default function AgentDetailClient({
     }
   };
 
+  // Suspend or continue the running session without losing the browser or conversation
+  const handleTogglePause = async () => {
+    if (!runningSession) return;
+    const isPaused = runningSession.status === 'paused';
+
+    setIsTogglingPause(true);
+    try {
+      const response = await fetch(`/api/sessions/${runningSession.id}/${isPaused ? 'resume' : 'pause'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isPaused && resumeInstruction.trim() ? { instruction: resumeInstruction.trim() } : {}),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setRunningSession({ ...runningSession, status: data.status });
+        if (isPaused) setResumeInstruction("");
+        toast.showToast(
+          isPaused ? 'Session resumed' : 'Session will pause before its next action',
+          'success'
+        );
+      } else {
+        toast.showToast(data.error || `Failed to ${isPaused ? 'resume' : 'pause'} session`, 'error');
+      }
+    } catch (error) {
+      console.error("Error toggling session pause:", error);
+      toast.showToast(`Failed to ${isPaused ? 'resume' : 'pause'} session`, 'error');
+    } finally {
+      setIsTogglingPause(false);
+    }
+  };
+
+  // Operator takeover: the agent waits while the user drives the browser through the live view
+  const handleTakeControl = async () => {
+    if (!runningSession) return;
+    setIsSwitchingControl(true);
+    try {
+      const response = await fetch(`/api/sessions/${runningSession.id}/takeover`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        setRunningSession({ ...runningSession, status: data.status, controlledBy: data.controlledBy });
+        toast.showToast('You have control - the agent stops after its current action', 'success');
+      } else {
+        toast.showToast(data.error || 'Failed to take control', 'error');
+      }
+    } catch (error) {
+      console.error("Error taking control:", error);
+      toast.showToast('Failed to take control', 'error');
+    } finally {
+      setIsSwitchingControl(false);
+    }
+  };
+
+  const handleHandBack = async (note: string) => {
+    if (!runningSession) return;
+    setIsSwitchingControl(true);
+    try {
+      const response = await fetch(`/api/sessions/${runningSession.id}/handback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(note ? { note } : {}),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setRunningSession({ ...runningSession, status: data.status, controlledBy: data.controlledBy });
+        toast.showToast('Control handed back to the agent', 'success');
+      } else {
+        toast.showToast(data.error || 'Failed to hand back control', 'error');
+      }
+    } catch (error) {
+      console.error("Error handing back control:", error);
+      toast.showToast('Failed to hand back control', 'error');
+    } finally {
+      setIsSwitchingControl(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "running": return "text-blue-400 bg-blue-500/20";
+      case "paused": return "text-purple-400 bg-purple-500/20";
       case "completed": return "text-green-400 bg-green-500/20";
       case "failed": return "text-red-400 bg-red-500/20";
       case "stopped": return "text-yellow-400 bg-yellow-500/20";
@@ -418,6 +555,7 @@ export default function AgentDetailClient({
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "running": return <Activity size={16} className="animate-pulse" />;
+      case "paused": return <Pause size={16} />;
       case "completed": return <CheckCircle size={16} />;
       case "failed": return <XCircle size={16} />;
       case "stopped": return <AlertCircle size={16} />;
@@ -451,12 +589,17 @@ export default function AgentDetailClient({
             <h3 className="text-base md:text-lg font-semibold text-white truncate">Live Execution: {agent?.name || 'Agent'}</h3>
           </div>
         </div>
+        <ApprovalPrompt sessionId={runningSession.id} className="px-3 pt-3 md:px-4 md:pt-4" />
         <div className="flex-1 overflow-hidden">
           <LivePreviewSplit
             browserViewUrl={liveViewUrl}
             sessionId={runningSession.id}
             agentGoal={agent.description || `View execution of ${agent?.name || 'agent'}`}
             steps={liveSteps}
+            controlledBy={runningSession.controlledBy}
+            isSwitchingControl={isSwitchingControl}
+            onTakeControl={handleTakeControl}
+            onHandBack={handleHandBack}
           />
         </div>
       </div>
@@ -493,6 +636,12 @@ export default function AgentDetailClient({
                 <Clock size={14} className="md:w-4 md:h-4" />
                 <span>{agent.runtimePerDay} min/day</span>
               </div>
+              {schedule?.enabled && schedule.nextRunAt && (
+                <div className="flex items-center gap-1.5 md:gap-2">
+                  <Calendar size={14} className="md:w-4 md:h-4" />
+                  <span className="whitespace-nowrap">Next run {new Date(schedule.nextRunAt).toLocaleString()}</span>
+                </div>
+              )}
               {agent.targetWebsite && (
                 <div className="flex items-center gap-1.5 md:gap-2 min-w-0">
                   <Globe size={14} className="flex-shrink-0 md:w-4 md:h-4" />
@@ -516,6 +665,22 @@ export default function AgentDetailClient({
                 <span>Watch Live</span>
               </button>
             )}
+            {runningSession && runningSession.browserSessionId && runningSession.controlledBy !== 'operator' && (
+              <button
+                onClick={handleTogglePause}
+                disabled={isTogglingPause || isStopping}
+                className="flex items-center justify-center gap-2 px-4 md:px-6 py-2.5 md:py-3 rounded-xl bg-white/[0.05] hover:bg-white/[0.08] disabled:opacity-50 text-white transition-all duration-200 font-medium border border-white/[0.08] hover:border-white/[0.12] text-sm md:text-base min-h-[44px]"
+              >
+                {isTogglingPause ? (
+                  <Loader2 size={16} className="animate-spin md:w-[18px] md:h-[18px]" />
+                ) : runningSession.status === 'paused' ? (
+                  <Play size={16} className="md:w-[18px] md:h-[18px]" />
+                ) : (
+                  <Pause size={16} className="md:w-[18px] md:h-[18px]" />
+                )}
+                <span>{runningSession.status === 'paused' ? 'Resume' : 'Pause'}</span>
+              </button>
+            )}
             <button
               onClick={handleToggleDeployment}
               disabled={isDeploying || isStopping}
@@ -558,6 +723,39 @@ export default function AgentDetailClient({
           </div>
         </div>
 
+        {/* Paused session - optional instruction for when it resumes */}
+        {runningSession?.status === 'paused' && runningSession.controlledBy !== 'operator' && (
+          <div className="mt-6 bg-purple-500/[0.08] border border-purple-500/30 rounded-xl md:rounded-2xl p-4 md:p-5">
+            <p className="text-sm font-semibold text-purple-300 mb-1">Session paused</p>
+            <p className="text-sm text-gray-400 mb-3">
+              The browser and progress are kept. Add an instruction for the agent (optional) and resume to continue from the same step.
+            </p>
+            <div className="flex flex-col md:flex-row gap-2">
+              <textarea
+                value={resumeInstruction}
+                onChange={(e) => setResumeInstruction(e.target.value)}
+                maxLength={2000}
+                rows={2}
+                placeholder="e.g. Skip the remaining profiles and send the summary"
+                className="flex-1 bg-black/[0.3] border border-white/[0.08] rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-400/50 resize-none"
+              />
+              <button
+                onClick={handleTogglePause}
+                disabled={isTogglingPause}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors min-h-[44px]"
+              >
+                {isTogglingPause ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+                <span>Resume</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Pending approvals for the running session */}
+        {runningSession && (
+          <ApprovalPrompt sessionId={runningSession.id} className="mt-6" />
+        )}
+
         {/* Tabs */}
         <div className="border-b border-white/[0.08] mb-6 mt-6 -mx-4 px-4 md:mx-0 md:px-0">
           <div className="flex gap-4 md:gap-6 overflow-x-auto hide-scrollbar">
@@ -612,6 +810,71 @@ export default function AgentDetailClient({
                 </div>
               )}
 
+              {/* Schedule */}
+              {schedule && (
+                <div className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-xl md:rounded-2xl p-4 md:p-6">
+                  <div className="flex items-center justify-between mb-3 md:mb-4">
+                    <h3 className="text-base md:text-lg font-semibold text-white">Schedule</h3>
+                    <span className={`px-2.5 py-1 rounded-lg text-xs font-medium ${
+                      schedule.enabled ? "bg-green-500/20 text-green-400" : "bg-gray-500/20 text-gray-400"
+                    }`}>
+                      {schedule.enabled ? `${schedule.cronExpression} (${schedule.timezone})` : "Not scheduled"}
+                    </span>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4 text-sm">
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Last Scheduled Run</p>
+                      <p className="text-gray-300">
+                        {schedule.lastRunAt ? new Date(schedule.lastRunAt).toLocaleString() : "Never"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Next Run</p>
+                      <p className="text-gray-300">
+                        {schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : "—"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Runtime Today</p>
+                      <p className="text-gray-300">
+                        {schedule.runtimeUsedToday} / {schedule.runtimePerDay} min
+                        <span className="text-gray-500"> ({schedule.runtimeRemainingToday} min left)</span>
+                      </p>
+                    </div>
+                  </div>
+
+                  {schedule.lastSkipReason && (
+                    <p className="mt-3 text-xs text-yellow-400">
+                      Last scheduled run was skipped: {schedule.lastSkipReason}
+                    </p>
+                  )}
+
+                  {(schedule.upcomingRuns.length > 0 || schedule.upcomingTasks.length > 0) && (
+                    <div className="mt-4 pt-4 border-t border-white/[0.08] space-y-2">
+                      <p className="text-xs text-gray-500">Upcoming</p>
+                      {schedule.upcomingRuns.map((run) => (
+                        <div key={run} className="flex items-center gap-2 text-sm text-gray-300">
+                          <Calendar size={14} className="text-blue-400 flex-shrink-0" />
+                          <span>{new Date(run).toLocaleString()}</span>
+                        </div>
+                      ))}
+                      {schedule.upcomingTasks.map((task) => (
+                        <div key={task.id} className="flex items-center gap-2 text-sm text-gray-300 min-w-0">
+                          <List size={14} className="text-purple-400 flex-shrink-0" />
+                          <span className="whitespace-nowrap">
+                            {task.scheduledFor ? new Date(task.scheduledFor).toLocaleString() : "—"}
+                          </span>
+                          <span className="truncate text-gray-400">
+                            {task.taskDescription}{task.frequency !== "once" ? ` (${task.frequency})` : ""}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Quick Stats */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4">
                 <div className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-xl md:rounded-2xl p-4 md:p-6">
@@ -675,6 +938,10 @@ export default function AgentDetailClient({
                       sessionId={runningSession.id}
                       agentGoal={agent.description || undefined}
                       steps={liveSteps}
+                      controlledBy={runningSession.controlledBy}
+                      isSwitchingControl={isSwitchingControl}
+                      onTakeControl={handleTakeControl}
+                      onHandBack={handleHandBack}
                     />
                   </div>
                 </div>
@@ -721,6 +988,14 @@ export default function AgentDetailClient({
                   </p>
                 </div>
               )}
+
+              {runningSession && liveStatus?.planProgress && (
+                <WorkflowPlan
+                  executionPrompt={agent.executionPrompt}
+                  agentName={agent.name}
+                  progress={liveStatus.planProgress}
+                />
+              )}
             </motion.div>
           )}
 
@@ -902,52 +1177,94 @@ export default function AgentDetailClient({
                   </p>
                 </div>
               ) : (
-                agent.sessions.map((session) => (
-                  <div
-                    key={session.id}
-                    className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-2xl p-6 transition-all duration-200"
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-3 mb-2">
-                          <span className={`px-3 py-1 rounded-lg text-sm font-medium flex items-center gap-2 ${getStatusColor(session.status)}`}>
-                            {getStatusIcon(session.status)}
-                            {session.status}
-                          </span>
-                          <span className="text-gray-400 text-sm">
-                            Session #{session.id}
-                          </span>
-                        </div>
-                        {session.summary && (
-                          <p className="text-gray-300 mb-3">{session.summary}</p>
-                        )}
-                        <div className="flex items-center gap-6 text-sm text-gray-400">
-                          <div className="flex items-center gap-2">
-                            <Calendar size={14} />
-                            {new Date(session.startedAt).toLocaleString()}
+                <>
+                  {sessionStopReasons.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      {[null, ...sessionStopReasons].map((reason) => (
+                        <button
+                          key={reason ?? "all"}
+                          onClick={() => setStopReasonFilter(reason)}
+                          className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                            stopReasonFilter === reason
+                              ? "bg-blue-500/20 border-blue-500/40 text-blue-300"
+                              : "bg-white/[0.05] border-white/[0.08] text-gray-400 hover:text-white"
+                          }`}
+                        >
+                          {reason ? STOP_REASON_LABELS[reason] : "All"}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {filteredSessions.map((session) => (
+                    <div
+                      key={session.id}
+                      className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-2xl p-6 transition-all duration-200"
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-3 mb-2">
+                            <span className={`px-3 py-1 rounded-lg text-sm font-medium flex items-center gap-2 ${getStatusColor(session.status)}`}>
+                              {getStatusIcon(session.status)}
+                              {session.status}
+                            </span>
+                            {session.stopReason && (
+                              <span
+                                className="px-2 py-1 rounded-lg text-xs text-gray-300 bg-white/[0.05] border border-white/[0.08]"
+                                title={session.stopDetail ?? undefined}
+                              >
+                                {STOP_REASON_LABELS[session.stopReason]}
+                              </span>
+                            )}
+                            {session.attempt != null && session.attempt > 1 && (
+                              <span
+                                className="px-2 py-1 rounded-lg text-xs text-blue-300 bg-blue-500/10 border border-blue-500/20"
+                                title={session.retryOf ? `Retry of session #${session.retryOf}` : undefined}
+                              >
+                                Retry {session.attempt - 1}
+                              </span>
+                            )}
+                            <span className="text-gray-400 text-sm">
+                              Session #{session.id}
+                            </span>
                           </div>
-                          {session.completedAt && (
-                            <div className="flex items-center gap-2">
-                              <Clock size={14} />
-                              Duration: {Math.round((new Date(session.completedAt).getTime() - new Date(session.startedAt).getTime()) / 1000 / 60)}m
-                            </div>
+                          {session.summary && (
+                            <p className="text-gray-300 mb-3">{session.summary}</p>
                           )}
-                          {(session.totalSteps != null && session.totalSteps > 0) && (
+                          <div className="flex items-center gap-6 text-sm text-gray-400">
                             <div className="flex items-center gap-2">
-                              <Activity size={14} />
-                              {session.totalSteps} steps
+                              <Calendar size={14} />
+                              {new Date(session.startedAt).toLocaleString()}
+                            </div>
+                            {session.completedAt && (
+                              <div className="flex items-center gap-2">
+                                <Clock size={14} />
+                                Duration: {Math.round((new Date(session.completedAt).getTime() - new Date(session.startedAt).getTime()) / 1000 / 60)}m
+                              </div>
+                            )}
+                            {(session.totalSteps != null && session.totalSteps > 0) && (
+                              <div className="flex items-center gap-2">
+                                <Activity size={14} />
+                                {session.totalSteps} steps
+                              </div>
+                            )}
+                          </div>
+                          {session.errorMessage && (
+                            <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                              <p className="text-red-400 text-sm">{session.errorMessage}</p>
                             </div>
                           )}
                         </div>
-                        {session.errorMessage && (
-                          <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
-                            <p className="text-red-400 text-sm">{session.errorMessage}</p>
-                          </div>
-                        )}
+                        <button
+                          onClick={() => router.push(`/sessions/${session.id}/replay`)}
+                          className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/[0.05] hover:bg-white/[0.08] text-sm text-gray-300 hover:text-white border border-white/[0.08] transition-colors min-h-[44px] flex-shrink-0 ml-4"
+                        >
+                          <Film size={16} />
+                          <span>Replay</span>
+                        </button>
                       </div>
                     </div>
-                  </div>
-                ))
+                  ))}
+                </>
               )}
             </motion.div>
           )}
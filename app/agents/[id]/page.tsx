@@ -64,6 +64,13 @@ export default async function AgentDetailPage({ params }: { params: Promise<{ id
     totalSteps: session.totalSteps ?? null,
     errorMessage: session.errorMessage ?? null,
     sessionOutcome: session.sessionOutcome ?? null,
+    controlledBy: session.controlledBy ?? 'agent',
+    planProgress: session.planProgress ?? null,
+    stopReason: session.stopReason ?? null,
+    stopDetail: session.stopDetail ?? null,
+    errorClass: session.errorClass ?? null,
+    retryOf: session.retryOf?.toString() ?? null,
+    attempt: session.attempt ?? 1,
   }));
 
   const formattedContext = context.map(ctx => ({
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import AgentSession from "@/lib/models/AgentSession";
+import AgentSession, { SESSION_STOP_REASONS, type SessionStopReason } from "@/lib/models/AgentSession";
 import AgentModel from "@/lib/models/Agent";
 import SessionLog from "@/lib/models/SessionLog";
 import { sessionStateManager } from "@/app/api/cua/agent/session_state";
 import { connectDB } from "@/lib/mongodb";
 import { generateSessionOutcome } from "@/lib/utils/session-summarizer";
+import { classifyFailure } from "@/lib/utils/stop-reason";
 import mongoose from "mongoose";
 
 const MICROSERVICE_SECRET = process.env.MICROSERVICE_CALLBACK_SECRET || "dev-secret-change-in-prod";
@@ -27,6 +28,10 @@ export async function POST(
 
     const body = await req.json();
     const { type, sessionId, status, error } = body;
+    // The microservice may report its own stop reason; otherwise it is derived from the status
+    const reportedStopReason: SessionStopReason | null = SESSION_STOP_REASONS.includes(body.stopReason)
+      ? body.stopReason
+      : null;
 
     console.log(`📞 Callback received for agent ${agentId}, session ${sessionId}, type: ${type || status}`);
 
@@ -75,6 +80,7 @@ export async function POST(
       await AgentSession.findByIdAndUpdate(sessionId, {
         status: "completed",
         completedAt: new Date(),
+        stopReason: reportedStopReason ?? "model_finished",
       });
 
       // Generate AI-powered session outcome summary
@@ -94,7 +100,7 @@ export async function POST(
         });
       }
 
-      sessionStateManager.clearSession(sessionId);
+      await sessionStateManager.clearSession(sessionId);
       console.log(`✅ Session ${sessionId} completed and cleaned up`);
 
     } else if (status === "failed") {
@@ -102,6 +108,7 @@ export async function POST(
         status: "failed",
         completedAt: new Date(),
         errorMessage: error || "Execution failed",
+        stopReason: reportedStopReason ?? classifyFailure(error),
       });
 
       // Generate AI-powered session outcome summary (even for failed sessions to capture partial progress)
@@ -121,7 +128,7 @@ export async function POST(
         });
       }
 
-      sessionStateManager.clearSession(sessionId);
+      await sessionStateManager.clearSession(sessionId);
       console.log(`❌ Session ${sessionId} failed and cleaned up`);
     }
 
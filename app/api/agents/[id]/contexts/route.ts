@@ -2,6 +2,10 @@ import { NextResponse } from 'next/server';
 import { currentUser } from '@clerk/nextjs/server';
 import { connectDB, Agent, BrowserbaseContext } from '@/server/db';
 import Browserbase from "@browserbasehq/sdk";
+import { randomUUID } from 'crypto';
+import { isLocalContextId, removeLocalUserDataDir } from '@/app/api/cua/agent/local_playwright';
+import { resolveBrowserBackend } from '@/app/api/cua/agent/browser_factory';
+import { BROWSER_CONFIG } from '@/app/api/cua/agent/config';
 
 export async function GET(
   request: Request,
@@ -102,7 +106,13 @@ export async function DELETE(
     }
 
     // Delete context from Browserbase if contextId is available
-    if (contextId) {
+    if (contextId && isLocalContextId(contextId)) {
+      try {
+        await removeLocalUserDataDir(contextId);
+      } catch (error) {
+        console.error('Failed to delete local user-data directory:', error);
+      }
+    } else if (contextId) {
       try {
         // Note: Browserbase SDK might not have delete method exposed, we'll use fetch instead
         await fetch(`https://api.browserbase.com/v1/contexts/${contextId}`, {
@@ -183,17 +193,25 @@ export async function POST(
       });
 
       if (existingContext) {
-        // Delete from Browserbase
-        try {
-          await fetch(`https://api.browserbase.com/v1/contexts/${existingContext.contextId}`, {
-            method: 'DELETE',
-            headers: {
-              'X-BB-API-Key': process.env.BROWSERBASE_API_KEY!,
-            },
-          });
-          console.log(`🗑️  Deleted old context from Browserbase: ${existingContext.contextId}`);
-        } catch (error) {
-          console.error('Failed to delete context from Browserbase:', error);
+        if (isLocalContextId(existingContext.contextId)) {
+          try {
+            await removeLocalUserDataDir(existingContext.contextId);
+          } catch (error) {
+            console.error('Failed to delete local user-data directory:', error);
+          }
+        } else {
+          // Delete from Browserbase
+          try {
+            await fetch(`https://api.browserbase.com/v1/contexts/${existingContext.contextId}`, {
+              method: 'DELETE',
+              headers: {
+                'X-BB-API-Key': process.env.BROWSERBASE_API_KEY!,
+              },
+            });
+            console.log(`🗑️  Deleted old context from Browserbase: ${existingContext.contextId}`);
+          } catch (error) {
+            console.error('Failed to delete context from Browserbase:', error);
+          }
         }
 
         // Mark as inactive
@@ -209,18 +227,24 @@ export async function POST(
         );
       }
 
-      // Create new context
-      const bb = new Browserbase({ apiKey: process.env.BROWSERBASE_API_KEY! });
-      const newContext = await bb.contexts.create({
-        projectId: process.env.BROWSERBASE_PROJECT_ID!,
-      });
+      // Create new context (local agents get a fresh user-data directory on their next run)
+      let newContextId: string;
+      if (resolveBrowserBackend(agent.browserConfig) === 'local') {
+        newContextId = `${BROWSER_CONFIG.LOCAL_CONTEXT_PREFIX}${randomUUID()}`;
+      } else {
+        const bb = new Browserbase({ apiKey: process.env.BROWSERBASE_API_KEY! });
+        const newContext = await bb.contexts.create({
+          projectId: process.env.BROWSERBASE_PROJECT_ID!,
+        });
+        newContextId = newContext.id;
+      }
 
       // Save to database
       const contextDoc = await BrowserbaseContext.create({
         userId: user.id,
         agentId: agentId,
         platform: platform,
-        contextId: newContext.id,
+        contextId: newContextId,
         authenticationStatus: 'pending',
         loginAttempts: 0,
         isActive: true,
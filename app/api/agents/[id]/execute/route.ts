@@ -5,6 +5,7 @@ import Browserbase from '@browserbasehq/sdk';
 import { applyRateLimit, agentExecutionRateLimiter } from '@/app/lib/rate-limiter';
 import { getUserId } from '@/app/lib/auth-helpers';
 import NotificationService from '@/lib/services/NotificationService';
+import { classifyFailure } from '@/lib/utils/stop-reason';
 
 const browserbase = new Browserbase({
   apiKey: process.env.BROWSERBASE_API_KEY!,
@@ -137,6 +138,7 @@ Your goal is to complete this task autonomously. Use the browser automation to n
     await AgentSession.findByIdAndUpdate(session._id, {
       status: result.success ? 'completed' : 'failed',
       completedAt: new Date(),
+      stopReason: result.success ? 'model_finished' : classifyFailure(result.error),
     });
 
     // Create notification for task completion or failure
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, ExtractionSchema } from '../../../../../../server/db';
+import { updateExtractionSchemaSchema, validateRequest } from '@/app/lib/validation';
+import { getUserId } from '@/app/lib/auth-helpers';
+import { toExtractionSchemaResponse } from '@/lib/utils/extraction-schema';
+
+// PUT /api/agents/[id]/extraction-schemas/[schemaId] - Update an extraction schema
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; schemaId: string }> }
+) {
+  const { userId, error } = await getUserId();
+  if (error) return error;
+
+  try {
+    const { id, schemaId } = await params;
+    const body = await request.json();
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(schemaId)) {
+      return NextResponse.json({ error: 'Invalid agent ID or schema ID' }, { status: 400 });
+    }
+
+    const validation = validateRequest(updateExtractionSchemaSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    await connectDB();
+
+    if (validation.data.name) {
+      const existing = await ExtractionSchema.findOne({
+        _id: { $ne: schemaId },
+        agentId: id,
+        userId,
+        name: validation.data.name,
+      }).lean().exec();
+      if (existing) {
+        return NextResponse.json({ error: `A schema named "${validation.data.name}" already exists` }, { status: 409 });
+      }
+    }
+
+    const schema = await ExtractionSchema.findOneAndUpdate(
+      { _id: schemaId, agentId: id, userId },
+      { $set: validation.data },
+      { new: true, runValidators: true }
+    ).lean().exec();
+
+    if (!schema) {
+      return NextResponse.json({ error: 'Extraction schema not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ schema: toExtractionSchemaResponse(schema) });
+  } catch (error) {
+    console.error('Error updating extraction schema:', error);
+    return NextResponse.json({ error: 'Failed to update extraction schema' }, { status: 500 });
+  }
+}
+
+// DELETE /api/agents/[id]/extraction-schemas/[schemaId] - Delete an extraction schema (extracted data is kept)
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; schemaId: string }> }
+) {
+  const { userId, error } = await getUserId();
+  if (error) return error;
+
+  try {
+    const { id, schemaId } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(schemaId)) {
+      return NextResponse.json({ error: 'Invalid agent ID or schema ID' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const deleted = await ExtractionSchema.findOneAndDelete({ _id: schemaId, agentId: id, userId }).exec();
+    if (!deleted) {
+      return NextResponse.json({ error: 'Extraction schema not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting extraction schema:', error);
+    return NextResponse.json({ error: 'Failed to delete extraction schema' }, { status: 500 });
+  }
+}
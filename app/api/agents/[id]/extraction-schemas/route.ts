@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, Agent, ExtractionSchema } from '../../../../../server/db';
+import { createExtractionSchemaSchema, validateRequest } from '@/app/lib/validation';
+import { getUserId } from '@/app/lib/auth-helpers';
+import { toExtractionSchemaResponse } from '@/lib/utils/extraction-schema';
+
+// GET /api/agents/[id]/extraction-schemas - List the agent's extraction schemas
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId, error } = await getUserId();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid agent ID' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const schemas = await ExtractionSchema.find({ agentId: id, userId })
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+
+    return NextResponse.json({ schemas: schemas.map(toExtractionSchemaResponse) });
+  } catch (error) {
+    console.error('Error fetching extraction schemas:', error);
+    return NextResponse.json({ error: 'Failed to fetch extraction schemas' }, { status: 500 });
+  }
+}
+
+// POST /api/agents/[id]/extraction-schemas - Create an extraction schema
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId, error } = await getUserId();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid agent ID' }, { status: 400 });
+    }
+
+    const validation = validateRequest(createExtractionSchemaSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    await connectDB();
+
+    // Verify agent ownership
+    const agent = await Agent.findOne({ _id: id, userId });
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    const existing = await ExtractionSchema.findOne({ agentId: id, userId, name: validation.data.name }).lean().exec();
+    if (existing) {
+      return NextResponse.json({ error: `A schema named "${validation.data.name}" already exists` }, { status: 409 });
+    }
+
+    const schema = await ExtractionSchema.create({
+      userId,
+      agentId: id,
+      ...validation.data,
+    });
+
+    return NextResponse.json({ schema: toExtractionSchemaResponse(schema) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating extraction schema:', error);
+    return NextResponse.json({ error: 'Failed to create extraction schema' }, { status: 500 });
+  }
+}
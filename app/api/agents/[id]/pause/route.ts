@@ -3,8 +3,10 @@ import mongoose from 'mongoose';
 import { connectDB, Agent, AgentSession, DailyTask } from '../../../../../server/db';
 import Browserbase from '@browserbasehq/sdk';
 import { getUserId } from '@/app/lib/auth-helpers';
-import { deductCredits, calculateSessionMinutes } from '@/app/lib/credits';
+import { isLocalBrowserSessionId } from '@/app/api/cua/agent/local_playwright';
+import { deductCredits, calculateSessionMinutes, getSessionPausedMs } from '@/app/lib/credits';
 import NotificationService from '@/lib/services/NotificationService';
+import JobQueue from '@/lib/services/JobQueue';
 
 const browserbase = new Browserbase({
   apiKey: process.env.BROWSERBASE_API_KEY!,
@@ -39,14 +41,17 @@ export async function POST(
       );
     }
 
-    // Find all running sessions for this agent with userId filtering
-    const runningSessions = await AgentSession.find({ agentId: id, userId, status: 'running' }).exec();
+    // Find all running (or paused) sessions for this agent with userId filtering
+    const runningSessions = await AgentSession.find({ agentId: id, userId, status: { $in: ['running', 'paused'] } }).exec();
 
     // Stop all running sessions
     const stopResults = [];
     let creditNotification = undefined; // Track the latest credit notification
     for (const session of runningSessions) {
-      if (session.browserSessionId) {
+      // Drop the execution job if no worker has picked it up yet
+      await JobQueue.cancelQueuedForSession(session._id.toString());
+
+      if (session.browserSessionId && !isLocalBrowserSessionId(session.browserSessionId)) {
         try {
           // Stop the Browserbase session
           await browserbase.sessions.update(
@@ -60,17 +65,19 @@ export async function POST(
           // Update session status in database ONLY if it was running
           // This prevents double-deductions if pause is called after completion
           const stoppedSession = await AgentSession.findOneAndUpdate(
-            { _id: session._id, status: 'running' },
+            { _id: session._id, status: { $in: ['running', 'paused'] } },
             {
               status: 'stopped',
               completedAt: new Date(),
+              stopReason: 'user_paused',
             },
             { new: true }
           ).exec();
 
           // Deduct credits ONLY if we successfully transitioned from running to stopped
           if (stoppedSession && stoppedSession.startedAt && userId) {
-            const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, new Date());
+            const stoppedAt = stoppedSession.completedAt || new Date();
+            const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, stoppedAt, getSessionPausedMs(stoppedSession, stoppedAt));
             const creditResult = await deductCredits(
               userId,
               sessionMinutes,
@@ -114,17 +121,19 @@ export async function POST(
         // No browser session, just mark as stopped ONLY if it was running
         // This prevents double-deductions if pause is called after completion
         const stoppedSession = await AgentSession.findOneAndUpdate(
-          { _id: session._id, status: 'running' },
+          { _id: session._id, status: { $in: ['running', 'paused'] } },
           {
             status: 'stopped',
             completedAt: new Date(),
+            stopReason: 'user_paused',
           },
           { new: true }
         ).exec();
 
         // Deduct credits ONLY if we successfully transitioned from running to stopped
         if (stoppedSession && stoppedSession.startedAt && userId) {
-          const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, new Date());
+          const stoppedAt = stoppedSession.completedAt || new Date();
+          const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, stoppedAt, getSessionPausedMs(stoppedSession, stoppedAt));
           const creditResult = await deductCredits(
             userId,
             sessionMinutes,
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB, ExtractedRecord } from "../../../../../server/db";
+import { getUserId } from "@/app/lib/auth-helpers";
+
+function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// GET /api/agents/[id]/records - The agent's de-duplicated records, most recently seen first
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const url = new URL(req.url);
+    const dataType = url.searchParams.get("dataType") || undefined;
+    // Matches identity values, e.g. an email or profile URL fragment
+    const search = url.searchParams.get("q")?.trim().toLowerCase() || undefined;
+    const seenSince = url.searchParams.get("seenSince");
+    if (seenSince && isNaN(Date.parse(seenSince))) {
+      return NextResponse.json({ error: "Invalid seenSince date" }, { status: 400 });
+    }
+    const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10));
+    const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10)));
+    const skip = (page - 1) * limit;
+
+    const query: Record<string, unknown> = { userId, agentId: new mongoose.Types.ObjectId(id) };
+    if (dataType) query.dataType = dataType;
+    if (search) query.identityKeys = { $regex: escapeRegex(search) };
+    if (seenSince) query.lastSeenAt = { $gte: new Date(seenSince) };
+
+    const [items, total] = await Promise.all([
+      ExtractedRecord.find(query)
+        .sort({ lastSeenAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean()
+        .exec(),
+      ExtractedRecord.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      items: items.map((record) => ({
+        id: record._id.toString(),
+        dataType: record.dataType,
+        identityKeys: record.identityKeys,
+        data: record.data,
+        firstSeenAt: record.firstSeenAt,
+        lastSeenAt: record.lastSeenAt,
+        seenCount: record.seenCount,
+        sources: record.sources.map((source) => ({
+          sessionId: source.sessionId.toString(),
+          sessionLogId: source.sessionLogId?.toString() ?? null,
+          extractionId: source.extractionId.toString(),
+          extractedAt: source.extractedAt,
+        })),
+      })),
+      page,
+      limit,
+      total,
+    });
+  } catch (err) {
+    console.error("Error listing records:", err);
+    return NextResponse.json({ error: "Failed to list records" }, { status: 500 });
+  }
+}
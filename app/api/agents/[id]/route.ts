@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import mongoose from 'mongoose';
-import { connectDB, Agent, AgentSession, AgentContext, SessionLog, AgentTask, DailyTask, BrowserbaseContext } from '../../../../server/db';
+import { connectDB, Agent, AgentSession, AgentContext, SessionLog, AgentTask, DailyTask, BrowserbaseContext, ExtractionSchema, ExtractedRecord, InferredSelectors } from '../../../../server/db';
 import { getUserId } from '@/app/lib/auth-helpers';
+import { approvalPolicySchema, browserConfigSchema, executionBudgetSchema, navigationPolicySchema, modelConfigSchema, recordStoreSchema, retryPolicySchema, validateRequest } from '@/app/lib/validation';
 
 // GET /api/agents/[id] - Get a specific agent with its sessions and context
 export async function GET(
@@ -63,6 +64,13 @@ export async function GET(
       totalSteps: session.totalSteps ?? null,
       errorMessage: session.errorMessage ?? null,
       sessionOutcome: session.sessionOutcome ?? null,
+      controlledBy: session.controlledBy ?? 'agent',
+      planProgress: session.planProgress ?? null,
+      stopReason: session.stopReason ?? null,
+      stopDetail: session.stopDetail ?? null,
+      errorClass: session.errorClass ?? null,
+      retryOf: session.retryOf?.toString() ?? null,
+      attempt: session.attempt ?? 1,
     }));
 
     const contextWithId = context.map(ctx => ({
@@ -127,6 +135,55 @@ export async function PUT(
     if (body.knowledgeBase !== undefined) updateData.knowledgeBase = body.knowledgeBase;
     if (body.runtimePerDay !== undefined) updateData.runtimePerDay = body.runtimePerDay;
     if (body.isDeployed !== undefined) updateData.isDeployed = body.isDeployed;
+    if (body.modelConfig !== undefined) {
+      const modelConfigValidation = validateRequest(modelConfigSchema, body.modelConfig);
+      if (!modelConfigValidation.success) {
+        return NextResponse.json({ error: modelConfigValidation.error }, { status: 400 });
+      }
+      updateData.modelConfig = modelConfigValidation.data;
+    }
+    if (body.browserConfig !== undefined) {
+      const browserConfigValidation = validateRequest(browserConfigSchema, body.browserConfig);
+      if (!browserConfigValidation.success) {
+        return NextResponse.json({ error: browserConfigValidation.error }, { status: 400 });
+      }
+      updateData.browserConfig = browserConfigValidation.data;
+    }
+    if (body.approvalPolicy !== undefined) {
+      const approvalPolicyValidation = validateRequest(approvalPolicySchema, body.approvalPolicy);
+      if (!approvalPolicyValidation.success) {
+        return NextResponse.json({ error: approvalPolicyValidation.error }, { status: 400 });
+      }
+      updateData.approvalPolicy = approvalPolicyValidation.data;
+    }
+    if (body.navigationPolicy !== undefined) {
+      const navigationPolicyValidation = validateRequest(navigationPolicySchema, body.navigationPolicy);
+      if (!navigationPolicyValidation.success) {
+        return NextResponse.json({ error: navigationPolicyValidation.error }, { status: 400 });
+      }
+      updateData.navigationPolicy = navigationPolicyValidation.data;
+    }
+    if (body.executionBudget !== undefined) {
+      const executionBudgetValidation = validateRequest(executionBudgetSchema, body.executionBudget);
+      if (!executionBudgetValidation.success) {
+        return NextResponse.json({ error: executionBudgetValidation.error }, { status: 400 });
+      }
+      updateData.executionBudget = executionBudgetValidation.data;
+    }
+    if (body.retryPolicy !== undefined) {
+      const retryPolicyValidation = validateRequest(retryPolicySchema, body.retryPolicy);
+      if (!retryPolicyValidation.success) {
+        return NextResponse.json({ error: retryPolicyValidation.error }, { status: 400 });
+      }
+      updateData.retryPolicy = retryPolicyValidation.data;
+    }
+    if (body.recordStore !== undefined) {
+      const recordStoreValidation = validateRequest(recordStoreSchema, body.recordStore);
+      if (!recordStoreValidation.success) {
+        return NextResponse.json({ error: recordStoreValidation.error }, { status: 400 });
+      }
+      updateData.recordStore = recordStoreValidation.data;
+    }
 
     // Validate that at least one field is being updated
     if (Object.keys(updateData).length === 0) {
@@ -196,6 +253,9 @@ export async function DELETE(
       AgentTask.deleteMany({ agentId: id }),
       DailyTask.deleteMany({ agentId: id }),
       BrowserbaseContext.deleteMany({ agentId: id }),
+      ExtractionSchema.deleteMany({ agentId: id, userId }),
+      ExtractedRecord.deleteMany({ agentId: id, userId }),
+      InferredSelectors.deleteMany({ agentId: id, userId }),
     ]);
 
     // Also delete session logs for all sessions of this agent belonging to the user
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, Agent } from '../../../../../server/db';
+import { updateScheduleSchema, validateRequest } from '../../../../lib/validation';
+import { getUserId } from '@/app/lib/auth-helpers';
+import AgentScheduler from '@/lib/services/AgentScheduler';
+
+// GET /api/agents/[id]/schedule - Get the agent's schedule, upcoming runs and today's runtime usage
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid agent ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const agent = await Agent.findOne({ _id: id, userId }).exec();
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await AgentScheduler.getScheduleOverview(agent);
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error('Error fetching schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/agents/[id]/schedule - Enable, disable or change the agent's cron schedule
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error) return error;
+
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid agent ID' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateRequest(updateScheduleSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const validatedData = validation.data;
+
+    await connectDB();
+
+    const existingAgent = await Agent.findOne({ _id: id, userId }).exec();
+
+    if (!existingAgent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+
+    const cronExpression = validatedData.cronExpression ?? existingAgent.schedule?.cronExpression ?? null;
+    const timezone = validatedData.timezone ?? existingAgent.schedule?.timezone ?? 'UTC';
+
+    let nextRunAt: Date | null = null;
+    if (validatedData.enabled) {
+      if (!cronExpression) {
+        return NextResponse.json(
+          { error: 'A cron expression is required to enable the schedule' },
+          { status: 400 }
+        );
+      }
+
+      const scheduleError = AgentScheduler.validateSchedule(cronExpression, timezone);
+      if (scheduleError) {
+        return NextResponse.json({ error: scheduleError }, { status: 400 });
+      }
+
+      nextRunAt = AgentScheduler.getNextRunAt(cronExpression, timezone);
+    }
+
+    const updatedAgent = await Agent.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          'schedule.enabled': validatedData.enabled,
+          'schedule.cronExpression': cronExpression,
+          'schedule.timezone': timezone,
+          'schedule.nextRunAt': nextRunAt,
+          'schedule.lastSkipReason': null,
+        },
+      },
+      { new: true, runValidators: true }
+    ).exec();
+
+    const schedule = await AgentScheduler.getScheduleOverview(updatedAgent!);
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error('Error updating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
 import mongoose from 'mongoose';
-import { connectDB, AgentSession, Agent } from '../../../../../server/db';
+import { connectDB, AgentSession, Agent, SESSION_STOP_REASONS } from '../../../../../server/db';
+import type { SessionStopReason } from '../../../../../server/db';
 import { getUserId } from '@/app/lib/auth-helpers';
 
-// GET /api/agents/[id]/sessions - Get all sessions for an agent
+// GET /api/agents/[id]/sessions - Get all sessions for an agent (?stopReason=stalled,browser_crashed to filter)
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -21,6 +22,16 @@ export async function GET(
       );
     }
 
+    const stopReasonParam = new URL(request.url).searchParams.get('stopReason');
+    const stopReasons = stopReasonParam ? stopReasonParam.split(',').map(reason => reason.trim()) : [];
+    const unknownReason = stopReasons.find(reason => !SESSION_STOP_REASONS.includes(reason as SessionStopReason));
+    if (unknownReason) {
+      return NextResponse.json(
+        { error: `Invalid stop reason: ${unknownReason}` },
+        { status: 400 }
+      );
+    }
+
     await connectDB();
 
     // Verify agent ownership
@@ -32,7 +43,12 @@ export async function GET(
       );
     }
 
-    const sessions = await AgentSession.find({ agentId: id, userId })
+    const query: Record<string, unknown> = { agentId: id, userId };
+    if (stopReasons.length > 0) {
+      query.stopReason = { $in: stopReasons };
+    }
+
+    const sessions = await AgentSession.find(query)
       .sort({ startedAt: -1 })
       .lean()
       .exec();
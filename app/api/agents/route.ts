@@ -116,6 +116,13 @@ export async function POST(request: Request) {
       runtimePerDay: (bodyWithExtra.runtimePerDay as number | undefined) || 15,
       executionMode,
       isDeployed: validatedData.isDeployed || false,
+      modelConfig: validatedData.modelConfig,
+      browserConfig: validatedData.browserConfig,
+      approvalPolicy: validatedData.approvalPolicy,
+      navigationPolicy: validatedData.navigationPolicy,
+      executionBudget: validatedData.executionBudget,
+      retryPolicy: validatedData.retryPolicy,
+      recordStore: validatedData.recordStore,
     });
     
     console.log('✅ Agent created in DB with ID:', createdAgent._id.toString(), `(executionMode: ${executionMode})`);
@@ -1,5 +1,4 @@
-import { BrowserbaseBrowser } from "./browserbase";
-import OpenAI from "openai";
+import { BasePlaywrightComputer } from "./base_playwright";
 import {
   InputItem,
   Item,
@@ -9,7 +8,7 @@ import {
   ComputerCallOutput,
   FunctionOutput,
   Tool,
-  RequestOptions,
+  ComputerAction,
 } from "./types";
 import { AxiosError } from "axios";
 import axios from "axios";
@@ -17,9 +16,21 @@ import axiosRetry from 'axios-retry';
 import { sessionStateManager } from "./session_state";
 import { StallGuard } from "./stall_guard";
 import { extractionEnabled } from "../../../lib/feature-flags";
+import { ModelProvider, ModelResponse, OpenAIProvider } from "./providers";
+import { MISSION_MEMORY_CONFIG } from "./config";
+import { describeSchemaFields, ExtractionSchemaDefinition } from "../../../../lib/utils/extraction-schema";
 
 type AcknowledgeSafetyCheckCallback = (message: string) => boolean;
 
+// Asked before each computer/function call runs; a refusal ends the session
+export type ActionApprovalCallback = (
+  item: ComputerToolCall | FunctionToolCall,
+  previousAction: ComputerAction | null
+) => Promise<{ approved: boolean; message?: string }>;
+
+// Function tool the model uses to report which mission plan steps are done
+export const PLAN_PROGRESS_TOOL = "update_plan_progress";
+
 // Configure axios retry globally (once) with enhanced error handling
 axiosRetry(axios, {
   retries: 5, // Increased from 3 to handle more transient failures
@@ -70,26 +81,40 @@ axiosRetry(axios, {
 });
 
 export class Agent {
-  private client: OpenAI;
-  private model: string;
-  private computer: BrowserbaseBrowser;
+  private provider: ModelProvider;
+  private computer: BasePlaywrightComputer;
   private tools: Tool[];
   private printSteps: boolean = true;
   private acknowledgeSafetyCheckCallback: AcknowledgeSafetyCheckCallback;
   public lastResponseId: string | undefined = undefined;
   private sessionId: string | null = null;
+  private actionApprovalCallback: ActionApprovalCallback | null;
+  private lastComputerAction: ComputerAction | null = null;
+  // Set when an action was not approved; the caller stops the loop
+  public abortReason: string | null = null;
+  // The screenshot last returned to the model (base64 PNG), kept for the step log
+  public lastScreenshot: string | null = null;
+  // Outputs of the actions run so far in the current turn
+  private turnOutputs: (Message | ComputerCallOutput | FunctionOutput)[] = [];
+  // The agent's typed extraction schemas, offered to extract_data by name
+  private extractionSchemas: ExtractionSchemaDefinition[];
 
   constructor(
     model: string = "computer-use-preview",
-    computer: BrowserbaseBrowser,
+    computer: BasePlaywrightComputer,
     acknowledgeSafetyCheckCallback: AcknowledgeSafetyCheckCallback = () => true,
-    sessionId: string | null = null
+    sessionId: string | null = null,
+    provider?: ModelProvider,
+    actionApprovalCallback: ActionApprovalCallback | null = null,
+    extractionSchemas: ExtractionSchemaDefinition[] = []
   ) {
-    this.client = new OpenAI();
-    this.model = model;
+    // Model calls go through the provider; without one, use OpenAI with the given model
+    this.provider = provider ?? new OpenAIProvider(model);
     this.computer = computer;
     this.acknowledgeSafetyCheckCallback = acknowledgeSafetyCheckCallback;
     this.sessionId = sessionId;
+    this.actionApprovalCallback = actionApprovalCallback;
+    this.extractionSchemas = extractionSchemas;
 
     this.tools = [
       {
@@ -128,7 +153,9 @@ export class Agent {
       this.tools.push({
         type: "function",
         name: "extract_data",
-        description: "Extract structured data from the current page using structured selectors or smart mode.",
+        description:
+          "Extract structured data from the current page. structured mode uses your CSS selectors; smart mode has a model read the page " +
+          "(guided by instructions, keywords or a schema) and returns the selectors it used, which you can reuse in structured mode.",
         parameters: {
           type: "object",
           properties: {
@@ -145,9 +172,36 @@ export class Agent {
                   },
                 },
                 keywords: { type: "array", items: { type: "string" } },
+                instructions: { type: "string", description: "Smart mode: what to extract, e.g. \"name, title and profile link of each person\"" },
+                includeScreenshot: { type: "boolean", description: "Smart mode: also show the page screenshot to the extraction model" },
                 maxRecords: { type: "number" },
+                pagination: {
+                  type: "object",
+                  description:
+                    "Read more than the current page. next_button clicks nextSelector, url_param increments pageParam in the URL, " +
+                    "infinite_scroll scrolls to the bottom until no new rows load or stopSelector is visible. Duplicate rows are skipped.",
+                  properties: {
+                    strategy: { type: "string", enum: ["next_button", "url_param", "infinite_scroll"] },
+                    nextSelector: { type: "string" },
+                    pageParam: { type: "string" },
+                    startPage: { type: "number" },
+                    pageStep: { type: "number" },
+                    stopSelector: { type: "string" },
+                    maxPages: { type: "number" },
+                  },
+                  required: ["strategy"],
+                },
                 validate: { type: "boolean" },
                 save: { type: "boolean" },
+                ...(extractionSchemas.length > 0 && {
+                  schema: {
+                    type: "string",
+                    enum: extractionSchemas.map((schema) => schema.name),
+                    description:
+                      "Typed schema the records must follow. Use the schema's field names as selector keys. " +
+                      extractionSchemas.map((schema) => `${schema.name}: ${describeSchemaFields(schema)}`).join(". "),
+                  },
+                }),
               },
               required: ["mode", "dataType"],
               additionalProperties: false,
@@ -159,6 +213,35 @@ export class Agent {
         strict: false,
       });
     }
+    // Plan progress self-report, handled by the agent itself (not the browser)
+    if (sessionId && MISSION_MEMORY_CONFIG.ENABLE_MISSION_MEMORY && MISSION_MEMORY_CONFIG.ENABLE_PLAN_TRACKING) {
+      this.tools.push({
+        type: "function",
+        name: PLAN_PROGRESS_TOOL,
+        description: "Report progress on the mission plan: the plan steps you have finished or skipped and the step you are working on next. Call it whenever you complete a plan step.",
+        parameters: {
+          type: "object",
+          properties: {
+            completed_steps: {
+              type: "array",
+              items: { type: "number" },
+              description: "Numbers of the plan steps you have finished.",
+            },
+            skipped_steps: {
+              type: "array",
+              items: { type: "number" },
+              description: "Numbers of plan steps that turned out not to be needed.",
+            },
+            current_step: {
+              type: "number",
+              description: "Number of the plan step you are working on next.",
+            },
+          },
+          additionalProperties: false,
+        },
+        strict: false,
+      });
+    }
     /* Some additional tools, disabled as they seem to slow down model performance
       {
         type: "function",
@@ -194,45 +277,15 @@ export class Agent {
       */
   }
 
-  private async createResponse(options: RequestOptions): Promise<Response> {
-    const url = "https://api.openai.com/v1/responses";
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-      'Openai-beta': 'responses=v1',
-    };
-  
-    const openaiOrg = process.env.OPENAI_ORG;
-    if (openaiOrg) {
-      headers['Openai-Organization'] = openaiOrg;
-    }
-
-    // Note: Retry behavior is configured globally at module level
-    // Handles 429 rate limits, 5xx errors, and network failures automatically
-  
-    try {
-      const response = await axios.post(url, options, { headers });
-      return response.data;
-    } catch (error) {
-      const axiosError = error as AxiosError;
-
-      console.error(`❌ API Error: ${axiosError.response?.status} ${axiosError.response?.data || axiosError.message}`);
-      console.error(`Response data: ${JSON.stringify(axiosError.response?.data)}`);
-      throw error;
-    }
-  } 
-
   async getAction(
     inputItems: InputItem[],
     previousResponseId: string | undefined
-  ): Promise<{
-    output: Item[];
-    responseId: string;
-  }> {
+  ): Promise<ModelResponse> {
     // === MISSION MEMORY INJECTION ===
-    // Prepend mission context to provide explicit progress tracking
+    // Mission context provides explicit progress tracking; the provider adds it to this request only
+    let missionContext: string | null = null;
     if (this.sessionId) {
-      const missionContext = sessionStateManager.formatMissionForPrompt(this.sessionId);
+      missionContext = await sessionStateManager.formatMissionForPrompt(this.sessionId);
       
       if (missionContext) {
         console.log('\n' + '='.repeat(80));
@@ -240,15 +293,6 @@ export class Agent {
         console.log('='.repeat(80));
         console.log(missionContext);
         console.log('='.repeat(80) + '\n');
-        
-        // Prepend as developer message (highest priority system context)
-        inputItems = [
-          {
-            role: "developer",
-            content: missionContext
-          } as InputItem,
-          ...inputItems
-        ];
       }
     }
     
@@ -256,7 +300,7 @@ export class Agent {
     console.log('\n' + '='.repeat(80));
     console.log('🤖 COMPLETE CUA MODEL INPUT (what the model sees)');
     console.log('='.repeat(80));
-    console.log(`Model: ${this.model}`);
+    console.log(`Model: ${this.provider.name}/${this.provider.model}`);
     console.log(`Previous Response ID: ${previousResponseId || 'none (first call)'}`);
     console.log(`\nInput Items (${inputItems.length} total):`);
     inputItems.forEach((item, idx) => {
@@ -273,28 +317,19 @@ export class Agent {
     });
     console.log('\n' + '='.repeat(80) + '\n');
     
-    const response = await this.createResponse({
-      model: this.model,
+    return this.provider.getAction({
       input: inputItems,
+      previousResponseId,
       tools: this.tools,
-      truncation: "auto",
-      ...(previousResponseId
-        ? { previous_response_id: previousResponseId }
-        : {}),
+      ephemeralContext: missionContext,
     });
-
-    console.log("response", response);
-
-    return {
-      output: response.output as Item[],
-      responseId: response.id as string,
-    };
   }
 
   async takeAction(
     output: Item[]
   ): Promise<(Message | ComputerCallOutput | FunctionOutput)[]> {
     const results: (Message | ComputerCallOutput | FunctionOutput)[] = [];
+    this.turnOutputs = results;
     
     // Execute actions sequentially to avoid conflicts (e.g., multiple goto calls)
     for (const item of output) {
@@ -302,6 +337,16 @@ export class Agent {
         // Do nothing - messages don't need execution
         continue;
       }
+      if (
+        this.actionApprovalCallback &&
+        (item.type === "computer_call" || item.type === "function_call")
+      ) {
+        const approval = await this.actionApprovalCallback(item, this.lastComputerAction);
+        if (!approval.approved) {
+          this.abortReason = approval.message || "Action was not approved";
+          break;
+        }
+      }
       if (item.type === "computer_call") {
         const result = await this.takeComputerAction(item as ComputerToolCall);
         results.push(result);
@@ -315,6 +360,39 @@ export class Agent {
     return results;
   }
 
+  /**
+   * Outputs for a turn whose actions threw. Every tool call the model made must be
+   * answered: calls that ran keep their output, the rest are reported as failed.
+   * Rethrows the action's error when a failed computer call cannot be answered
+   * because the page can no longer be captured (e.g. the browser is gone).
+   */
+  async failedActionOutputs(
+    output: Item[],
+    message: string,
+    actionError: unknown
+  ): Promise<(Message | ComputerCallOutput | FunctionOutput)[]> {
+    const answered = new Set(this.turnOutputs.map((result) => ("call_id" in result ? result.call_id : null)));
+    const unanswered = output.filter(
+      (item): item is ComputerToolCall | FunctionToolCall =>
+        (item.type === "computer_call" || item.type === "function_call") && !answered.has(item.call_id)
+    );
+
+    // A failed computer call is answered with the page as it is now
+    let screenshot: string | null = null;
+    if (unanswered.some((item) => item.type === "computer_call")) {
+      try {
+        screenshot = await this.computer.screenshot(true);
+        this.lastScreenshot = screenshot;
+      } catch (screenshotError) {
+        console.warn("Failed to capture screenshot for failed action:", screenshotError);
+        throw actionError;
+      }
+    }
+
+    const failures = unanswered.map((item) => this.provider.formatErrorOutput(item, message, screenshot));
+    return [...this.turnOutputs, ...failures];
+  }
+
   async takeMessageAction(messageItem: Message): Promise<Message> {
     if (this.printSteps && messageItem.content?.[0]) {
       console.log(messageItem.content[0]);
@@ -343,11 +421,12 @@ export class Agent {
       actionType
     ] as (...args: unknown[]) => unknown;
     await method.apply(this.computer, Object.values(actionArgs));
+    this.lastComputerAction = action;
 
     // 🛡️ RECORD ACTION TO HISTORY (for StallGuard)
     if (this.sessionId) {
       const actionRecord = StallGuard.recordAction(actionType, actionArgs);
-      sessionStateManager.logAction(this.sessionId, actionRecord);
+      await sessionStateManager.logAction(this.sessionId, actionRecord);
     }
 
     // PERFORMANCE OPTIMIZATION: Smart screenshot strategy
@@ -359,6 +438,7 @@ export class Agent {
     // Force fresh screenshot for state-changing actions (click, type, scroll, drag, wait, keypress)
     // Use cache only for non-visual actions (mouse_move)
     const screenshot = await this.computer.screenshot(requiresFreshScreenshot);
+    this.lastScreenshot = screenshot;
 
     // Handle safety checks
     const pendingChecks = computerItem.pending_safety_checks || [];
@@ -371,15 +451,7 @@ export class Agent {
       }
     }
 
-    return {
-      type: "computer_call_output",
-      call_id: computerItem.call_id,
-      acknowledged_safety_checks: pendingChecks,
-      output: {
-        type: "input_image",
-        image_url: `data:image/png;base64,${screenshot}`,
-      },
-    };
+    return this.provider.formatScreenshotOutput(computerItem, screenshot, pendingChecks);
   }
 
   async takeFunctionAction(
@@ -392,7 +464,9 @@ export class Agent {
     }
 
     let _result: unknown = undefined;
-    if (
+    if (name === PLAN_PROGRESS_TOOL) {
+      _result = await this.recordPlanProgress(args);
+    } else if (
       this.computer &&
       typeof (this.computer as unknown as Record<string, unknown>)[name] ===
         "function"
@@ -400,12 +474,17 @@ export class Agent {
       const method = (this.computer as unknown as Record<string, unknown>)[
         name
       ] as (...args: unknown[]) => unknown;
+      // The model names a schema; the computer gets its definition
+      if (name === "extract_data" && typeof args.config?.schema === "string") {
+        const schema = this.extractionSchemas.find((candidate) => candidate.name === args.config.schema);
+        args.config = { ...args.config, schema };
+      }
       _result = await method.apply(this.computer, Object.values(args));
       
       // 🛡️ RECORD ACTION TO HISTORY (for StallGuard)
       if (this.sessionId) {
         const actionRecord = StallGuard.recordAction(name, args);
-        sessionStateManager.logAction(this.sessionId, actionRecord);
+        await sessionStateManager.logAction(this.sessionId, actionRecord);
       }
       
       // PERFORMANCE OPTIMIZATION: Navigation actions (goto, back) change page state completely
@@ -422,4 +501,24 @@ export class Agent {
       output: (typeof _result === 'string') ? _result : JSON.stringify(_result ?? { status: 'success' }),
     };
   }
+
+  private async recordPlanProgress(args: { completed_steps?: unknown; skipped_steps?: unknown; current_step?: unknown }): Promise<string> {
+    const toSteps = (value: unknown) => (Array.isArray(value) ? value.map(Number).filter(Number.isInteger) : []);
+    const progress = this.sessionId
+      ? await sessionStateManager.updatePlanProgress(this.sessionId, {
+          completedSteps: toSteps(args.completed_steps),
+          skippedSteps: toSteps(args.skipped_steps),
+          currentStep: typeof args.current_step === "number" ? args.current_step : null,
+        })
+      : null;
+
+    if (!progress) {
+      return "There is no mission plan for this session - continue with the task.";
+    }
+
+    const current = progress.currentStep
+      ? `Current step ${progress.currentStep}: ${progress.steps[progress.currentStep - 1].description}`
+      : "All plan steps are finished.";
+    return `Progress recorded: ${progress.completedSteps}/${progress.totalSteps} plan steps done. ${current}`;
+  }
 }
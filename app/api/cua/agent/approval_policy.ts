@@ -0,0 +1,81 @@
+import type { IAgentApprovalPolicy, ApprovalReason } from "@/lib/models";
+import { getHostname, matchesDomain } from "@/lib/utils/domain-match";
+import { ComputerAction, ComputerToolCall, FunctionToolCall } from "./types";
+
+export interface ApprovalCheck {
+  reason: ApprovalReason;
+  message: string;
+}
+
+export interface ApprovalContext {
+  currentUrl: string | null;
+  // The computer action that ran before this one (type followed by Enter submits a form)
+  previousAction: ComputerAction | null;
+}
+
+const SUBMIT_KEYS = ["enter", "return"];
+
+/**
+ * Decide whether an action needs the user's approval under the agent's policy.
+ * Returns null when the action may run right away.
+ */
+export function evaluateApprovalPolicy(
+  policy: IAgentApprovalPolicy | null | undefined,
+  item: ComputerToolCall | FunctionToolCall,
+  { currentUrl, previousAction }: ApprovalContext
+): ApprovalCheck | null {
+  if (!policy) return null;
+
+  if (item.type === "computer_call") {
+    const pendingChecks = item.pending_safety_checks || [];
+    if (policy.requireForSafetyChecks && pendingChecks.length > 0) {
+      return {
+        reason: "safety_check",
+        message: pendingChecks.map((check) => check.message).join(" "),
+      };
+    }
+
+    const hostname = getHostname(currentUrl);
+    if (hostname && policy.submitDomains?.length && matchesDomain(hostname, policy.submitDomains)) {
+      const action = item.action;
+      const pressesEnter =
+        action.type === "keypress" &&
+        action.keys.some((key) => SUBMIT_KEYS.includes(key.toLowerCase()));
+
+      // The typed text may be a password or card number, so messages only name the site
+      if (pressesEnter && previousAction?.type === "type") {
+        return {
+          reason: "submit",
+          message: `Submit the typed text on ${hostname}`,
+        };
+      }
+      if (action.type === "type" && action.text.endsWith("\n")) {
+        return {
+          reason: "submit",
+          message: `Type and submit text on ${hostname}`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  if (item.name === "goto" && policy.navigationAllowlist?.length) {
+    let url: string | undefined;
+    try {
+      url = JSON.parse(item.arguments)?.url;
+    } catch {
+      url = undefined;
+    }
+
+    const hostname = getHostname(url);
+    if (!hostname || !matchesDomain(hostname, policy.navigationAllowlist)) {
+      return {
+        reason: "navigation",
+        message: `Navigate to ${url || "an unknown URL"} (outside the allowed domains)`,
+      };
+    }
+  }
+
+  return null;
+}
@@ -1,4 +1,9 @@
-import { Browser, Page } from 'playwright';
+import { Browser, Page, Request } from 'playwright';
+import { PlaywrightExtractor, ExtractionResult, PaginationConfig, SelectorCache } from '@/lib/services/playwright-extractor';
+import { checkNavigation, NavigationPolicy, NavigationViolation } from './navigation_policy';
+import { validateRecords, describeSchemaFields, ExtractionSchemaDefinition, RecordValidationError } from '@/lib/utils/extraction-schema';
+import { extractionInference } from './extraction_inference';
+import { SMART_EXTRACTION_CONFIG } from './config';
 
 // Optional: key mapping if your model uses "CUA" style keys
 const CUA_KEY_TO_PLAYWRIGHT_KEY: Record<string, string> = {
@@ -47,6 +52,54 @@ const HOTKEYS: Record<string, string> = {
 
 export type Environment = "browser";
 
+/**
+ * Returned by goto (and so sent to the model as the function output) when the
+ * navigation policy refuses a URL.
+ */
+export interface NavigationBlockedResult {
+  status: "blocked";
+  url: string;
+  reason: NavigationViolation["reason"];
+  message: string;
+}
+
+export interface ExtractDataConfig {
+  mode: "structured" | "smart";
+  dataType: string;
+  selectors?: { container?: string; fields: Record<string, string> };
+  keywords?: string[];
+  // Smart mode: what to extract, in the model's words
+  instructions?: string;
+  // Smart mode: also show the extraction model the screenshot
+  includeScreenshot?: boolean;
+  maxRecords?: number;
+  pagination?: PaginationConfig;
+  validate?: boolean;
+  save?: boolean; // ignored here; persistence occurs in route handler
+  schema?: ExtractionSchemaDefinition; // resolved from the schema name by the agent
+}
+
+/**
+ * Validation attached to extract_data results. Counts and per-record errors are
+ * only present when the extraction used a typed schema.
+ */
+export interface ExtractionValidation {
+  ok: boolean;
+  reason?: string;
+  validCount?: number;
+  invalidCount?: number;
+  errors?: RecordValidationError[];
+}
+
+function isMainFrameRequest(request: Request): boolean {
+  try {
+    return request.frame().parentFrame() === null;
+  } catch {
+    // Service worker requests have no frame
+    return false;
+  }
+}
+
 /**
  * Sanitize and validate URL for navigation.
  * Automatically prepends https:// if protocol is missing.
@@ -69,6 +122,11 @@ function sanitizeUrl(url: string): string {
   if (trimmedUrl.match(/^[a-z][a-z0-9+.-]*:\/\//i)) {
     return trimmedUrl;
   }
+
+  // Leave script/local schemes as they are so the navigation policy refuses them
+  if (trimmedUrl.match(/^(javascript|data|vbscript|file|blob|about):/i)) {
+    return trimmedUrl;
+  }
   
   // Auto-prepend https:// for URLs without protocol
   console.log(`🔧 URL sanitization: Adding https:// to "${trimmedUrl}"`);
@@ -79,7 +137,8 @@ function sanitizeUrl(url: string): string {
  * Abstract base for Playwright-based computers:
  * 
  * - Subclasses override `_getBrowserAndPage()` to do local or remote connection,
- *   returning [Browser, Page].
+ *   returning [Browser, Page] (Browser is null for persistent local contexts,
+ *   which subclasses close themselves).
  * - This base class handles context creation (`connect`/`disconnect`),
  *   plus standard "Computer" actions like click, scroll, etc.
  * - We also have extra browser actions: `goto(url)` and `back()`.
@@ -91,6 +150,10 @@ export abstract class BasePlaywrightComputer {
   protected _browser: Browser | null = null;
   protected _page: Page | null = null;
   protected _isNavigating: boolean = false; // Track navigation state to prevent overlaps
+  protected _navigationPolicy: NavigationPolicy | null = null;
+  protected _navigationViolations: NavigationViolation[] = [];
+  private _navigationPolicyInstalled: boolean = false;
+  protected _selectorCache: SelectorCache | null = null;
   
   constructor() {
     this._browser = null;
@@ -111,12 +174,102 @@ export abstract class BasePlaywrightComputer {
       await this._browser.close();
     }
   }
+
+  /**
+   * ID of the underlying browser session (stored on AgentSession.browserSessionId).
+   * Null until connected.
+   */
+  get browserSessionId(): string | null {
+    return null;
+  }
+
+  /**
+   * URL of the page the agent is on (null before connecting).
+   */
+  get currentUrl(): string | null {
+    return this._page ? this._page.url() : null;
+  }
+
+  /**
+   * Enforce a navigation policy on this browser (call after connect()).
+   * goto checks the URL up front; navigations started by the page itself (clicks,
+   * form submissions, redirects) are stopped by route interception on the
+   * browser context, and downloads are cancelled when the policy blocks them.
+   */
+  async setNavigationPolicy(policy: NavigationPolicy | null): Promise<void> {
+    if (!this._page) throw new Error("Page not initialized");
+    this._navigationPolicy = policy;
+    if (!policy || this._navigationPolicyInstalled) return;
+    this._navigationPolicyInstalled = true;
+
+    const context = this._page.context();
+
+    // Intercepting every request costs a round trip, so only do it when URLs can be refused
+    if (policy.allowedDomains || policy.deniedPatterns.length > 0) {
+      await context.route("**/*", async (route) => {
+        const request = route.request();
+        const violation = request.isNavigationRequest() && isMainFrameRequest(request)
+          ? checkNavigation(this._navigationPolicy, request.url(), "navigation")
+          : null;
+
+        if (violation) {
+          this.recordNavigationViolation(violation);
+          await route.abort("blockedbyclient");
+          return;
+        }
+        await route.continue();
+      });
+    }
+
+    const watchDownloads = (page: Page) => {
+      page.on("download", (download) => {
+        if (!this._navigationPolicy?.blockDownloads) return;
+        this.recordNavigationViolation({
+          url: download.url(),
+          reason: "download",
+          message: `Download of "${download.suggestedFilename()}" was blocked`,
+          source: "download",
+          at: new Date(),
+        });
+        download.cancel().catch(() => {});
+      });
+    };
+    context.pages().forEach(watchDownloads);
+    context.on("page", watchDownloads);
+  }
+
+  /**
+   * Where smart-mode extract_data keeps the selectors it infers (null = no caching).
+   */
+  setSelectorCache(cache: SelectorCache | null): void {
+    this._selectorCache = cache;
+  }
+
+  /**
+   * Violations recorded since the last call (the list is cleared).
+   */
+  takeNavigationViolations(): NavigationViolation[] {
+    const violations = this._navigationViolations;
+    this._navigationViolations = [];
+    return violations;
+  }
+
+  protected recordNavigationViolation(violation: NavigationViolation): void {
+    console.warn(`🚫 Navigation blocked (${violation.reason}): ${violation.url} - ${violation.message}`);
+    this._navigationViolations.push(violation);
+  }
+
+  invalidateScreenshotCache(): void {
+    // No screenshot cache at this level
+  }
   
   // --- Common "Computer" actions ---
-  async screenshot(): Promise<string> {
+  async screenshot(forceRefresh: boolean = false): Promise<string> {
     /**
      * Capture only the viewport (not full_page).
+     * Every capture is fresh here; subclasses that cache screenshots honour forceRefresh.
      */
+    void forceRefresh;
     if (!this._page) throw new Error("Page not initialized");
     const buffer = await this._page.screenshot({ fullPage: false });
     return buffer.toString('base64');
@@ -198,7 +351,7 @@ export abstract class BasePlaywrightComputer {
   }
   
   // --- Extra browser-oriented actions ---
-  async goto(url: string): Promise<void> {
+  async goto(url: string): Promise<NavigationBlockedResult | void> {
     if (!this._page) throw new Error("Page not initialized");
     
     // Check if already navigating to prevent overlapping navigation requests
@@ -215,7 +368,15 @@ export abstract class BasePlaywrightComputer {
     
     // Sanitize and validate URL
     const sanitizedUrl = sanitizeUrl(url);
+
+    // Refuse URLs the navigation policy does not allow
+    const violation = checkNavigation(this._navigationPolicy, sanitizedUrl, "goto");
+    if (violation) {
+      this.recordNavigationViolation(violation);
+      return { status: "blocked", url: sanitizedUrl, reason: violation.reason, message: violation.message };
+    }
     
+    const violationCount = this._navigationViolations.length;
     try {
       this._isNavigating = true;
       console.log(`🌐 Navigating to: ${sanitizedUrl}`);
@@ -225,6 +386,17 @@ export abstract class BasePlaywrightComputer {
       });
       console.log(`✅ Navigation complete: ${sanitizedUrl}`);
     } catch (error) {
+      // A redirect to a URL the policy refuses aborts the navigation
+      const redirectViolation = this._navigationViolations.slice(violationCount).find((v) => v.source === "navigation");
+      if (redirectViolation) {
+        redirectViolation.source = "goto";
+        return {
+          status: "blocked",
+          url: redirectViolation.url,
+          reason: redirectViolation.reason,
+          message: `${sanitizedUrl} redirected to a blocked page: ${redirectViolation.message}`,
+        };
+      }
       console.error(`❌ Navigation failed for ${sanitizedUrl}:`, error);
       throw error;
     } finally {
@@ -236,7 +408,155 @@ export abstract class BasePlaywrightComputer {
     if (!this._page) throw new Error("Page not initialized");
     await this._page.goBack();
   }
+
+  /**
+   * Function tool implementation: extract_data
+   * Executes page data extraction using PlaywrightExtractor in either "structured" or "smart" mode.
+   * This method does not persist — persistence is handled by higher-level API flow.
+   */
+  async extract_data(params: {
+    config: ExtractDataConfig;
+  }): Promise<ExtractionResult & { schemaId?: string; validation?: ExtractionValidation }> {
+    if (!this._page) {
+      throw new Error("Page not initialized");
+    }
+
+    const { config } = params || ({} as any);
+    if (!config || !config.dataType || !config.mode) {
+      return {
+        dataType: config?.dataType || "unknown",
+        records: [],
+        totalCount: 0,
+        extractedAt: new Date(),
+        validation: { ok: false, reason: "Invalid config provided" },
+      };
+    }
+
+    const extractor = new PlaywrightExtractor(this._page);
+    let result: ExtractionResult;
+
+    const extractPage = async (maxRecords?: number): Promise<ExtractionResult> => {
+      if (config.mode === "structured" && config.selectors) {
+        const page = await extractor.extractPageData({
+          dataType: config.dataType,
+          selectors: config.selectors,
+          maxRecords,
+        });
+        return { ...page, method: "structured" };
+      }
+      return this.smartExtract(extractor, config, maxRecords);
+    };
+
+    if (config.pagination?.strategy) {
+      result = await extractor.extractWithPagination(config.pagination, config.maxRecords, extractPage);
+      // Pagination clicked, navigated or scrolled: the cached screenshot is stale
+      this.invalidateScreenshotCache();
+    } else {
+      result = await extractPage(config.maxRecords);
+    }
+
+    // A typed schema always validates: records are coerced to the field types
+    if (config.schema) {
+      const checked = validateRecords(config.schema, result.records, this._page.url());
+      return {
+        ...result,
+        dataType: config.schema.name,
+        records: checked.records,
+        schemaId: config.schema.id,
+        validation: {
+          ok: result.totalCount > 0 && checked.invalidCount === 0,
+          reason: result.totalCount === 0
+            ? "No records extracted"
+            : checked.invalidCount > 0 ? `${checked.invalidCount} of ${result.totalCount} records failed schema validation` : undefined,
+          validCount: checked.validCount,
+          invalidCount: checked.invalidCount,
+          errors: checked.errors,
+        },
+      };
+    }
+
+    // Optional validation (non-destructive)
+    let validation: ExtractionValidation | undefined;
+    if (config.validate) {
+      validation = {
+        ok: result.totalCount > 0,
+        reason: result.totalCount > 0 ? undefined : "No records extracted",
+      };
+    }
+
+    return { ...result, validation };
+  }
   
+  /**
+   * Smart mode: replay the selectors cached for this site, otherwise have the model
+   * read the page and keep the selectors it proposes if they find its records in the
+   * DOM. Keyword matching is the fallback when the model is unavailable.
+   */
+  private async smartExtract(
+    extractor: PlaywrightExtractor,
+    config: ExtractDataConfig,
+    maxRecords?: number,
+  ): Promise<ExtractionResult> {
+    if (!this._page) throw new Error("Page not initialized");
+
+    const url = this._page.url();
+    const site = url.startsWith("http") ? new URL(url).hostname.replace(/^www\./, "") : null;
+    // Schema extractions are stored under the schema's name
+    const cacheKey = config.schema?.name ?? config.dataType;
+    const limit = maxRecords || SMART_EXTRACTION_CONFIG.DEFAULT_MAX_RECORDS;
+
+    if (this._selectorCache && site) {
+      const cached = await this._selectorCache.get(site, cacheKey).catch(() => null);
+      if (cached) {
+        const replayed = await extractor.extractPageData({ dataType: config.dataType, selectors: cached, maxRecords: limit });
+        if (replayed.totalCount > 0) {
+          return { ...replayed, method: "cached_selectors", selectors: cached };
+        }
+        console.log(`🗑️ Cached ${cacheKey} selectors for ${site} found nothing - inferring them again`);
+        await this._selectorCache.remove(site, cacheKey).catch(() => {});
+      }
+    }
+
+    if (extractionInference.enabled) {
+      const inferred = await extractionInference.inferRecords({
+        dataType: cacheKey,
+        url,
+        html: await extractor.getDomSnapshot(SMART_EXTRACTION_CONFIG.MAX_SNAPSHOT_CHARS),
+        fields: config.schema ? describeSchemaFields(config.schema) : undefined,
+        instructions: config.instructions,
+        keywords: config.keywords,
+        screenshot: (config.includeScreenshot ?? SMART_EXTRACTION_CONFIG.INCLUDE_SCREENSHOT) ? await this.screenshot() : null,
+        maxRecords: limit,
+      });
+
+      if (inferred) {
+        if (inferred.selectors) {
+          // The snapshot may be cut short, so selectors that hold up can find more than the model saw
+          const replayed = await extractor.extractPageData({ dataType: config.dataType, selectors: inferred.selectors, maxRecords: limit });
+          const needed = Math.max(1, Math.ceil(inferred.records.length * SMART_EXTRACTION_CONFIG.MIN_SELECTOR_AGREEMENT));
+          if (replayed.totalCount >= needed) {
+            if (this._selectorCache && site) {
+              await this._selectorCache.save(site, cacheKey, inferred.selectors, replayed.totalCount)
+                .catch((error) => console.warn("⚠️ Failed to cache inferred selectors:", error));
+            }
+            return { ...replayed, method: "inferred_selectors", selectors: inferred.selectors };
+          }
+          console.log(`⚠️ Inferred selectors found ${replayed.totalCount} of the model's ${inferred.records.length} records - using the model's records`);
+        }
+        return {
+          dataType: config.dataType,
+          records: inferred.records,
+          totalCount: inferred.records.length,
+          extractedAt: new Date(),
+          method: "model",
+        };
+      }
+    }
+
+    const keywords = Array.isArray(config.keywords) ? config.keywords : [];
+    return { ...(await extractor.smartExtract(config.dataType, keywords)), method: "keywords" };
+  }
+
   // --- Subclass hook ---
-  protected abstract _getBrowserAndPage(): Promise<[Browser, Page]>;
+  protected abstract _getBrowserAndPage(): Promise<[Browser | null, Page]>;
 } 
\ No newline at end of file
@@ -0,0 +1,57 @@
+import type { IAgentBrowserConfig, BrowserBackend } from "@/lib/models/Agent";
+import { BasePlaywrightComputer } from "./base_playwright";
+import { BrowserbaseBrowser } from "./browserbase";
+import { LocalPlaywrightBrowser } from "./local_playwright";
+import { BROWSER_CONFIG } from "./config";
+
+export interface CreateBrowserOptions {
+  agentId: string;
+  userId: string;
+  platform: string | null;
+  region: string;
+  browserConfig?: IAgentBrowserConfig | null;
+}
+
+/**
+ * The agent's own backend choice wins; otherwise BROWSER_BACKEND decides.
+ */
+export function resolveBrowserBackend(browserConfig?: IAgentBrowserConfig | null): BrowserBackend {
+  return browserConfig?.backend || BROWSER_CONFIG.DEFAULT_BACKEND;
+}
+
+/**
+ * Build the computer an agent run drives: a Browserbase session or a local Chromium.
+ */
+export function createBrowser({
+  agentId,
+  userId,
+  platform,
+  region,
+  browserConfig,
+}: CreateBrowserOptions): BasePlaywrightComputer {
+  if (resolveBrowserBackend(browserConfig) === "local") {
+    return new LocalPlaywrightBrowser(
+      1024,
+      768,
+      browserConfig?.headless ?? BROWSER_CONFIG.LOCAL_HEADLESS,
+      BROWSER_CONFIG.LOCAL_START_URL,
+      agentId,
+      platform,
+      userId
+    );
+  }
+
+  // Parameters: width, height, region, proxies, sessionId, agentId, platform, contextId, enableFingerprinting, userId
+  return new BrowserbaseBrowser(
+    1024,
+    768,
+    region,
+    true,
+    null,
+    agentId,
+    platform,
+    null,
+    true,
+    userId
+  );
+}
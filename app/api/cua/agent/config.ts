@@ -1,6 +1,8 @@
 export const MISSION_MEMORY_CONFIG = {
   ENABLE_MISSION_MEMORY: true,
   ENABLE_STEP_GENERATION: true,
+  // Offer the update_plan_progress tool so the model reports which plan steps are done
+  ENABLE_PLAN_TRACKING: true,
   MAX_PLAN_STEPS: 200,
   MAX_COMPLETED_STEPS_TRACKED: 200,
   STEP_GENERATION_MODEL: "gpt-4o-mini",
@@ -18,6 +20,28 @@ export const HALLUCINATION_CONFIG = {
   ENABLE_STALL_DETECTION: true,
   ENABLE_AUTO_RECOVERY: true,
   RECOVERY_PROMPT_PREFIX: "⚠️ IMPORTANT: ",
+  // Regenerate the remaining plan on high-severity stalls or repeated action errors
+  ENABLE_REPLANNING: true,
+  REPLAN_AFTER_CONSECUTIVE_ERRORS: 2,
+  MAX_REPLANS_PER_SESSION: 3,
+  // Visual no-progress: actions that leave the page looking the same, compared over successive step screenshots
+  ENABLE_VISUAL_STALL_DETECTION: true,
+  MAX_UNCHANGED_SCREENSHOTS: 4,
+  VISUAL_HISTORY_SIZE: 10,
+  // Screenshots are compared as small grayscale images
+  VISUAL_DIFF_WIDTH: 256,
+  VISUAL_DIFF_HEIGHT: 192,
+  // Bits of the 64-bit difference hash that may differ on an unchanged page
+  VISUAL_HASH_MAX_DISTANCE: 2,
+  // Gray-level change (0-255) below which a pixel counts as the same
+  VISUAL_PIXEL_TOLERANCE: 24,
+  // Share of changed pixels below which the page counts as unchanged
+  VISUAL_CHANGE_MIN_RATIO: 0.0005,
+  // Actions without a detected stall before the escalation ladder starts over
+  STALL_ESCALATION_RESET_ACTIONS: 8,
+  // Actions to wait after a replan before the next one can trigger
+  REPLAN_COOLDOWN_ACTIONS: 5,
+  REPLAN_MODEL: "gpt-4o-mini",
 };
 
 export const RECOVERY_PROMPTS: Record<string, string> = {
@@ -26,5 +50,81 @@ export const RECOVERY_PROMPTS: Record<string, string> = {
   repeated_typing: "You've already typed that exact text. It's time to submit the form, click a button, or move to the next step of your goal: {goal}",
   circular_nav: "You're revisiting pages you've already been to, creating a loop. Step back and reconsider your strategy for achieving: {goal}. Try a completely different approach.",
   stuck_inactivity: "You appear to be stuck without making meaningful progress. Take a fresh screenshot, carefully read the current page state, and identify the next concrete action needed to achieve: {goal}",
+  no_visual_change: "Your last actions did not change anything visible on the page - the clicks may be missing their target, or the page may be waiting on something you cannot see. Look carefully at the current screenshot and try a different element or approach to achieve: {goal}",
   general_stuck: "Your recent actions suggest you may be stuck in a loop. Remember your goal: {goal}. Take a moment to assess the current page state and choose a new, different action that moves you toward completion."
 };
+
+// Session errorMessage when the agent is still stuck after a recovery prompt and a revised plan
+export const STALL_FAILURE_MESSAGES: Record<string, string> = {
+  repeated_wait: "Agent stalled: it kept waiting without taking action, even after a recovery prompt and a revised plan.",
+  same_click: "Agent stalled: it kept clicking the same spot without effect, even after a recovery prompt and a revised plan. The element may be disabled or covered by another element.",
+  repeated_typing: "Agent stalled: it kept typing the same text without submitting, even after a recovery prompt and a revised plan.",
+  circular_nav: "Agent stalled: it kept navigating between the same pages, even after a recovery prompt and a revised plan.",
+  stuck_inactivity: "Agent stalled: it took no meaningful action for too long, even after a recovery prompt and a revised plan.",
+  no_visual_change: "Agent stalled: its actions stopped changing the page, even after a recovery prompt and a revised plan.",
+  general_stuck: "Agent stalled: it repeated the same actions without progress, even after a recovery prompt and a revised plan."
+};
+
+export const MODEL_PROVIDER_CONFIG = {
+  DEFAULT_PROVIDER: "openai" as const,
+  DEFAULT_MODELS: {
+    openai: "computer-use-preview",
+    anthropic: "claude-sonnet-4-5",
+    scripted: "scripted",
+    replay: "replay",
+  },
+  ANTHROPIC_API_URL: "https://api.anthropic.com/v1/messages",
+  ANTHROPIC_API_VERSION: "2023-06-01",
+  ANTHROPIC_COMPUTER_TOOL: "computer_20250124",
+  ANTHROPIC_BETA: "computer-use-2025-01-24",
+  ANTHROPIC_MAX_TOKENS: 4096,
+  ANTHROPIC_SCROLL_STEP_PX: 100,
+  // Older screenshots are replaced by a placeholder to keep requests small
+  ANTHROPIC_MAX_SCREENSHOTS: 3,
+};
+
+export const BROWSER_CONFIG = {
+  // Backend for agents without browserConfig.backend: "browserbase" or "local" (Chromium on the worker)
+  DEFAULT_BACKEND: (process.env.BROWSER_BACKEND === "local" ? "local" : "browserbase") as "browserbase" | "local",
+  LOCAL_HEADLESS: process.env.LOCAL_BROWSER_HEADLESS !== "false",
+  // Root for persistent user-data directories (the local equivalent of Browserbase contexts)
+  LOCAL_USER_DATA_DIR: process.env.LOCAL_BROWSER_DATA_DIR || ".browser-data",
+  LOCAL_START_URL: "https://search.brave.com",
+  LOCAL_CONTEXT_PREFIX: "local-",
+};
+
+export const SESSION_STATE_CONFIG = {
+  // Where mission memory and action history live: "memory" (this process), "mongodb" or "redis" (shared)
+  STORE: (process.env.SESSION_STATE_STORE || "memory") as "memory" | "mongodb" | "redis",
+  // State not written for this long is dropped
+  TTL_MINUTES: parseInt(process.env.SESSION_STATE_TTL_MINUTES || "1440"),
+  REDIS_URL: process.env.REDIS_URL || "redis://localhost:6379",
+  REDIS_KEY_PREFIX: "cua:session-state:",
+  // How often the in-memory store sweeps expired sessions
+  MEMORY_SWEEP_INTERVAL_MS: 60000,
+  // Times a change is re-applied when another process wrote the session first
+  MAX_WRITE_ATTEMPTS: 5,
+};
+
+export const EXECUTION_BUDGET_CONFIG = {
+  // Actions per session when the agent does not set its own limit
+  DEFAULT_MAX_ACTIONS: 100,
+  // Share of a budget after which the model is told to wrap up
+  WIND_DOWN_RATIO: 0.9,
+};
+
+export const SMART_EXTRACTION_CONFIG = {
+  // extract_data "smart" mode reads the page with a model (off = keyword matching)
+  ENABLE_MODEL_EXTRACTION: true,
+  MODEL: "gpt-4o-mini",
+  TEMPERATURE: 0,
+  MAX_TOKENS: 4000,
+  // Characters of simplified HTML sent to the model
+  MAX_SNAPSHOT_CHARS: 60000,
+  // Records the model returns when extract_data sets no maxRecords
+  DEFAULT_MAX_RECORDS: 50,
+  // Also send the screenshot unless extract_data says otherwise
+  INCLUDE_SCREENSHOT: false,
+  // Inferred selectors are kept when they find at least this share of the model's records
+  MIN_SELECTOR_AGREEMENT: 0.5,
+};
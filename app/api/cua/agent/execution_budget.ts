@@ -0,0 +1,102 @@
+/**
+ * Execution budgets for a single session
+ *
+ * Agents can cap the actions, wall-clock minutes, credits and model tokens a session
+ * may use. The executor checks the budgets before every model call: close to a
+ * limit the model is asked to wrap up, at the limit the session stops.
+ */
+
+import type { IAgentExecutionBudget } from '@/lib/models/Agent';
+import { EXECUTION_BUDGET_CONFIG } from './config';
+
+export type BudgetKind = 'actions' | 'minutes' | 'credits' | 'tokens';
+
+export interface BudgetLimits {
+  maxActions: number;
+  // Null = no limit
+  maxMinutes: number | null;
+  maxCredits: number | null;
+  maxTokens: number | null;
+}
+
+export interface BudgetUsage {
+  actions: number;
+  // Wall-clock minutes since the session started, paused time excluded
+  minutes: number;
+  credits: number;
+  tokens: number;
+}
+
+export interface BudgetCheck {
+  // First budget that is used up, if any
+  exhausted: BudgetKind | null;
+  // Budgets past the wind-down threshold but not yet used up
+  windingDown: BudgetKind[];
+}
+
+const BUDGET_LABELS: Record<BudgetKind, string> = {
+  actions: 'actions',
+  minutes: 'minutes',
+  credits: 'credits',
+  tokens: 'model tokens',
+};
+
+/**
+ * Limits for a session from the agent's budget (missing action limit = the default)
+ */
+export function resolveBudgetLimits(budget?: IAgentExecutionBudget | null): BudgetLimits {
+  return {
+    maxActions: budget?.maxActions ?? EXECUTION_BUDGET_CONFIG.DEFAULT_MAX_ACTIONS,
+    maxMinutes: budget?.maxMinutes ?? null,
+    maxCredits: budget?.maxCredits ?? null,
+    maxTokens: budget?.maxTokens ?? null,
+  };
+}
+
+function getLimit(limits: BudgetLimits, kind: BudgetKind): number | null {
+  switch (kind) {
+    case 'actions':
+      return limits.maxActions;
+    case 'minutes':
+      return limits.maxMinutes;
+    case 'credits':
+      return limits.maxCredits;
+    case 'tokens':
+      return limits.maxTokens;
+  }
+}
+
+/**
+ * Compare the session's usage with its limits
+ */
+export function checkBudgets(limits: BudgetLimits, usage: BudgetUsage): BudgetCheck {
+  const result: BudgetCheck = { exhausted: null, windingDown: [] };
+
+  for (const kind of Object.keys(BUDGET_LABELS) as BudgetKind[]) {
+    const limit = getLimit(limits, kind);
+    if (limit === null) continue;
+
+    if (usage[kind] >= limit) {
+      result.exhausted ??= kind;
+    } else if (usage[kind] >= limit * EXECUTION_BUDGET_CONFIG.WIND_DOWN_RATIO) {
+      result.windingDown.push(kind);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * "42/50 minutes", for logs and the session's stop detail
+ */
+export function describeBudget(kind: BudgetKind, limits: BudgetLimits, usage: BudgetUsage): string {
+  const used = kind === 'minutes' ? usage.minutes.toFixed(1) : String(usage[kind]);
+  return `${used}/${getLimit(limits, kind)} ${BUDGET_LABELS[kind]}`;
+}
+
+/**
+ * Developer message sent once per budget when it is nearly used up
+ */
+export function getWindDownPrompt(kind: BudgetKind, limits: BudgetLimits, usage: BudgetUsage): string {
+  return `Budget notice: this session has used ${describeBudget(kind, limits, usage)} and will be stopped when the limit is reached. Wrap up now: finish or save the work in progress, record any data you have collected, and do not start new steps.`;
+}
@@ -0,0 +1,124 @@
+import OpenAI from "openai";
+import type { ExtractionSelectors } from "@/lib/services/playwright-extractor";
+import { SMART_EXTRACTION_CONFIG } from "./config";
+
+const EXTRACTION_PROMPT = `You extract structured records from a web page for a browser automation agent.
+
+You get the page URL, a simplified HTML snapshot of the page (and sometimes a screenshot), the kind of records wanted and, when known, the fields each record should have.
+
+1. Find the records of that kind on the page and return their fields. Copy values as they appear on the page; for links use the href value. Leave out fields a record does not have, and do not invent records. Without a field list, pick short camelCase field names that describe the data.
+2. If the records are repeated elements with a shared structure, infer CSS selectors that extract them again without you:
+   - "container" matches exactly one element per record
+   - each field selector is relative to the container and matches the element holding the value
+   - for fields that hold a link, select the <a> element and include [href] in the selector (e.g. "a.title[href]")
+   - prefer ids, data-testid, aria-label, roles and meaningful class names over generated class names
+   Return "selectors": null when the records do not share a structure.
+
+Respond with JSON only:
+{"records": [{"field": "value"}], "selectors": {"container": "...", "fields": {"field": "selector"}}}`;
+
+export interface ExtractionInferenceContext {
+  dataType: string;
+  url: string;
+  // Simplified HTML from PlaywrightExtractor.getDomSnapshot
+  html: string;
+  // Field list from the extraction schema (describeSchemaFields)
+  fields?: string;
+  instructions?: string;
+  keywords?: string[];
+  // Base64 PNG of the current page
+  screenshot?: string | null;
+  maxRecords: number;
+}
+
+export interface ExtractionInferenceResult {
+  records: Array<Record<string, unknown>>;
+  selectors: ExtractionSelectors | null;
+}
+
+function toSelectors(value: unknown): ExtractionSelectors | null {
+  if (!value || typeof value !== "object") return null;
+  const { container, fields } = value as { container?: unknown; fields?: unknown };
+  if (!fields || typeof fields !== "object") return null;
+
+  const fieldSelectors = Object.fromEntries(
+    Object.entries(fields as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string" && entry[1].trim() !== ""
+    )
+  );
+  if (Object.keys(fieldSelectors).length === 0) return null;
+
+  return {
+    container: typeof container === "string" && container.trim() ? container : undefined,
+    fields: fieldSelectors,
+  };
+}
+
+/**
+ * Model-backed extraction for extract_data's smart mode: reads records off a page
+ * snapshot and proposes selectors that can replay the extraction in structured mode.
+ */
+export class ExtractionInference {
+  private client: OpenAI | null = null;
+
+  get enabled(): boolean {
+    return SMART_EXTRACTION_CONFIG.ENABLE_MODEL_EXTRACTION && !!process.env.OPENAI_API_KEY;
+  }
+
+  /**
+   * Returns null when the model call fails or its answer cannot be parsed;
+   * the caller then falls back to keyword matching.
+   */
+  async inferRecords(context: ExtractionInferenceContext): Promise<ExtractionInferenceResult | null> {
+    this.client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+    const briefing = `RECORDS WANTED: ${context.dataType} (at most ${context.maxRecords})
+${context.fields ? `FIELDS: ${context.fields}\n` : ""}${context.instructions ? `INSTRUCTIONS: ${context.instructions}\n` : ""}${context.keywords?.length ? `KEYWORDS: ${context.keywords.join(", ")}\n` : ""}PAGE URL: ${context.url}
+
+HTML:
+${context.html}`;
+
+    try {
+      console.log(`🧠 Inferring ${context.dataType} records from the page (${context.html.length} chars of HTML)...`);
+      const startTime = Date.now();
+
+      const response = await this.client.chat.completions.create({
+        model: SMART_EXTRACTION_CONFIG.MODEL,
+        messages: [
+          {
+            role: "system",
+            content: EXTRACTION_PROMPT
+          },
+          {
+            role: "user",
+            content: context.screenshot
+              ? [
+                  { type: "text", text: briefing },
+                  { type: "image_url", image_url: { url: `data:image/png;base64,${context.screenshot}`, detail: "low" } },
+                ]
+              : briefing
+          }
+        ],
+        response_format: { type: "json_object" },
+        temperature: SMART_EXTRACTION_CONFIG.TEMPERATURE,
+        max_completion_tokens: SMART_EXTRACTION_CONFIG.MAX_TOKENS,
+      });
+
+      const parsed = JSON.parse(response.choices[0]?.message?.content || "{}") as { records?: unknown; selectors?: unknown };
+      const records = Array.isArray(parsed.records)
+        ? parsed.records
+            .filter((record): record is Record<string, unknown> => !!record && typeof record === "object" && !Array.isArray(record))
+            .slice(0, context.maxRecords)
+        : [];
+      const selectors = toSelectors(parsed.selectors);
+
+      console.log(`✅ Model found ${records.length} records${selectors ? " and proposed selectors" : ""} in ${Date.now() - startTime}ms`);
+      return { records, selectors };
+    } catch (error) {
+      console.error("❌ Error inferring extraction records:", error);
+      return null;
+    }
+  }
+}
+
+export const extractionInference = new ExtractionInference();
@@ -0,0 +1,267 @@
+import { Browser, BrowserContext, Page, chromium } from "playwright";
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { BasePlaywrightComputer } from "./base_playwright";
+import { BROWSER_CONFIG } from "./config";
+import BrowserbaseContext from "@/lib/models/BrowserbaseContext";
+import connectDB from "@/lib/mongodb";
+
+/**
+ * Local contexts and sessions are stored alongside Browserbase ones, told apart by their id prefix.
+ */
+export function isLocalContextId(contextId: string | null | undefined): boolean {
+  return !!contextId && contextId.startsWith(BROWSER_CONFIG.LOCAL_CONTEXT_PREFIX);
+}
+
+export function isLocalBrowserSessionId(browserSessionId: string | null | undefined): boolean {
+  return !!browserSessionId && browserSessionId.startsWith(BROWSER_CONFIG.LOCAL_CONTEXT_PREFIX);
+}
+
+export function getLocalUserDataDir(contextId: string): string {
+  return path.resolve(BROWSER_CONFIG.LOCAL_USER_DATA_DIR, contextId);
+}
+
+/**
+ * Delete a local context's user-data directory (only present on the machine that ran it).
+ */
+export async function removeLocalUserDataDir(contextId: string): Promise<void> {
+  if (!isLocalContextId(contextId)) return;
+  await fs.rm(getLocalUserDataDir(contextId), { recursive: true, force: true });
+  console.log(`🗑️  Deleted local user-data directory for context ${contextId}`);
+}
+
+// User-data directories opened by this process (Chromium only marks them once it is up)
+const openUserDataDirs = new Set<string>();
+
+/**
+ * Whether another Chromium has the user-data directory open. Chromium marks it with a
+ * SingletonLock symlink to "<hostname>-<pid>" and leaves it behind after a crash.
+ */
+async function isUserDataDirInUse(userDataDir: string): Promise<boolean> {
+  if (openUserDataDirs.has(userDataDir)) return true;
+
+  let owner: string;
+  try {
+    owner = await fs.readlink(path.join(userDataDir, "SingletonLock"));
+  } catch {
+    return false;
+  }
+  // Opened from another machine sharing the directory
+  if (!owner.startsWith(`${os.hostname()}-`)) return true;
+
+  const pid = Number(owner.slice(os.hostname().length + 1));
+  if (!Number.isInteger(pid) || pid <= 0) return true;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+export class LocalPlaywrightBrowser extends BasePlaywrightComputer {
+  /**
+   * Chromium launched on this machine through Playwright, for running agents without Browserbase.
+   * When an agent and platform are known, a persistent user-data directory takes the place of a
+   * Browserbase context, so logins survive between sessions.
+   * Requires the Playwright browser to be installed (`npx playwright install chromium`).
+   */
+
+  private headless: boolean;
+  private startUrl: string | null;
+  private agentId: string | null;
+  private platform: string | null;
+  private userId: string | null;
+  private contextId: string | null = null;
+  private persistentContext: BrowserContext | null = null;
+  private localSessionId: string | null = null;
+  // The context's user-data directory while this session has it open
+  private openUserDataDir: string | null = null;
+  // Copy of the profile used when another session has the directory open
+  private tempUserDataDir: string | null = null;
+
+  constructor(
+    width: number = 1024,
+    height: number = 768,
+    headless: boolean = true,
+    startUrl: string | null = null,
+    agentId: string | null = null,
+    platform: string | null = null,
+    userId: string | null = null
+  ) {
+    /**
+     * @param width - The width of the browser viewport. Default is 1024.
+     * @param height - The height of the browser viewport. Default is 768.
+     * @param headless - Run Chromium without a window. Default is true.
+     * @param startUrl - Optional. Page to open once the browser is up.
+     * @param agentId - Optional. Agent ID (MongoDB ObjectId string) for context persistence.
+     * @param platform - Optional. Platform name (linkedin, twitter, etc.) for context persistence.
+     * @param userId - Optional. User ID for context ownership.
+     */
+    super();
+    this.dimensions = [width, height];
+    this.headless = headless;
+    this.startUrl = startUrl;
+    this.agentId = agentId;
+    this.platform = platform;
+    this.userId = userId;
+  }
+
+  get browserSessionId(): string | null {
+    return this.localSessionId;
+  }
+
+  /**
+   * Find this agent/platform's local context or register a new one.
+   */
+  private async getOrCreateContext(): Promise<string | null> {
+    if (!this.agentId || !this.platform || !this.userId) {
+      console.log('⏭️  Skipping context management (missing agentId, platform, or userId)');
+      return null;
+    }
+
+    await connectDB();
+
+    const existingContext = await BrowserbaseContext.findOne({
+      userId: this.userId,
+      agentId: this.agentId,
+      platform: this.platform,
+      isActive: true,
+      contextId: { $regex: `^${BROWSER_CONFIG.LOCAL_CONTEXT_PREFIX}` },
+    }).lean().exec();
+
+    if (existingContext) {
+      console.log(`🔍 Found existing local context for ${this.platform}: ${existingContext.contextId}`);
+      return existingContext.contextId;
+    }
+
+    const contextId = `${BROWSER_CONFIG.LOCAL_CONTEXT_PREFIX}${randomUUID()}`;
+    await BrowserbaseContext.create({
+      userId: this.userId,
+      agentId: this.agentId,
+      platform: this.platform,
+      contextId,
+      isActive: true,
+      metadata: { backend: "local", userDataDir: getLocalUserDataDir(contextId) },
+    });
+
+    console.log(`🆕 Created local context for ${this.platform}: ${contextId}`);
+    return contextId;
+  }
+
+  protected async _getBrowserAndPage(): Promise<[Browser | null, Page]> {
+    const [width, height] = this.dimensions;
+    const launchOptions = {
+      headless: this.headless,
+      args: [`--window-size=${width},${height}`],
+    };
+
+    this.contextId = await this.getOrCreateContext();
+
+    let browser: Browser | null = null;
+    let page: Page;
+
+    if (this.contextId) {
+      let userDataDir = getLocalUserDataDir(this.contextId);
+      await fs.mkdir(userDataDir, { recursive: true });
+
+      if (await isUserDataDirInUse(userDataDir)) {
+        // Chromium locks the directory, so an overlapping session (a manual run during a
+        // scheduled one, a retry while the old run winds down) runs on a copy of the profile
+        userDataDir = await this.copyUserDataDir(userDataDir);
+      } else {
+        openUserDataDirs.add(userDataDir);
+        this.openUserDataDir = userDataDir;
+      }
+
+      try {
+        // A persistent context owns its browser; it is closed through the context
+        this.persistentContext = await chromium.launchPersistentContext(userDataDir, {
+          ...launchOptions,
+          viewport: { width, height },
+        });
+      } catch (error) {
+        await this.releaseUserDataDir();
+        throw error;
+      }
+      page = this.persistentContext.pages()[0] ?? (await this.persistentContext.newPage());
+      console.log(this.tempUserDataDir
+        ? `🔐 Using a copy of the user-data directory in ${userDataDir} (changes to login state are not kept)`
+        : `🔐 Using user-data directory ${userDataDir} (login state is kept between sessions)`);
+    } else {
+      browser = await chromium.launch(launchOptions);
+      const context = await browser.newContext({ viewport: { width, height } });
+      page = await context.newPage();
+    }
+
+    page.on("crash", () => {
+      console.error(`💥 PAGE CRASHED: Page ${page.url()} crashed unexpectedly.`);
+    });
+
+    if (this.startUrl) {
+      await page.goto(this.startUrl, { waitUntil: "domcontentloaded", timeout: 20000 });
+    }
+
+    this.localSessionId = `${BROWSER_CONFIG.LOCAL_CONTEXT_PREFIX}${randomUUID()}`;
+    console.log(`✅ Local Chromium started (${this.headless ? "headless" : "headed"}): ${this.localSessionId}`);
+
+    return [browser, page];
+  }
+
+  private async copyUserDataDir(userDataDir: string): Promise<string> {
+    const copyDir = await fs.mkdtemp(path.join(os.tmpdir(), `${this.contextId}-`));
+    this.tempUserDataDir = copyDir;
+    try {
+      await fs.cp(userDataDir, copyDir, {
+        recursive: true,
+        // The other session's lock, socket and cookie files for its running Chromium
+        filter: (source) => !path.basename(source).startsWith("Singleton"),
+      });
+    } catch (error) {
+      await this.releaseUserDataDir();
+      throw new Error(
+        `The local browser profile for context ${this.contextId} is in use by another session and could not be copied: ${(error as Error).message}`
+      );
+    }
+    console.warn(`⚠️ User-data directory ${userDataDir} is in use by another session - running on a copy`);
+    return copyDir;
+  }
+
+  private async releaseUserDataDir(): Promise<void> {
+    if (this.openUserDataDir) {
+      openUserDataDirs.delete(this.openUserDataDir);
+      this.openUserDataDir = null;
+    }
+    if (this.tempUserDataDir) {
+      await fs.rm(this.tempUserDataDir, { recursive: true, force: true }).catch((err) =>
+        console.warn("Error deleting copied user-data directory:", err.message)
+      );
+      this.tempUserDataDir = null;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.persistentContext) {
+      await this.persistentContext.close().catch((err) =>
+        console.warn("Error closing browser context:", err.message)
+      );
+      this.persistentContext = null;
+      await this.releaseUserDataDir();
+    } else {
+      await super.disconnect();
+    }
+
+    if (this.contextId && this.userId && this.agentId && this.platform) {
+      try {
+        await BrowserbaseContext.updateOne(
+          { userId: this.userId, agentId: this.agentId, contextId: this.contextId },
+          { $set: { lastUsedAt: new Date() } }
+        ).exec();
+      } catch (error) {
+        console.error("Failed to update local context:", error);
+      }
+    }
+  }
+}
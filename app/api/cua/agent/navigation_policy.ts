@@ -0,0 +1,183 @@
+/**
+ * Navigation policy for agent browsers
+ *
+ * Decides whether the agent may load a URL. Enforced by BasePlaywrightComputer
+ * on `goto` and, through route interception, on navigations triggered by clicks,
+ * form submissions and redirects.
+ */
+
+import type { IAgentNavigationPolicy } from '@/lib/models/Agent';
+import { getHostname, matchesDomain, normalizeDomainPattern } from '@/lib/utils/domain-match';
+
+export type NavigationViolationReason =
+  | 'blocked_scheme'
+  | 'denied_pattern'
+  | 'domain_not_allowed'
+  | 'download';
+
+export interface NavigationPolicy {
+  // Null = any domain (only deny patterns apply)
+  allowedDomains: string[] | null;
+  deniedPatterns: string[];
+  blockDownloads: boolean;
+}
+
+export interface NavigationViolation {
+  url: string;
+  reason: NavigationViolationReason;
+  message: string;
+  // What triggered the navigation: the goto tool, an in-page navigation or a download
+  source: 'goto' | 'navigation' | 'download';
+  at: Date;
+}
+
+// Domains each platform needs to work (login pages, static assets served from separate domains)
+const PLATFORM_DOMAINS: Array<{ pattern: RegExp; domains: string[] }> = [
+  { pattern: /linkedin/, domains: ['linkedin.com', 'licdn.com'] },
+  { pattern: /twitter|^x$|x\.com/, domains: ['twitter.com', 'x.com', 'twimg.com'] },
+  { pattern: /google|gmail/, domains: ['google.com', 'gstatic.com', 'googleapis.com', 'googleusercontent.com'] },
+  { pattern: /youtube/, domains: ['youtube.com', 'google.com'] },
+  { pattern: /facebook/, domains: ['facebook.com', 'fbcdn.net'] },
+  { pattern: /instagram/, domains: ['instagram.com', 'cdninstagram.com', 'facebook.com'] },
+  { pattern: /reddit/, domains: ['reddit.com', 'redditstatic.com', 'redd.it'] },
+  { pattern: /salesforce/, domains: ['salesforce.com', 'force.com'] },
+  { pattern: /slack/, domains: ['slack.com', 'slack-edge.com'] },
+  { pattern: /notion/, domains: ['notion.so', 'notion.com'] },
+  { pattern: /airtable/, domains: ['airtable.com'] },
+  { pattern: /hubspot/, domains: ['hubspot.com'] },
+  { pattern: /github/, domains: ['github.com'] },
+];
+
+// Only web pages can be opened; javascript:, file:, data: etc. are always refused
+const ALLOWED_SCHEMES = ['http:', 'https:'];
+
+/**
+ * Domains for the platforms an agent works on ("LinkedIn", "Twitter/X", "google sheets", "hubspot.com")
+ */
+export function getPlatformDomains(platforms: string[]): string[] {
+  const domains = new Set<string>();
+
+  for (const platform of platforms) {
+    const name = platform.trim().toLowerCase();
+    if (!name) continue;
+
+    // A platform given as a domain is used as-is
+    if (/^([a-z0-9-]+\.)+[a-z]{2,}$/.test(normalizeDomainPattern(name))) {
+      domains.add(normalizeDomainPattern(name));
+      continue;
+    }
+
+    for (const entry of PLATFORM_DOMAINS) {
+      if (name.split('/').some((part) => entry.pattern.test(part.trim()))) {
+        entry.domains.forEach((domain) => domains.add(domain));
+      }
+    }
+  }
+
+  return Array.from(domains);
+}
+
+/**
+ * Build the policy for an agent. The allowlist is the agent's target website, the
+ * domains of its platforms and any extra allowed domains, and only applies when
+ * `enforceAllowlist` is on. Returns null when there is nothing to enforce.
+ */
+export function buildNavigationPolicy(agent: {
+  targetWebsite?: string | null;
+  platforms?: string[] | null;
+  navigationPolicy?: IAgentNavigationPolicy | null;
+}): NavigationPolicy | null {
+  const settings = agent.navigationPolicy;
+  const deniedPatterns = (settings?.deniedPatterns ?? []).map((p) => p.trim()).filter(Boolean);
+  const blockDownloads = settings?.blockDownloads ?? true;
+
+  let allowedDomains: string[] | null = null;
+  if (settings?.enforceAllowlist) {
+    const targetHost = getHostname(agent.targetWebsite);
+    const domains = new Set<string>([
+      ...(targetHost ? [targetHost] : []),
+      ...getPlatformDomains(agent.platforms ?? []),
+      ...(settings.allowedDomains ?? []).map(normalizeDomainPattern).filter(Boolean),
+    ]);
+
+    if (domains.size > 0) {
+      allowedDomains = Array.from(domains);
+    } else {
+      console.warn('⚠️ Navigation allowlist enabled but the agent has no target website, platforms or allowed domains - allowlist not enforced');
+    }
+  }
+
+  if (!allowedDomains && deniedPatterns.length === 0 && !blockDownloads) {
+    return null;
+  }
+
+  return { allowedDomains, deniedPatterns, blockDownloads };
+}
+
+/**
+ * Deny patterns are domains ("ads.example.com", "*.example.com") or, when they
+ * contain a "/", globs over host and path ("example.com/settings/*").
+ */
+function matchesDeniedPattern(url: URL, pattern: string): boolean {
+  const hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+
+  if (!pattern.includes('/')) {
+    return matchesDomain(hostname, [pattern]);
+  }
+
+  const target = `${hostname}${url.pathname}`;
+  const glob = pattern.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '');
+  const regex = new RegExp(
+    '^' + glob.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$',
+    'i',
+  );
+  return regex.test(target);
+}
+
+/**
+ * Check a URL against the policy. Returns the violation, or null when the
+ * navigation is allowed.
+ */
+export function checkNavigation(
+  policy: NavigationPolicy | null,
+  rawUrl: string,
+  source: NavigationViolation['source'],
+): NavigationViolation | null {
+  const violation = (reason: NavigationViolationReason, message: string): NavigationViolation => ({
+    url: rawUrl,
+    reason,
+    message,
+    source,
+    at: new Date(),
+  });
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return violation('blocked_scheme', `"${rawUrl}" is not a valid web address`);
+  }
+
+  // about:blank is what new tabs start on
+  if (url.href === 'about:blank') return null;
+
+  if (!ALLOWED_SCHEMES.includes(url.protocol)) {
+    return violation('blocked_scheme', `${url.protocol} URLs are not allowed`);
+  }
+
+  if (!policy) return null;
+
+  const denied = policy.deniedPatterns.find((pattern) => matchesDeniedPattern(url, pattern));
+  if (denied) {
+    return violation('denied_pattern', `${url.hostname} is blocked for this agent (matches "${denied}")`);
+  }
+
+  if (policy.allowedDomains && !matchesDomain(url.hostname, policy.allowedDomains)) {
+    return violation(
+      'domain_not_allowed',
+      `${url.hostname} is outside the domains this agent may visit (${policy.allowedDomains.join(', ')})`,
+    );
+  }
+
+  return null;
+}
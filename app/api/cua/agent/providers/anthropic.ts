@@ -0,0 +1,360 @@
+import axios, { AxiosError } from "axios";
+import {
+  InputItem,
+  Item,
+  Tool,
+  ComputerAction,
+  ComputerToolCall,
+  ComputerCallOutput,
+  FunctionToolCall,
+  FunctionOutput,
+  SafetyCheck,
+  EasyMessage,
+} from "../types";
+import { ModelProvider, ModelRequest, ModelResponse } from "./types";
+import { formatImageOutput } from "./openai";
+import { MODEL_PROVIDER_CONFIG } from "../config";
+
+type AnthropicImageBlock = {
+  type: "image";
+  source: { type: "base64"; media_type: string; data: string };
+};
+
+type AnthropicTextBlock = { type: "text"; text: string };
+
+type AnthropicToolResultBlock = {
+  type: "tool_result";
+  tool_use_id: string;
+  content: string | (AnthropicTextBlock | AnthropicImageBlock)[];
+  is_error?: boolean;
+};
+
+type AnthropicToolUseBlock = {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+};
+
+type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolResultBlock
+  | AnthropicToolUseBlock;
+
+type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+};
+
+type AnthropicResponse = {
+  id: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage?: { input_tokens?: number; output_tokens?: number } | null;
+};
+
+// Claude names keys xdotool-style; map the ones Playwright spells differently
+const XDOTOOL_KEY_TO_CUA_KEY: Record<string, string> = {
+  "return": "Enter",
+  "kp_enter": "Enter",
+  "page_down": "PageDown",
+  "page_up": "PageUp",
+  "backspace": "Backspace",
+  "escape": "Escape",
+  "super": "Meta",
+};
+
+/**
+ * Anthropic computer use via the Messages API.
+ *
+ * The Messages API is stateless, so this adapter keeps the conversation itself:
+ * every input item is converted once (tracked by identity, since callers may resend
+ * the whole history) and the model's replies are appended as assistant turns.
+ * Every tool_use must be answered by a tool_result in the next user turn, failed
+ * actions included (sent with is_error).
+ */
+export class AnthropicProvider implements ModelProvider {
+  readonly name = "anthropic" as const;
+  readonly model: string;
+  private systemPrompt: string[] = [];
+  private history: AnthropicMessage[] = [];
+  private consumedInputs = new WeakSet<object>();
+  // Error message of each tool call whose action failed, by tool_use id
+  private failedCalls = new Map<string, string>();
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  async getAction({ input, tools, ephemeralContext }: ModelRequest): Promise<ModelResponse> {
+    const isFirstTurn = this.history.length === 0;
+    const userContent: AnthropicContentBlock[] = [];
+    const toolResults: AnthropicContentBlock[] = [];
+
+    for (const item of input) {
+      if (this.consumedInputs.has(item)) continue;
+      this.consumedInputs.add(item);
+      this.convertInputItem(item, isFirstTurn, userContent, toolResults);
+    }
+
+    // Tool results must open the user turn that follows the assistant's tool calls
+    const newContent = [...toolResults, ...userContent];
+    if (newContent.length === 0) {
+      newContent.push({ type: "text", text: "Continue with the task." });
+    }
+    this.history.push({ role: "user", content: newContent });
+
+    const system = [...this.systemPrompt, ...(ephemeralContext ? [ephemeralContext] : [])].join("\n\n");
+
+    const response = await this.createMessage({
+      model: this.model,
+      max_tokens: MODEL_PROVIDER_CONFIG.ANTHROPIC_MAX_TOKENS,
+      ...(system ? { system } : {}),
+      tools: tools.map((tool) => this.convertTool(tool)),
+      messages: this.historyForRequest(),
+    });
+
+    this.history.push({ role: "assistant", content: response.content });
+
+    console.log("response", JSON.stringify(response).substring(0, 1000));
+
+    const output = this.parseOutput(response);
+    return {
+      output,
+      responseId: response.id,
+      // A reply without tool calls ends the turn; there is nothing for the loop to execute
+      finished: response.stop_reason === "end_turn" && !output.some((item) => item.type !== "message"),
+      usage: response.usage
+        ? { inputTokens: response.usage.input_tokens ?? 0, outputTokens: response.usage.output_tokens ?? 0 }
+        : null,
+    };
+  }
+
+  formatScreenshotOutput(
+    call: ComputerToolCall,
+    screenshotBase64: string,
+    acknowledgedSafetyChecks: SafetyCheck[]
+  ): ComputerCallOutput {
+    // Claude has no safety checks to acknowledge; the image is converted when it is sent back
+    return formatImageOutput(call, screenshotBase64, acknowledgedSafetyChecks);
+  }
+
+  formatErrorOutput(
+    call: ComputerToolCall | FunctionToolCall,
+    message: string,
+    screenshotBase64: string | null
+  ): ComputerCallOutput | FunctionOutput {
+    this.failedCalls.set(call.call_id, message);
+    if (call.type === "function_call") {
+      return { type: "function_call_output", call_id: call.call_id, output: message };
+    }
+    return formatImageOutput(call, screenshotBase64 ?? "", []);
+  }
+
+  private async createMessage(body: Record<string, unknown>): Promise<AnthropicResponse> {
+    const headers: Record<string, string> = {
+      "x-api-key": process.env.ANTHROPIC_API_KEY || "",
+      "anthropic-version": MODEL_PROVIDER_CONFIG.ANTHROPIC_API_VERSION,
+      "anthropic-beta": MODEL_PROVIDER_CONFIG.ANTHROPIC_BETA,
+      "Content-Type": "application/json",
+    };
+
+    try {
+      const response = await axios.post(MODEL_PROVIDER_CONFIG.ANTHROPIC_API_URL, body, { headers });
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      console.error(`❌ Anthropic API Error: ${axiosError.response?.status} ${axiosError.message}`);
+      console.error(`Response data: ${JSON.stringify(axiosError.response?.data)}`);
+      throw error;
+    }
+  }
+
+  private convertInputItem(
+    item: InputItem,
+    isFirstTurn: boolean,
+    userContent: AnthropicContentBlock[],
+    toolResults: AnthropicContentBlock[]
+  ) {
+    if ("call_id" in item && this.failedCalls.has(item.call_id)) {
+      toolResults.push({
+        type: "tool_result",
+        tool_use_id: item.call_id,
+        content: this.failedCalls.get(item.call_id) || "Action failed.",
+        is_error: true,
+      });
+      return;
+    }
+
+    if ("type" in item && item.type === "function_call_output") {
+      toolResults.push({ type: "tool_result", tool_use_id: item.call_id, content: item.output });
+      return;
+    }
+
+    if ("type" in item && item.type === "computer_call_output") {
+      const image = this.toImageBlock(item.output.image_url);
+      toolResults.push({
+        type: "tool_result",
+        tool_use_id: item.call_id,
+        content: image ? [image] : "Action completed.",
+      });
+      return;
+    }
+
+    const message = item as EasyMessage;
+    const text = typeof message.content === "string"
+      ? message.content
+      : message.content
+          .map((part) => ("text" in part ? part.text : ""))
+          .filter(Boolean)
+          .join("\n");
+
+    if (message.role === "system" || (message.role === "developer" && isFirstTurn)) {
+      // Opening instructions become the system prompt for the whole conversation
+      this.systemPrompt.push(text);
+    } else if (message.role === "developer") {
+      userContent.push({ type: "text", text: `[Operator note] ${text}` });
+    } else {
+      userContent.push({ type: "text", text });
+    }
+  }
+
+  private convertTool(tool: Tool): Record<string, unknown> {
+    if (tool.type === "computer_use_preview") {
+      return {
+        type: MODEL_PROVIDER_CONFIG.ANTHROPIC_COMPUTER_TOOL,
+        name: "computer",
+        display_width_px: tool.display_width,
+        display_height_px: tool.display_height,
+      };
+    }
+
+    const parameters = tool.parameters as { type?: string; properties?: object };
+    return {
+      name: tool.name,
+      description: tool.description || tool.name,
+      // Claude requires an object schema even for tools without arguments
+      input_schema: parameters.type ? parameters : { type: "object", properties: {} },
+    };
+  }
+
+  private toImageBlock(imageUrl: string): AnthropicImageBlock | null {
+    const match = imageUrl.match(/^data:(image\/[a-z]+);base64,(.+)$/);
+    if (!match) return null;
+    return { type: "image", source: { type: "base64", media_type: match[1], data: match[2] } };
+  }
+
+  /**
+   * History with all but the most recent screenshots replaced by a text placeholder.
+   */
+  private historyForRequest(): AnthropicMessage[] {
+    let screenshotsKept = 0;
+    const trimmed: AnthropicMessage[] = [];
+
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const message = this.history[i];
+      const content = message.content.map((block) => {
+        if (block.type !== "tool_result" || typeof block.content === "string") return block;
+        const hasImage = block.content.some((part) => part.type === "image");
+        if (!hasImage) return block;
+        if (screenshotsKept < MODEL_PROVIDER_CONFIG.ANTHROPIC_MAX_SCREENSHOTS) {
+          screenshotsKept++;
+          return block;
+        }
+        return { ...block, content: "[older screenshot omitted]" };
+      });
+      trimmed.unshift({ role: message.role, content });
+    }
+
+    return trimmed;
+  }
+
+  private parseOutput(response: AnthropicResponse): Item[] {
+    const output: Item[] = [];
+
+    for (const block of response.content) {
+      if (block.type === "text") {
+        output.push({
+          type: "message",
+          id: `${response.id}_text_${output.length}`,
+          role: "assistant",
+          content: [{ type: "output_text", text: block.text, annotations: [] }],
+        });
+      } else if (block.type === "tool_use" && block.name === "computer") {
+        output.push({
+          type: "computer_call",
+          id: block.id,
+          call_id: block.id,
+          action: this.parseComputerAction(block.input),
+          pending_safety_checks: [],
+        });
+      } else if (block.type === "tool_use") {
+        output.push({
+          type: "function_call",
+          id: block.id,
+          call_id: block.id,
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+          output: null,
+        });
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Translate a Claude computer tool action into the equivalent CUA action.
+   * Key order matters: the CUA loop passes action fields positionally to the computer.
+   */
+  private parseComputerAction(input: Record<string, unknown>): ComputerAction {
+    const [x, y] = (input.coordinate as [number, number] | undefined) ?? [0, 0];
+
+    switch (input.action) {
+      case "left_click":
+        return { type: "click", button: "left", x, y };
+      case "right_click":
+        return { type: "click", button: "right", x, y };
+      case "middle_click":
+        return { type: "click", button: "wheel", x, y };
+      case "double_click":
+      case "triple_click":
+        return { type: "double_click", x, y };
+      case "mouse_move":
+        return { type: "move", x, y };
+      case "left_click_drag": {
+        const [startX, startY] = (input.start_coordinate as [number, number] | undefined) ?? [x, y];
+        return { type: "drag", path: [{ x: startX, y: startY }, { x, y }] };
+      }
+      case "type":
+        return { type: "type", text: String(input.text ?? "") };
+      case "key":
+        return {
+          type: "keypress",
+          keys: String(input.text ?? "")
+            .split("+")
+            .map((key) => XDOTOOL_KEY_TO_CUA_KEY[key.toLowerCase()] || key),
+        };
+      case "scroll": {
+        const amount = Number(input.scroll_amount ?? 3) * MODEL_PROVIDER_CONFIG.ANTHROPIC_SCROLL_STEP_PX;
+        const direction = input.scroll_direction;
+        return {
+          type: "scroll",
+          x,
+          y,
+          scroll_x: direction === "left" ? -amount : direction === "right" ? amount : 0,
+          scroll_y: direction === "up" ? -amount : direction === "down" ? amount : 0,
+        };
+      }
+      case "wait":
+        return { type: "wait" };
+      case "screenshot":
+        return { type: "screenshot" };
+      default:
+        console.warn(`⚠️ Unsupported Claude computer action "${String(input.action)}" - taking a screenshot instead`);
+        return { type: "screenshot" };
+    }
+  }
+}
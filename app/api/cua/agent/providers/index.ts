@@ -0,0 +1,50 @@
+import { MODEL_PROVIDER_CONFIG } from "../config";
+import { OpenAIProvider } from "./openai";
+import { AnthropicProvider } from "./anthropic";
+import { ScriptedProvider, ScriptedStep } from "./scripted";
+import { ReplayProvider } from "./replay";
+import { ModelProvider, ModelProviderConfig } from "./types";
+
+export type { ModelProvider, ModelProviderConfig, ModelRequest, ModelResponse, ModelUsage, ModelProviderName } from "./types";
+export { OpenAIProvider } from "./openai";
+export { AnthropicProvider } from "./anthropic";
+export { ScriptedProvider } from "./scripted";
+export type { ScriptedStep, ScriptedItem } from "./scripted";
+export { ReplayProvider, sessionLogsToScript } from "./replay";
+
+/**
+ * Build the model provider for an agent's modelConfig (defaults to OpenAI computer-use-preview).
+ * The replay provider only loads recorded sessions owned by userId.
+ */
+export function createModelProvider(config?: ModelProviderConfig | null, userId?: string | null): ModelProvider {
+  const provider = config?.provider || MODEL_PROVIDER_CONFIG.DEFAULT_PROVIDER;
+  const model = config?.model || MODEL_PROVIDER_CONFIG.DEFAULT_MODELS[provider];
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIProvider(model);
+    case "anthropic":
+      return new AnthropicProvider(model);
+    case "scripted": {
+      const script = config?.options?.script;
+      if (!Array.isArray(script)) {
+        throw new Error("Scripted model provider requires options.script (an array of steps)");
+      }
+      return new ScriptedProvider(script as ScriptedStep[], model);
+    }
+    case "replay": {
+      const sessionId = config?.options?.sessionId;
+      const script = config?.options?.script;
+      if (typeof sessionId !== "string" && !Array.isArray(script)) {
+        throw new Error("Replay model provider requires options.sessionId (a recorded session) or options.script");
+      }
+      return new ReplayProvider(
+        typeof sessionId === "string" ? sessionId : null,
+        Array.isArray(script) ? (script as ScriptedStep[]) : null,
+        userId ?? null
+      );
+    }
+    default:
+      throw new Error(`Unknown model provider: ${provider}`);
+  }
+}
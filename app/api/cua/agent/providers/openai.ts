@@ -0,0 +1,134 @@
+import axios, { AxiosError } from "axios";
+import {
+  InputItem,
+  Item,
+  ComputerToolCall,
+  ComputerCallOutput,
+  FunctionToolCall,
+  FunctionOutput,
+  SafetyCheck,
+  RequestOptions,
+  Response,
+} from "../types";
+import { ModelProvider, ModelRequest, ModelResponse } from "./types";
+
+/**
+ * Screenshot feedback in the Responses API format (also the internal format of the CUA loop).
+ */
+export function formatImageOutput(
+  call: ComputerToolCall,
+  screenshotBase64: string,
+  acknowledgedSafetyChecks: SafetyCheck[]
+): ComputerCallOutput {
+  return {
+    type: "computer_call_output",
+    call_id: call.call_id,
+    acknowledged_safety_checks: acknowledgedSafetyChecks,
+    output: {
+      type: "input_image",
+      image_url: `data:image/png;base64,${screenshotBase64}`,
+    },
+  };
+}
+
+/**
+ * Failed tool call in the Responses API format. A computer call can only be answered
+ * with a screenshot of the page as it is now.
+ */
+export function formatErrorOutput(
+  call: ComputerToolCall | FunctionToolCall,
+  message: string,
+  screenshotBase64: string | null
+): ComputerCallOutput | FunctionOutput {
+  if (call.type === "function_call") {
+    return { type: "function_call_output", call_id: call.call_id, output: JSON.stringify({ error: message }) };
+  }
+  return formatImageOutput(call, screenshotBase64 ?? "", []);
+}
+
+/**
+ * OpenAI computer-use-preview via the Responses API.
+ * Conversation state lives server-side and is chained with previous_response_id.
+ */
+export class OpenAIProvider implements ModelProvider {
+  readonly name = "openai" as const;
+  readonly model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  private async createResponse(options: RequestOptions): Promise<Response> {
+    const url = "https://api.openai.com/v1/responses";
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+      'Openai-beta': 'responses=v1',
+    };
+
+    const openaiOrg = process.env.OPENAI_ORG;
+    if (openaiOrg) {
+      headers['Openai-Organization'] = openaiOrg;
+    }
+
+    // Note: Retry behavior is configured globally at module level (see agent.ts)
+    // Handles 429 rate limits, 5xx errors, and network failures automatically
+
+    try {
+      const response = await axios.post(url, options, { headers });
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      console.error(`❌ API Error: ${axiosError.response?.status} ${axiosError.response?.data || axiosError.message}`);
+      console.error(`Response data: ${JSON.stringify(axiosError.response?.data)}`);
+      throw error;
+    }
+  }
+
+  async getAction({ input, previousResponseId, tools, ephemeralContext }: ModelRequest): Promise<ModelResponse> {
+    // Prepend as developer message (highest priority system context)
+    const inputItems: InputItem[] = ephemeralContext
+      ? [{ role: "developer", content: ephemeralContext }, ...input]
+      : input;
+
+    const response = await this.createResponse({
+      model: this.model,
+      input: inputItems,
+      tools,
+      truncation: "auto",
+      ...(previousResponseId
+        ? { previous_response_id: previousResponseId }
+        : {}),
+    });
+
+    console.log("response", response);
+
+    const output = response.output as Item[];
+    const usage = response.usage as { input_tokens?: number; output_tokens?: number } | null;
+    return {
+      output,
+      responseId: response.id as string,
+      // A message without any tool call is the model's final answer
+      finished: output.some((item) => item.type === "message") &&
+        !output.some((item) => item.type === "computer_call" || item.type === "function_call"),
+      usage: usage ? { inputTokens: usage.input_tokens ?? 0, outputTokens: usage.output_tokens ?? 0 } : null,
+    };
+  }
+
+  formatScreenshotOutput(
+    call: ComputerToolCall,
+    screenshotBase64: string,
+    acknowledgedSafetyChecks: SafetyCheck[]
+  ): ComputerCallOutput {
+    return formatImageOutput(call, screenshotBase64, acknowledgedSafetyChecks);
+  }
+
+  formatErrorOutput(
+    call: ComputerToolCall | FunctionToolCall,
+    message: string,
+    screenshotBase64: string | null
+  ): ComputerCallOutput | FunctionOutput {
+    return formatErrorOutput(call, message, screenshotBase64);
+  }
+}
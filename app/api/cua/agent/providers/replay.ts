@@ -0,0 +1,95 @@
+import connectDB from "@/lib/mongodb";
+import AgentSession from "@/lib/models/AgentSession";
+import SessionLog, { ISessionLog } from "@/lib/models/SessionLog";
+import { ComputerAction } from "../types";
+import { ModelProviderName, ModelRequest, ModelResponse } from "./types";
+import { ScriptedProvider, ScriptedStep } from "./scripted";
+
+type RecordedLog = Pick<ISessionLog, "stepNumber" | "reasoning" | "output">;
+
+/**
+ * Turn a recorded session's logs back into model turns, one logged action per turn.
+ * SessionLog.output holds the raw computer action ({ type, ... }) or the function call
+ * ({ name, args }); the logged reasoning is replayed as the assistant message before it.
+ */
+export function sessionLogsToScript(logs: RecordedLog[]): ScriptedStep[] {
+  const steps: ScriptedStep[] = [];
+
+  for (const log of [...logs].sort((a, b) => a.stepNumber - b.stepNumber)) {
+    const output = log.output as Record<string, unknown> | null | undefined;
+    if (!output) continue;
+
+    const step: ScriptedStep = [];
+    if (log.reasoning) {
+      step.push({ type: "message", text: log.reasoning });
+    }
+
+    if (typeof output.name === "string") {
+      step.push({
+        type: "function_call",
+        name: output.name,
+        arguments: typeof output.args === "string" ? output.args : JSON.stringify(output.args ?? {}),
+      });
+    } else if (typeof output.type === "string") {
+      step.push({ type: "computer_call", action: output as unknown as ComputerAction });
+    } else {
+      continue;
+    }
+
+    steps.push(step);
+  }
+
+  return steps;
+}
+
+/**
+ * Replays the model responses of a recorded session instead of calling a model.
+ * The logs are loaded from MongoDB on the first call, and only from a session the
+ * user owns; pass steps directly to replay a fixture file.
+ */
+export class ReplayProvider extends ScriptedProvider {
+  readonly name: ModelProviderName = "replay";
+  private sourceSessionId: string | null;
+  private userId: string | null;
+  private loaded: boolean;
+
+  constructor(sourceSessionId: string | null, steps: ScriptedStep[] | null = null, userId: string | null = null) {
+    super(steps ?? [], "replay");
+    this.sourceSessionId = sourceSessionId;
+    this.userId = userId;
+    this.loaded = steps !== null;
+  }
+
+  static async loadScript(sourceSessionId: string, userId: string): Promise<ScriptedStep[]> {
+    await connectDB();
+    const session = await AgentSession.exists({ _id: sourceSessionId, userId });
+    if (!session) {
+      throw new Error(`Recorded session ${sourceSessionId} not found for user ${userId}`);
+    }
+
+    const logs = await SessionLog.find({ sessionId: sourceSessionId, userId })
+      .sort({ stepNumber: 1 })
+      .select("stepNumber reasoning output")
+      .lean()
+      .exec();
+
+    return sessionLogsToScript(logs);
+  }
+
+  async getAction(request: ModelRequest): Promise<ModelResponse> {
+    if (!this.loaded) {
+      if (!this.sourceSessionId) {
+        throw new Error("Replay model provider requires options.sessionId or a fixture");
+      }
+      if (!this.userId) {
+        throw new Error("Replay model provider needs the user that owns the recorded session");
+      }
+      const steps = await ReplayProvider.loadScript(this.sourceSessionId, this.userId);
+      this.setSteps(steps);
+      this.loaded = true;
+      console.log(`📼 Replaying ${steps.length} recorded step(s) from session ${this.sourceSessionId}`);
+    }
+
+    return super.getAction(request);
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  Item,
+  ComputerAction,
+  ComputerToolCall,
+  ComputerCallOutput,
+  FunctionToolCall,
+  FunctionOutput,
+  SafetyCheck,
+} from "../types";
+import { ModelProvider, ModelProviderName, ModelRequest, ModelResponse } from "./types";
+import { formatErrorOutput, formatImageOutput } from "./openai";
+
+/**
+ * One scripted model turn. Ids are filled in, and function arguments may be given as an object.
+ * Action fields must be in the order the model sends them (they are passed to the computer positionally):
+ *   [{ "type": "computer_call", "action": { "type": "click", "button": "left", "x": 10, "y": 20 } },
+ *    { "type": "function_call", "name": "goto", "arguments": { "url": "https://example.com" } },
+ *    { "type": "message", "text": "Opened the page" }]
+ */
+export type ScriptedItem =
+  | { type: "computer_call"; action: ComputerAction }
+  | { type: "function_call"; name: string; arguments?: string | Record<string, unknown> }
+  | { type: "message"; text: string };
+
+export type ScriptedStep = ScriptedItem[];
+
+/**
+ * Deterministic provider that plays back a fixed list of model turns, one per getAction call.
+ * Used to exercise the CUA loop without a model. Once the script runs out it returns
+ * empty output, which ends the loop.
+ */
+export class ScriptedProvider implements ModelProvider {
+  readonly name: ModelProviderName = "scripted";
+  readonly model: string;
+  private steps: ScriptedStep[];
+  private cursor = 0;
+
+  constructor(steps: ScriptedStep[], model: string = "scripted") {
+    this.steps = steps;
+    this.model = model;
+  }
+
+  get remainingSteps(): number {
+    return this.steps.length - this.cursor;
+  }
+
+  protected setSteps(steps: ScriptedStep[]) {
+    this.steps = steps;
+    this.cursor = 0;
+  }
+
+  async getAction(request: ModelRequest): Promise<ModelResponse> {
+    void request;
+    const stepIndex = this.cursor;
+    const responseId = `scripted_resp_${stepIndex}`;
+
+    if (stepIndex >= this.steps.length) {
+      return { output: [], responseId };
+    }
+
+    this.cursor++;
+    const output = this.steps[stepIndex].map((item, itemIndex) =>
+      this.toItem(item, `${stepIndex}_${itemIndex}`)
+    );
+
+    console.log(`📜 Scripted step ${stepIndex + 1}/${this.steps.length}: ${output.length} item(s)`);
+    return { output, responseId };
+  }
+
+  formatScreenshotOutput(
+    call: ComputerToolCall,
+    screenshotBase64: string,
+    acknowledgedSafetyChecks: SafetyCheck[]
+  ): ComputerCallOutput {
+    return formatImageOutput(call, screenshotBase64, acknowledgedSafetyChecks);
+  }
+
+  formatErrorOutput(
+    call: ComputerToolCall | FunctionToolCall,
+    message: string,
+    screenshotBase64: string | null
+  ): ComputerCallOutput | FunctionOutput {
+    return formatErrorOutput(call, message, screenshotBase64);
+  }
+
+  private toItem(item: ScriptedItem, suffix: string): Item {
+    switch (item.type) {
+      case "computer_call":
+        return {
+          type: "computer_call",
+          id: `scripted_cu_${suffix}`,
+          call_id: `scripted_call_${suffix}`,
+          action: item.action,
+          pending_safety_checks: [],
+        };
+      case "function_call":
+        return {
+          type: "function_call",
+          id: `scripted_fc_${suffix}`,
+          call_id: `scripted_call_${suffix}`,
+          name: item.name,
+          arguments:
+            typeof item.arguments === "string"
+              ? item.arguments
+              : JSON.stringify(item.arguments ?? {}),
+          output: null,
+        };
+      case "message":
+        return {
+          type: "message",
+          id: `scripted_msg_${suffix}`,
+          role: "assistant",
+          content: [{ type: "output_text", text: item.text, annotations: [] }],
+        };
+      default:
+        throw new Error(`Unknown scripted item type: ${(item as { type?: string }).type}`);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import type { ModelProviderName } from "@/lib/models/Agent";
+import {
+  InputItem,
+  Item,
+  Tool,
+  ComputerToolCall,
+  ComputerCallOutput,
+  FunctionToolCall,
+  FunctionOutput,
+  SafetyCheck,
+} from "../types";
+
+export type { ModelProviderName };
+
+export type ModelRequest = {
+  input: InputItem[];
+  previousResponseId?: string;
+  tools: Tool[];
+  // Context for this request only (mission memory) - never kept in the conversation
+  ephemeralContext?: string | null;
+};
+
+export type ModelUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type ModelResponse = {
+  output: Item[];
+  responseId: string;
+  // Tokens billed for this request (null when the backend does not report them)
+  usage?: ModelUsage | null;
+  // The model ended its turn without calling a tool, i.e. it considers the task done
+  finished?: boolean;
+};
+
+/**
+ * A computer-use model backend.
+ *
+ * Items use the OpenAI Responses format throughout the CUA loop, so adapters for
+ * other APIs translate the input items and tools on the way out and parse the
+ * model's tool calls back into computer_call / function_call items on the way in.
+ */
+export interface ModelProvider {
+  readonly name: ModelProviderName;
+  readonly model: string;
+
+  getAction(request: ModelRequest): Promise<ModelResponse>;
+
+  // Wraps the screenshot taken after a computer action as feedback for the model
+  formatScreenshotOutput(
+    call: ComputerToolCall,
+    screenshotBase64: string,
+    acknowledgedSafetyChecks: SafetyCheck[]
+  ): ComputerCallOutput;
+
+  // Answers a tool call whose action failed; screenshotBase64 is the page as it is now (always set for a computer call)
+  formatErrorOutput(
+    call: ComputerToolCall | FunctionToolCall,
+    message: string,
+    screenshotBase64: string | null
+  ): ComputerCallOutput | FunctionOutput;
+}
+
+export type ModelProviderConfig = {
+  provider?: ModelProviderName | null;
+  model?: string | null;
+  options?: Record<string, unknown> | null;
+};
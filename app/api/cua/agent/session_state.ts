@@ -1,32 +1,204 @@
-import { MISSION_MEMORY_CONFIG, HALLUCINATION_CONFIG } from "./config";
-import { ActionRecord } from "./stall_guard";
+import { MISSION_MEMORY_CONFIG, HALLUCINATION_CONFIG, SESSION_STATE_CONFIG } from "./config";
+import { ActionRecord, VisualFrame } from "./stall_guard";
+import { createSessionStateStore, SessionStateStore, StoredSessionState } from "./state_stores";
+import type { IPlanProgress, PlanStepStatus } from "@/lib/models/AgentSession";
 
 export interface MissionMemory {
   sessionId: string;
   originalGoal: string;
   currentPlan: string[];
+  // Status of each plan step, same order as currentPlan (reported by the model through update_plan_progress)
+  stepStatuses: PlanStepStatus[];
+  // Times the remaining plan was regenerated after a stall or repeated errors
+  replanCount: number;
   actionCount: number;
   createdAt: number;
   lastUpdated: number;
 }
 
+export type PlanProgress = IPlanProgress;
+
+export interface PlanProgressUpdate {
+  // 1-based step numbers
+  completedSteps?: number[];
+  skippedSteps?: number[];
+  currentStep?: number | null;
+}
+
 interface SessionState {
   missionMemory?: MissionMemory;
   lastActionTime?: number;
   actionHistory: ActionRecord[];
+  visualHistory: VisualFrame[];
+  // Version of the stored state this copy was read at (0 = not stored yet)
+  version: number;
+}
+
+function toPlanProgress(memory: MissionMemory): PlanProgress | null {
+  if (memory.currentPlan.length === 0) return null;
+
+  const activeIdx = memory.stepStatuses.indexOf('active');
+  return {
+    steps: memory.currentPlan.map((description, idx) => ({ description, status: memory.stepStatuses[idx] })),
+    currentStep: activeIdx >= 0 ? activeIdx + 1 : null,
+    completedSteps: memory.stepStatuses.filter((status) => status === 'done').length,
+    totalSteps: memory.currentPlan.length,
+  };
 }
 
+/**
+ * Mission memory and action history per session, kept in the configured store
+ * (memory, MongoDB or Redis) so every process working on a session sees the same
+ * state. Reads go through the store, and changes are applied to the latest stored
+ * state and written back with a version check, so processes changing a session at
+ * the same time do not overwrite each other. The copy in this process is only used
+ * when the store cannot be reached. Screenshot fingerprints are not stored.
+ */
 class SessionStateManager {
   private sessionStates: Map<string, SessionState>;
+  private store: SessionStateStore | null = null;
+  // Changes are queued per session so this process applies them in order
+  private pendingWrites = new Map<string, Promise<void>>();
+  private lastWriteAt = new Map<string, number>();
 
   constructor() {
     this.sessionStates = new Map();
   }
 
+  private getStore(): SessionStateStore {
+    if (!this.store) {
+      this.store = createSessionStateStore();
+      console.log(`🗄️  Session state store: ${this.store.name}`);
+    }
+    return this.store;
+  }
+
+  // === STORE SYNC ===
+
+  /**
+   * Load a session's state from the store, e.g. when its job is picked up again
+   * after the worker died. Returns false when the store has nothing for it.
+   */
+  async load(sessionId: string): Promise<boolean> {
+    await this.flush(sessionId);
+    const state = await this.read(sessionId);
+    if (!state || state.version === 0) return false;
+
+    console.log(`📥 Loaded session state for ${sessionId} from ${this.getStore().name} store`);
+    return true;
+  }
+
+  /**
+   * Wait until every change to the session has reached the store.
+   */
+  async flush(sessionId: string): Promise<void> {
+    await this.pendingWrites.get(sessionId);
+  }
+
+  /**
+   * The session's latest state from the store, falling back to this process's copy
+   * when the store cannot be reached.
+   */
+  private async read(sessionId: string): Promise<SessionState | null> {
+    const cached = this.sessionStates.get(sessionId);
+    const store = this.getStore();
+
+    try {
+      const stored = await store.get(sessionId);
+      if (!stored) {
+        // Stored before, so another process cleared it or it expired
+        if (cached && cached.version > 0) this.sessionStates.delete(sessionId);
+        return cached && cached.version === 0 ? cached : null;
+      }
+
+      const state: SessionState = {
+        missionMemory: stored.missionMemory,
+        lastActionTime: stored.lastActionTime,
+        actionHistory: stored.actionHistory ?? [],
+        // Screenshot fingerprints are not stored; comparison restarts with the next step elsewhere
+        visualHistory: cached?.visualHistory ?? [],
+        version: stored.version ?? 0,
+      };
+      this.sessionStates.set(sessionId, state);
+      this.lastWriteAt.set(sessionId, Date.now());
+      return state;
+    } catch (error) {
+      console.warn(`⚠️ Failed to read session state for ${sessionId} from ${store.name} store:`, (error as Error)?.message ?? error);
+      return cached ?? null;
+    }
+  }
+
+  /**
+   * Apply a change to the session's latest state and write it back. When another
+   * process wrote in between, the change is applied again to its state.
+   */
+  private update<T>(sessionId: string, change: (state: SessionState) => T): Promise<T> {
+    return this.enqueue(sessionId, async () => {
+      const store = this.getStore();
+
+      for (let attempt = 1; ; attempt++) {
+        const state = (await this.read(sessionId)) ?? this.ensureSessionState(sessionId);
+        const result = change(state);
+
+        // Snapshot now, the live objects keep changing after the write
+        const snapshot: StoredSessionState = JSON.parse(JSON.stringify({
+          missionMemory: state.missionMemory,
+          lastActionTime: state.lastActionTime,
+          actionHistory: state.actionHistory,
+          version: state.version + 1,
+        }));
+        this.lastWriteAt.set(sessionId, Date.now());
+
+        try {
+          if (await store.set(sessionId, snapshot, SESSION_STATE_CONFIG.TTL_MINUTES * 60 * 1000, state.version)) {
+            state.version++;
+            return result;
+          }
+        } catch (error) {
+          // Keep working from this process's copy until the store is back
+          console.warn(`⚠️ Failed to write session state for ${sessionId} to ${store.name} store:`, (error as Error)?.message ?? error);
+          return result;
+        }
+
+        if (attempt >= SESSION_STATE_CONFIG.MAX_WRITE_ATTEMPTS) {
+          console.warn(`⚠️ Session state for ${sessionId} kept changing in the ${store.name} store - change kept in this process only`);
+          return result;
+        }
+      }
+    });
+  }
+
+  private enqueue<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.pendingWrites.get(sessionId) ?? Promise.resolve();
+    const result = previous.then(task);
+    const settled: Promise<void> = result
+      .then(() => undefined, () => undefined)
+      .finally(() => {
+        if (this.pendingWrites.get(sessionId) === settled) this.pendingWrites.delete(sessionId);
+      });
+    this.pendingWrites.set(sessionId, settled);
+    return result;
+  }
+
+  /**
+   * Drop sessions this process has not touched within the TTL (their store entries expire on their own).
+   */
+  private evictIdleSessions(): void {
+    const cutoff = Date.now() - SESSION_STATE_CONFIG.TTL_MINUTES * 60 * 1000;
+    for (const [sessionId, writtenAt] of this.lastWriteAt) {
+      if (writtenAt < cutoff && !this.pendingWrites.has(sessionId)) {
+        this.sessionStates.delete(sessionId);
+        this.lastWriteAt.delete(sessionId);
+      }
+    }
+  }
+
   private ensureSessionState(sessionId: string): SessionState {
     if (!this.sessionStates.has(sessionId)) {
       this.sessionStates.set(sessionId, {
-        actionHistory: []
+        actionHistory: [],
+        visualHistory: [],
+        version: 0,
       });
     }
     return this.sessionStates.get(sessionId)!;
@@ -34,44 +206,118 @@ class SessionStateManager {
 
   // === MISSION MEMORY METHODS ===
 
-  setMissionMemory(sessionId: string, goal: string, plan: string[] = []): void {
-    const state = this.ensureSessionState(sessionId);
-    state.missionMemory = {
-      sessionId,
-      originalGoal: goal,
-      currentPlan: plan,
-      actionCount: 0,
-      createdAt: Date.now(),
-      lastUpdated: Date.now(),
-    };
-    
+  async setMissionMemory(sessionId: string, goal: string, plan: string[] = []): Promise<void> {
+    this.evictIdleSessions();
+    await this.update(sessionId, (state) => {
+      state.missionMemory = {
+        sessionId,
+        originalGoal: goal,
+        currentPlan: plan,
+        stepStatuses: plan.map((_, idx) => (idx === 0 ? 'active' : 'pending')),
+        replanCount: 0,
+        actionCount: 0,
+        createdAt: Date.now(),
+        lastUpdated: Date.now(),
+      };
+    });
+
     console.log(`📝 Mission memory initialized for session ${sessionId}`);
     console.log(`   Goal: ${goal}`);
     console.log(`   Plan steps: ${plan.length}`);
   }
 
-  getMissionMemory(sessionId: string): MissionMemory | null {
-    const state = this.sessionStates.get(sessionId);
+  async getMissionMemory(sessionId: string): Promise<MissionMemory | null> {
+    await this.flush(sessionId);
+    const state = await this.read(sessionId);
     return state?.missionMemory || null;
   }
 
-  incrementActionCount(sessionId: string): void {
-    const state = this.sessionStates.get(sessionId);
-    if (!state?.missionMemory) return;
+  async incrementActionCount(sessionId: string): Promise<void> {
+    await this.update(sessionId, (state) => {
+      if (!state.missionMemory) return;
+      state.missionMemory.actionCount++;
+      state.missionMemory.lastUpdated = Date.now();
+    });
+  }
 
-    state.missionMemory.actionCount++;
-    state.missionMemory.lastUpdated = Date.now();
+  // === PLAN PROGRESS ===
+
+  /**
+   * Apply the model's progress report. Step numbers outside the plan are ignored.
+   * Without an explicit current step, the first open step after the last finished one becomes active.
+   */
+  updatePlanProgress(sessionId: string, update: PlanProgressUpdate): Promise<PlanProgress | null> {
+    return this.update(sessionId, (state) => {
+      const memory = state.missionMemory;
+      if (!memory || memory.currentPlan.length === 0) return null;
+
+      const statuses = memory.stepStatuses;
+      const inPlan = (step: number) => Number.isInteger(step) && step >= 1 && step <= statuses.length;
+
+      (update.completedSteps ?? []).filter(inPlan).forEach((step) => { statuses[step - 1] = 'done'; });
+      (update.skippedSteps ?? []).filter(inPlan).forEach((step) => { statuses[step - 1] = 'skipped'; });
+
+      // Only one step is active at a time
+      statuses.forEach((status, idx) => { if (status === 'active') statuses[idx] = 'pending'; });
+
+      let active: number | null = null;
+      if (update.currentStep != null && inPlan(update.currentStep) && statuses[update.currentStep - 1] === 'pending') {
+        active = update.currentStep;
+      } else {
+        const lastFinished = statuses.reduce((last, status, idx) => (status === 'done' || status === 'skipped' ? idx : last), -1);
+        const next = statuses.findIndex((status, idx) => idx > lastFinished && status === 'pending');
+        const fallback = statuses.findIndex((status) => status === 'pending');
+        active = next >= 0 ? next + 1 : fallback >= 0 ? fallback + 1 : null;
+      }
+      if (active !== null) statuses[active - 1] = 'active';
+
+      memory.lastUpdated = Date.now();
+      return toPlanProgress(memory);
+    });
+  }
+
+  /**
+   * Replace the open part of the plan with a revised one. Finished and skipped steps
+   * stay at the top so their numbers (and the completed count) do not change.
+   */
+  async replaceRemainingPlan(sessionId: string, remainingSteps: string[]): Promise<PlanProgress | null> {
+    const progress = await this.update(sessionId, (state) => {
+      const memory = state.missionMemory;
+      if (!memory) return undefined;
+
+      const finished = memory.currentPlan
+        .map((description, idx) => ({ description, status: memory.stepStatuses[idx] }))
+        .filter((step) => step.status === 'done' || step.status === 'skipped');
+      const revised = remainingSteps.slice(0, Math.max(MISSION_MEMORY_CONFIG.MAX_PLAN_STEPS - finished.length, 0));
+
+      memory.currentPlan = [...finished.map((step) => step.description), ...revised];
+      memory.stepStatuses = [
+        ...finished.map((step) => step.status),
+        ...revised.map((_, idx): PlanStepStatus => (idx === 0 ? 'active' : 'pending')),
+      ];
+      memory.replanCount++;
+      memory.lastUpdated = Date.now();
+
+      console.log(`🔁 Plan revised for session ${sessionId}: ${finished.length} finished, ${revised.length} remaining`);
+      return toPlanProgress(memory);
+    });
+    return progress ?? null;
+  }
+
+  async getPlanProgress(sessionId: string): Promise<PlanProgress | null> {
+    const memory = await this.getMissionMemory(sessionId);
+    return memory ? toPlanProgress(memory) : null;
   }
 
 
   // === CRITICAL: FORMAT FOR PROMPT INJECTION ===
   
-  formatMissionForPrompt(sessionId: string): string | null {
+  async formatMissionForPrompt(sessionId: string): Promise<string | null> {
     if (!MISSION_MEMORY_CONFIG.ENABLE_MISSION_MEMORY) {
       return null;
     }
 
-    const memory = this.getMissionMemory(sessionId);
+    const memory = await this.getMissionMemory(sessionId);
     if (!memory || memory.currentPlan.length === 0) {
       return null;
     }
@@ -86,8 +332,9 @@ MISSION CONTEXT
 📋 Full Plan:
 `;
 
+    const markers: Record<PlanStepStatus, string> = { done: '[x]', skipped: '[-]', active: '[>]', pending: '[ ]' };
     memory.currentPlan.forEach((step, idx) => {
-      formattedContext += `   ${idx + 1}. ${step}\n`;
+      formattedContext += `   ${markers[memory.stepStatuses[idx]]} ${idx + 1}. ${step}\n`;
     });
 
     formattedContext += `
@@ -100,7 +347,14 @@ MISSION CONTEXT
    3. Based on what you SEE, determine which step makes sense to execute next
    4. Take the appropriate action to move forward
    5. The plan is a guide - use your vision to navigate adaptively
+`;
 
+    if (MISSION_MEMORY_CONFIG.ENABLE_PLAN_TRACKING) {
+      formattedContext += `   6. When you finish or skip plan steps, call update_plan_progress with their numbers
+      and the step you are working on next ([x] done, [-] skipped, [>] current)
+`;
+    }
+    formattedContext += `
 `;
 
     return formattedContext;
@@ -108,45 +362,73 @@ MISSION CONTEXT
 
   // === SESSION CLEANUP ===
 
-  clearSession(sessionId: string): void {
+  async clearSession(sessionId: string): Promise<void> {
     this.sessionStates.delete(sessionId);
+    this.lastWriteAt.delete(sessionId);
+    await this.enqueue(sessionId, async () => {
+      const store = this.getStore();
+      try {
+        await store.delete(sessionId);
+      } catch (error) {
+        console.warn(`⚠️ Failed to delete session state for ${sessionId} from ${store.name} store:`, (error as Error)?.message ?? error);
+      }
+    });
     console.log(`🗑️  Cleared session state for ${sessionId}`);
   }
 
+  // Only clears this process; stored states expire with their TTL
   clearAllSessions(): void {
     const count = this.sessionStates.size;
     this.sessionStates.clear();
+    this.lastWriteAt.clear();
     console.log(`🗑️  Cleared ${count} session states`);
   }
 
   // === ACTION HISTORY METHODS (for StallGuard) ===
 
-  logAction(sessionId: string, action: ActionRecord): void {
+  async logAction(sessionId: string, action: ActionRecord): Promise<void> {
+    await this.update(sessionId, (state) => {
+      state.actionHistory.push(action);
+
+      if (state.actionHistory.length > HALLUCINATION_CONFIG.ACTION_HISTORY_SIZE) {
+        state.actionHistory = state.actionHistory.slice(-HALLUCINATION_CONFIG.ACTION_HISTORY_SIZE);
+      }
+    });
+  }
+
+  async getActionHistory(sessionId: string): Promise<ActionRecord[]> {
+    await this.flush(sessionId);
+    const state = await this.read(sessionId);
+    return state?.actionHistory || [];
+  }
+
+  recordVisualFrame(sessionId: string, frame: VisualFrame): void {
     const state = this.ensureSessionState(sessionId);
-    state.actionHistory.push(action);
-    
-    if (state.actionHistory.length > HALLUCINATION_CONFIG.ACTION_HISTORY_SIZE) {
-      state.actionHistory = state.actionHistory.slice(-HALLUCINATION_CONFIG.ACTION_HISTORY_SIZE);
+    state.visualHistory.push(frame);
+
+    if (state.visualHistory.length > HALLUCINATION_CONFIG.VISUAL_HISTORY_SIZE) {
+      state.visualHistory = state.visualHistory.slice(-HALLUCINATION_CONFIG.VISUAL_HISTORY_SIZE);
     }
   }
 
-  getActionHistory(sessionId: string): ActionRecord[] {
+  getVisualHistory(sessionId: string): VisualFrame[] {
     const state = this.sessionStates.get(sessionId);
-    return state?.actionHistory || [];
+    return state?.visualHistory || [];
   }
 
-  clearActionHistory(sessionId: string): void {
-    const state = this.sessionStates.get(sessionId);
-    if (state) {
+  async clearActionHistory(sessionId: string): Promise<void> {
+    await this.update(sessionId, (state) => {
       state.actionHistory = [];
-      console.log(`🔄 Cleared action history for session ${sessionId}`);
-    }
+      // Keep the latest screenshot as the baseline for the next comparison
+      state.visualHistory = state.visualHistory.slice(-1).map((frame) => ({ ...frame, unchanged: false }));
+    });
+    console.log(`🔄 Cleared action history for session ${sessionId}`);
   }
 
   // === DEBUGGING ===
 
-  getSessionStats(sessionId: string): object {
-    const memory = this.getMissionMemory(sessionId);
+  async getSessionStats(sessionId: string): Promise<object> {
+    const memory = await this.getMissionMemory(sessionId);
     if (!memory) {
       return { exists: false };
     }
@@ -155,6 +437,8 @@ MISSION CONTEXT
       exists: true,
       goal: memory.originalGoal,
       totalSteps: memory.currentPlan.length,
+      completedSteps: memory.stepStatuses.filter((status) => status === 'done').length,
+      replanCount: memory.replanCount,
       actionCount: memory.actionCount,
       sessionAge: Date.now() - memory.createdAt,
     };
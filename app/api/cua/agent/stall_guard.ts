@@ -1,5 +1,6 @@
 import { HALLUCINATION_CONFIG, RECOVERY_PROMPTS } from "./config";
 import { sessionStateManager } from "./session_state";
+import type { ScreenshotFingerprint } from "./visual_diff";
 
 export interface ActionRecord {
   timestamp: number;
@@ -12,12 +13,27 @@ export interface ActionRecord {
   };
 }
 
+// Step screenshot fingerprint, compared with the one before it
+export interface VisualFrame {
+  timestamp: number;
+  fingerprint: ScreenshotFingerprint;
+  // Looked the same as the previous frame
+  unchanged: boolean;
+  // The step did something that should change the page (see StallGuard.changesPage)
+  hadAction: boolean;
+}
+
+// Computer actions and browser tools expected to change what the page looks like. Waits,
+// screenshots, mouse moves, extract_data, plan updates and tab listing leave it as it was.
+const PAGE_CHANGING_ACTIONS = ['click', 'double_click', 'drag', 'type', 'keypress', 'scroll', 'goto', 'back'];
+
 export type StallPattern = 
   | 'repeated_wait'
   | 'same_click'
   | 'repeated_typing'
   | 'circular_nav'
   | 'stuck_inactivity'
+  | 'no_visual_change'
   | 'general_stuck'
   | null;
 
@@ -29,11 +45,20 @@ export interface StallCheckResult {
 }
 
 export class StallGuard {
+  /**
+   * Whether a computer action type or function name should change the page,
+   * so an unchanged screenshot after it counts towards a no_visual_change stall.
+   */
+  static changesPage(actionName: string | undefined): boolean {
+    return !!actionName && PAGE_CHANGING_ACTIONS.includes(actionName);
+  }
+
   static checkForStall(
     actionHistory: ActionRecord[],
-    currentTime: number = Date.now()
+    currentTime: number = Date.now(),
+    visualHistory: VisualFrame[] = []
   ): StallCheckResult {
-    if (!HALLUCINATION_CONFIG.ENABLE_STALL_DETECTION || actionHistory.length === 0) {
+    if (!HALLUCINATION_CONFIG.ENABLE_STALL_DETECTION || (actionHistory.length === 0 && visualHistory.length === 0)) {
       return { isStuck: false, pattern: null, reason: '', severity: 'low' };
     }
 
@@ -51,6 +76,9 @@ export class StallGuard {
     const navCheck = this.checkCircularNavigation(recentActions);
     if (navCheck.isStuck) return navCheck;
 
+    const visualCheck = this.checkNoVisualChange(visualHistory);
+    if (visualCheck.isStuck) return visualCheck;
+
     const inactivityCheck = this.checkInactivity(recentActions, currentTime);
     if (inactivityCheck.isStuck) return inactivityCheck;
 
@@ -186,6 +214,30 @@ export class StallGuard {
     return { isStuck: false, pattern: null, reason: '', severity: 'low' };
   }
 
+  private static checkNoVisualChange(frames: VisualFrame[]): StallCheckResult {
+    if (!HALLUCINATION_CONFIG.ENABLE_VISUAL_STALL_DETECTION) {
+      return { isStuck: false, pattern: null, reason: '', severity: 'low' };
+    }
+
+    // Steps that acted on the page but left it looking the same; waiting alone is checkRepeatedWaits' job
+    let unchangedSteps = 0;
+    for (let i = frames.length - 1; i >= 0; i--) {
+      if (!frames[i].unchanged) break;
+      if (frames[i].hadAction) unchangedSteps++;
+    }
+
+    if (unchangedSteps >= HALLUCINATION_CONFIG.MAX_UNCHANGED_SCREENSHOTS) {
+      return {
+        isStuck: true,
+        pattern: 'no_visual_change',
+        reason: `Page looked the same after ${unchangedSteps} actions`,
+        severity: 'high'
+      };
+    }
+
+    return { isStuck: false, pattern: null, reason: '', severity: 'low' };
+  }
+
   private static checkInactivity(actions: ActionRecord[], currentTime: number): StallCheckResult {
     if (actions.length === 0) return { isStuck: false, pattern: null, reason: '', severity: 'low' };
 
@@ -256,7 +308,7 @@ export class StallGuard {
   }
 }
 
-export function resetActionHistory(sessionId: string): void {
-  sessionStateManager.clearActionHistory(sessionId);
+export async function resetActionHistory(sessionId: string): Promise<void> {
+  await sessionStateManager.clearActionHistory(sessionId);
   console.log(`🔄 Action history reset for session ${sessionId}`);
 }
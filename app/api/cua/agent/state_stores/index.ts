@@ -0,0 +1,26 @@
+import { SESSION_STATE_CONFIG } from "../config";
+import { MemorySessionStateStore } from "./memory";
+import { MongoSessionStateStore } from "./mongodb";
+import { RedisSessionStateStore } from "./redis";
+import { SessionStateStore } from "./types";
+
+export type { SessionStateStore, SessionStateStoreName, StoredSessionState } from "./types";
+export { MemorySessionStateStore } from "./memory";
+export { MongoSessionStateStore } from "./mongodb";
+export { RedisSessionStateStore } from "./redis";
+
+/**
+ * Build the store selected by SESSION_STATE_STORE (memory by default).
+ */
+export function createSessionStateStore(name: string = SESSION_STATE_CONFIG.STORE): SessionStateStore {
+  switch (name) {
+    case "memory":
+      return new MemorySessionStateStore();
+    case "mongodb":
+      return new MongoSessionStateStore();
+    case "redis":
+      return new RedisSessionStateStore(SESSION_STATE_CONFIG.REDIS_URL, SESSION_STATE_CONFIG.REDIS_KEY_PREFIX);
+    default:
+      throw new Error(`Unknown session state store: ${name} (expected memory, mongodb or redis)`);
+  }
+}
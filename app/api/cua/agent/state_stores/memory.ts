@@ -0,0 +1,44 @@
+import { SESSION_STATE_CONFIG } from "../config";
+import { SessionStateStore, StoredSessionState } from "./types";
+
+/**
+ * Process-local store (the default). State is lost on restart and not shared between instances.
+ */
+export class MemorySessionStateStore implements SessionStateStore {
+  readonly name = "memory" as const;
+  private entries = new Map<string, { json: string; expiresAt: number }>();
+  private lastSweepAt = Date.now();
+
+  async get(sessionId: string): Promise<StoredSessionState | null> {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(sessionId);
+      return null;
+    }
+    return JSON.parse(entry.json) as StoredSessionState;
+  }
+
+  async set(sessionId: string, state: StoredSessionState, ttlMs: number, expectedVersion: number): Promise<boolean> {
+    const current = await this.get(sessionId);
+    if ((current?.version ?? 0) !== expectedVersion) return false;
+
+    this.entries.set(sessionId, { json: JSON.stringify(state), expiresAt: Date.now() + ttlMs });
+    this.sweepExpired();
+    return true;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.entries.delete(sessionId);
+  }
+
+  private sweepExpired() {
+    const now = Date.now();
+    if (now - this.lastSweepAt < SESSION_STATE_CONFIG.MEMORY_SWEEP_INTERVAL_MS) return;
+    this.lastSweepAt = now;
+
+    for (const [sessionId, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(sessionId);
+    }
+  }
+}
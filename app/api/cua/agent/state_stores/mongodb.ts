@@ -0,0 +1,57 @@
+import { connectDB } from "@/server/db";
+import SessionState from "@/lib/models/SessionState";
+import { SessionStateStore, StoredSessionState } from "./types";
+
+/**
+ * Stores each session's state as one document in session_states. A TTL index
+ * removes it once expiresAt has passed; reads also ignore expired documents
+ * because MongoDB only runs the TTL monitor about once a minute.
+ */
+export class MongoSessionStateStore implements SessionStateStore {
+  readonly name = "mongodb" as const;
+
+  async get(sessionId: string): Promise<StoredSessionState | null> {
+    await connectDB();
+    const doc = await SessionState.findOne({ sessionId, expiresAt: { $gt: new Date() } }).lean().exec();
+    return doc ? (doc.state as unknown as StoredSessionState) : null;
+  }
+
+  async set(sessionId: string, state: StoredSessionState, ttlMs: number, expectedVersion: number): Promise<boolean> {
+    await connectDB();
+    const update = { $set: { state, expiresAt: new Date(Date.now() + ttlMs) } };
+
+    if (expectedVersion > 0) {
+      const result = await SessionState.updateOne(
+        { sessionId, "state.version": expectedVersion, expiresAt: { $gt: new Date() } },
+        update
+      ).exec();
+      return result.matchedCount > 0;
+    }
+
+    // No state yet: create it, or take over an expired or unversioned one
+    try {
+      const result = await SessionState.updateOne(
+        {
+          sessionId,
+          $or: [
+            { expiresAt: { $lte: new Date() } },
+            { "state.version": { $exists: false } },
+            { "state.version": 0 },
+          ],
+        },
+        update,
+        { upsert: true }
+      ).exec();
+      return result.matchedCount > 0 || result.upsertedCount > 0;
+    } catch (error) {
+      // Another process created the state first (unique sessionId)
+      if ((error as { code?: number })?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await connectDB();
+    await SessionState.deleteOne({ sessionId }).exec();
+  }
+}
@@ -0,0 +1,62 @@
+import Redis from "ioredis";
+import { SessionStateStore, StoredSessionState } from "./types";
+
+// Compare the stored version and write in one step, so no other write lands in between
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+local version = 0
+if current then
+  version = tonumber(cjson.decode(current).version) or 0
+end
+if version ~= tonumber(ARGV[3]) then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+return 1
+`;
+
+/**
+ * Stores each session's state as a JSON string with a Redis expiry.
+ */
+export class RedisSessionStateStore implements SessionStateStore {
+  readonly name = "redis" as const;
+  private client: Redis;
+  private keyPrefix: string;
+
+  constructor(url: string, keyPrefix: string) {
+    this.client = new Redis(url, {
+      // Fail fast so a Redis outage doesn't hold up the agent loop
+      maxRetriesPerRequest: 2,
+      lazyConnect: true,
+    });
+    this.client.on("error", (error) => {
+      console.warn("⚠️ Redis session state store error:", error.message);
+    });
+    this.keyPrefix = keyPrefix;
+  }
+
+  async get(sessionId: string): Promise<StoredSessionState | null> {
+    const json = await this.client.get(this.key(sessionId));
+    return json ? (JSON.parse(json) as StoredSessionState) : null;
+  }
+
+  async set(sessionId: string, state: StoredSessionState, ttlMs: number, expectedVersion: number): Promise<boolean> {
+    const written = await this.client.eval(
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      this.key(sessionId),
+      JSON.stringify(state),
+      ttlMs,
+      expectedVersion
+    );
+    return written === 1;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.del(this.key(sessionId));
+  }
+
+  private key(sessionId: string): string {
+    return `${this.keyPrefix}${sessionId}`;
+  }
+}
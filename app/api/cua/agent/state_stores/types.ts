@@ -0,0 +1,26 @@
+import type { ActionRecord } from "../stall_guard";
+import type { MissionMemory } from "../session_state";
+
+// The part of a session's state that is shared between processes (visual fingerprints stay local)
+export interface StoredSessionState {
+  missionMemory?: MissionMemory;
+  lastActionTime?: number;
+  actionHistory: ActionRecord[];
+  // Incremented on every write (missing on states written before versioning)
+  version?: number;
+}
+
+export type SessionStateStoreName = "memory" | "mongodb" | "redis";
+
+/**
+ * Backing store for SessionStateManager. Each write replaces the session's state
+ * and pushes its expiry ttlMs into the future, but only while the stored version is
+ * still expectedVersion (0 for a session with no state); otherwise set returns false.
+ */
+export interface SessionStateStore {
+  readonly name: SessionStateStoreName;
+  // Null when the session has no state or it expired
+  get(sessionId: string): Promise<StoredSessionState | null>;
+  set(sessionId: string, state: StoredSessionState, ttlMs: number, expectedVersion: number): Promise<boolean>;
+  delete(sessionId: string): Promise<void>;
+}
@@ -1,5 +1,5 @@
 import OpenAI from "openai";
-import { MISSION_MEMORY_CONFIG } from "./config";
+import { HALLUCINATION_CONFIG, MISSION_MEMORY_CONFIG } from "./config";
 import { connectDB } from "@/server/db";
 import BrowserbaseContext from "@/lib/models/BrowserbaseContext";
 
@@ -92,6 +92,34 @@ VERIFICATION & COMPLETION:
 
 Now convert this execution prompt into a COMPLETE browser action plan with ALL necessary steps:`;
 
+const REPLANNING_PROMPT = `You are revising the plan of a browser automation agent that has stopped making progress.
+
+You get the agent's goal, the steps it has finished, the steps it was still meant to do, why it is stuck, the URL it is on and a screenshot of the page.
+
+1. Describe in one or two sentences what the screenshot shows (which page, any dialog, error, login wall or CAPTCHA).
+2. Write a revised plan for the REMAINING work only, starting from the page as it is now:
+   - Do not repeat finished steps
+   - Do not repeat the approach that got the agent stuck - pick another route (a different element, a direct URL, search, closing a dialog first)
+   - Keep the same rules as the original plan: concrete, atomic browser actions, no steps that ask the user for anything, no logout steps
+
+Respond with JSON only:
+{"pageDescription": "...", "remainingSteps": ["...", "..."]}`;
+
+export interface ReplanContext {
+  goal: string;
+  completedSteps: string[];
+  remainingSteps: string[];
+  reason: string;
+  currentUrl: string | null;
+  // Base64 PNG of the current page
+  screenshot: string | null;
+}
+
+export interface ReplanResult {
+  pageDescription: string;
+  remainingSteps: string[];
+}
+
 export class TaskPlanner {
   private client: OpenAI;
 
@@ -269,6 +297,75 @@ Begin planning the task assuming authentication is ALREADY COMPLETE:`;
     }
   }
 
+  /**
+   * Revise the remaining plan from where the agent actually is.
+   * Returns null when the planner fails or returns no steps; the current plan is then kept.
+   */
+  async replanRemainingSteps(context: ReplanContext): Promise<ReplanResult | null> {
+    const numbered = (steps: string[]) =>
+      steps.length > 0 ? steps.map((step, idx) => `${idx + 1}. ${step}`).join("\n") : "(none)";
+
+    const briefing = `GOAL:
+${context.goal}
+
+FINISHED STEPS:
+${numbered(context.completedSteps)}
+
+REMAINING STEPS (current plan):
+${numbered(context.remainingSteps)}
+
+WHY THE AGENT IS STUCK:
+${context.reason}
+
+CURRENT URL: ${context.currentUrl || "unknown"}`;
+
+    try {
+      console.log(`🧠 Replanning remaining steps (${context.reason})...`);
+      const startTime = Date.now();
+
+      const response = await this.client.chat.completions.create({
+        model: HALLUCINATION_CONFIG.REPLAN_MODEL,
+        messages: [
+          {
+            role: "system",
+            content: REPLANNING_PROMPT
+          },
+          {
+            role: "user",
+            content: context.screenshot
+              ? [
+                  { type: "text", text: briefing },
+                  { type: "image_url", image_url: { url: `data:image/png;base64,${context.screenshot}`, detail: "low" } },
+                ]
+              : briefing
+          }
+        ],
+        response_format: { type: "json_object" },
+        temperature: MISSION_MEMORY_CONFIG.STEP_GENERATION_TEMPERATURE,
+        max_completion_tokens: MISSION_MEMORY_CONFIG.STEP_GENERATION_MAX_TOKENS,
+      });
+
+      const parsed = JSON.parse(response.choices[0]?.message?.content || "{}") as Partial<ReplanResult>;
+      const remainingSteps = Array.isArray(parsed.remainingSteps)
+        ? parsed.remainingSteps.map((step) => String(step).trim()).filter(Boolean)
+        : [];
+
+      if (remainingSteps.length === 0) {
+        console.warn("⚠️  Replanning returned no steps - keeping the current plan");
+        return null;
+      }
+
+      console.log(`✅ Revised plan with ${remainingSteps.length} remaining steps in ${Date.now() - startTime}ms`);
+      return {
+        pageDescription: typeof parsed.pageDescription === "string" ? parsed.pageDescription.trim() : "",
+        remainingSteps,
+      };
+    } catch (error) {
+      console.error("❌ Error replanning remaining steps:", error);
+      return null;
+    }
+  }
+
   private extractStepsFromResponse(response: string): string[] {
     const lines = response.split('\n');
     const steps: string[] = [];
@@ -0,0 +1,87 @@
+import sharp from "sharp";
+import { HALLUCINATION_CONFIG } from "./config";
+
+// Difference hash over a 9x8 grayscale image: one bit per horizontal neighbour pair
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export interface ScreenshotFingerprint {
+  // 64-bit difference hash, hex encoded
+  hash: string;
+  // Grayscale pixels at VISUAL_DIFF_WIDTH x VISUAL_DIFF_HEIGHT
+  pixels: Buffer;
+}
+
+export interface VisualComparison {
+  hashDistance: number;
+  // Share of pixels whose gray level moved by more than VISUAL_PIXEL_TOLERANCE
+  changedRatio: number;
+  unchanged: boolean;
+}
+
+/**
+ * Reduce a base64 PNG screenshot to what is needed to compare it with the next one.
+ */
+export async function fingerprintScreenshot(base64Png: string): Promise<ScreenshotFingerprint> {
+  const png = Buffer.from(base64Png, "base64");
+
+  const [hashPixels, pixels] = await Promise.all([
+    sharp(png).removeAlpha().grayscale().resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" }).raw().toBuffer(),
+    sharp(png)
+      .removeAlpha()
+      .grayscale()
+      .resize(HALLUCINATION_CONFIG.VISUAL_DIFF_WIDTH, HALLUCINATION_CONFIG.VISUAL_DIFF_HEIGHT, { fit: "fill" })
+      .raw()
+      .toBuffer(),
+  ]);
+
+  let hash = "";
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = hashPixels[y * HASH_WIDTH + x];
+      const right = hashPixels[y * HASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (++bits === 4) {
+        hash += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+
+  return { hash, pixels };
+}
+
+/**
+ * Compare two fingerprints. The page counts as unchanged only when both the hash
+ * and the pixel diff agree, so small but real changes (a typed value, a ticked box) still count.
+ */
+export function compareScreenshots(previous: ScreenshotFingerprint, current: ScreenshotFingerprint): VisualComparison {
+  let hashDistance = 0;
+  for (let i = 0; i < previous.hash.length; i++) {
+    let diffBits = parseInt(previous.hash[i], 16) ^ parseInt(current.hash[i] ?? "0", 16);
+    while (diffBits > 0) {
+      hashDistance += diffBits & 1;
+      diffBits >>= 1;
+    }
+  }
+
+  const length = Math.min(previous.pixels.length, current.pixels.length);
+  let changedPixels = 0;
+  for (let i = 0; i < length; i++) {
+    if (Math.abs(previous.pixels[i] - current.pixels[i]) > HALLUCINATION_CONFIG.VISUAL_PIXEL_TOLERANCE) {
+      changedPixels++;
+    }
+  }
+  const changedRatio = length > 0 ? changedPixels / length : 1;
+
+  return {
+    hashDistance,
+    changedRatio,
+    unchanged:
+      hashDistance <= HALLUCINATION_CONFIG.VISUAL_HASH_MAX_DISTANCE &&
+      changedRatio < HALLUCINATION_CONFIG.VISUAL_CHANGE_MIN_RATIO,
+  };
+}
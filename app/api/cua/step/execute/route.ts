@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { Agent } from '../../agent/agent';
 import { BrowserbaseBrowser } from '../../agent/browserbase';
+import { sessionStateManager } from '../../agent/session_state';
 
 export async function POST(request: Request) {
   let computer: BrowserbaseBrowser | null = null;
@@ -12,7 +13,8 @@ export async function POST(request: Request) {
     console.log("output", output);
 
     computer = new BrowserbaseBrowser(1024, 768, "us-west-2", false, sessionId);
-    agent = new Agent("computer-use-preview", computer);
+    // Mission memory and action history are kept per browser session, shared across requests
+    agent = new Agent("computer-use-preview", computer, () => true, sessionId);
     if (!sessionId) {
       return NextResponse.json(
         { error: 'Missing sessionId in request body' },
@@ -22,7 +24,11 @@ export async function POST(request: Request) {
 
     await computer.connect();
 
+    // Another instance may have handled the previous step
+    await sessionStateManager.load(sessionId);
+
     const result = await agent.takeAction(output.output);
+    await sessionStateManager.flush(sessionId);
 
     return NextResponse.json(result);
   } catch (error) {
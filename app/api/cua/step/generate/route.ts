@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { Agent } from "../../agent/agent";
 import { BrowserbaseBrowser } from "../../agent/browserbase";
+import { sessionStateManager } from "../../agent/session_state";
 import { ComputerToolCall } from "../../agent/types";
 
 export async function POST(request: Request) {
@@ -13,7 +14,8 @@ export async function POST(request: Request) {
     console.log("input", input);
 
     computer = new BrowserbaseBrowser(1024, 768, "us-west-2", false, sessionId);
-    agent = new Agent("computer-use-preview", computer);
+    // Mission memory and action history are kept per browser session, shared across requests
+    agent = new Agent("computer-use-preview", computer, () => true, sessionId);
     if (!sessionId) {
       return NextResponse.json(
         { error: "Missing sessionId in request body" },
@@ -21,6 +23,9 @@ export async function POST(request: Request) {
       );
     }
 
+    // Another instance may have handled the previous step
+    await sessionStateManager.load(sessionId);
+
     let result = await agent.getAction(input, responseId);
 
     // If there's a screenshot returned, just handle it right here so we don't have to make a round trip.
@@ -57,6 +62,7 @@ export async function POST(request: Request) {
       } while (result.output.length == 1 && result.output.find((item) => item.type === "reasoning"));
     }
 
+    await sessionStateManager.flush(sessionId);
     return NextResponse.json([result]);
   } catch (error) {
     console.error("Error in cua endpoint:", error);
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { connectDB, ExtractedData } from "../../../../../server/db";
 import { getUserId } from "@/app/lib/auth-helpers";
+import { EXPORT_CONTENT_TYPES, ExtractionWorkbook, toNdjsonLines } from "@/lib/utils/extraction-export";
 
 function toCSV(records: Array<Record<string, unknown>>): string {
   if (!records || records.length === 0) return '';
@@ -20,7 +21,7 @@ function toCSV(records: Array<Record<string, unknown>>): string {
   return [header, ...rows].join('\n');
 }
 
-// GET /api/extractions/[id]/download?format=csv|json
+// GET /api/extractions/[id]/download?format=csv|json|ndjson|xlsx
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -47,6 +48,26 @@ export async function GET(
       });
     }
 
+    if (format === 'ndjson') {
+      return new NextResponse(toNdjsonLines(doc), {
+        headers: {
+          'Content-Type': EXPORT_CONTENT_TYPES.ndjson,
+          'Content-Disposition': `attachment; filename=extraction_${id}.ndjson`,
+        },
+      });
+    }
+
+    if (format === 'xlsx') {
+      const workbook = new ExtractionWorkbook();
+      workbook.add(doc);
+      return new NextResponse(new Uint8Array(workbook.toBuffer()), {
+        headers: {
+          'Content-Type': EXPORT_CONTENT_TYPES.xlsx,
+          'Content-Disposition': `attachment; filename=extraction_${id}.xlsx`,
+        },
+      });
+    }
+
     // Default JSON
     return new NextResponse(JSON.stringify(doc), {
       headers: {
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB, ExtractedData } from "../../../../server/db";
+import { getUserId } from "@/app/lib/auth-helpers";
+import { EXTRACTION_EXPORT_CONFIG } from "@/app/lib/constants";
+import { EXPORT_CONTENT_TYPES, ExtractionWorkbook, toNdjsonLines, type ExportExtraction } from "@/lib/utils/extraction-export";
+
+export const dynamic = 'force-dynamic';
+
+const BULK_FORMATS = ['ndjson', 'xlsx'] as const;
+
+// GET /api/extractions/export?format=ndjson|xlsx&agentId=&dataType=&from=&to=
+// Bulk export across extractions. NDJSON is streamed from a cursor; XLSX is built in memory (up to MAX_XLSX_ROWS records).
+export async function GET(req: Request) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const url = new URL(req.url);
+    const format = (url.searchParams.get('format') || 'ndjson').toLowerCase() as (typeof BULK_FORMATS)[number];
+    const agentId = url.searchParams.get('agentId');
+    const dataType = url.searchParams.get('dataType') || undefined;
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+
+    if (!BULK_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of: ${BULK_FORMATS.join(', ')}` }, { status: 400 });
+    }
+    if (agentId && !mongoose.Types.ObjectId.isValid(agentId)) {
+      return NextResponse.json({ error: 'Invalid agent ID' }, { status: 400 });
+    }
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json({ error: 'from and to must be dates' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const query: Record<string, unknown> = { userId };
+    if (agentId) query.agentId = new mongoose.Types.ObjectId(agentId);
+    if (dataType) query.dataType = dataType;
+    if (from || to) {
+      query.extractedAt = {
+        ...(from && { $gte: new Date(from) }),
+        ...(to && { $lte: new Date(to) }),
+      };
+    }
+
+    const openCursor = () => ExtractedData.find(query)
+      .select('sessionId dataType records extractedAt')
+      .sort({ extractedAt: 1 })
+      .lean<ExportExtraction[]>()
+      .cursor({ batchSize: EXTRACTION_EXPORT_CONFIG.CURSOR_BATCH_SIZE });
+    const filename = `extractions_${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'xlsx') {
+      const workbook = new ExtractionWorkbook();
+      const cursor = openCursor();
+      try {
+        for await (const extraction of cursor) {
+          workbook.add(extraction);
+          if (workbook.rows > EXTRACTION_EXPORT_CONFIG.MAX_XLSX_ROWS) {
+            return NextResponse.json(
+              { error: `XLSX exports are limited to ${EXTRACTION_EXPORT_CONFIG.MAX_XLSX_ROWS} records. Narrow the filters or use format=ndjson.` },
+              { status: 413 }
+            );
+          }
+        }
+      } finally {
+        await cursor.close();
+      }
+
+      return new NextResponse(new Uint8Array(workbook.toBuffer()), {
+        headers: {
+          'Content-Type': EXPORT_CONTENT_TYPES.xlsx,
+          'Content-Disposition': `attachment; filename=${filename}.xlsx`,
+        },
+      });
+    }
+
+    // One extraction per pull, so a slow client holds back the cursor instead of filling memory
+    const cursor = openCursor();
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const extraction = await cursor.next();
+          if (!extraction) {
+            await cursor.close();
+            controller.close();
+            return;
+          }
+          const lines = toNdjsonLines(extraction);
+          if (lines) controller.enqueue(encoder.encode(lines));
+        } catch (streamError) {
+          console.error('Error streaming extraction export:', streamError);
+          await cursor.close().catch(() => {});
+          controller.error(streamError);
+        }
+      },
+      async cancel() {
+        await cursor.close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES.ndjson,
+        'Content-Disposition': `attachment; filename=${filename}.ndjson`,
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (err) {
+    console.error('Error exporting extractions:', err);
+    return NextResponse.json({ error: 'Failed to export extractions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB } from '../../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+import { approvalDecisionSchema, validateRequest } from '@/app/lib/validation';
+import ApprovalService from '@/lib/services/ApprovalService';
+
+// POST /api/sessions/[id]/approvals/[approvalId] - Approve or reject a pending action
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; approvalId: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id, approvalId } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(approvalId)) {
+      return NextResponse.json(
+        { error: 'Invalid session or approval ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateRequest(approvalDecisionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const { decision, note } = validation.data;
+    const approval = await ApprovalService.decide(
+      approvalId,
+      id,
+      userId,
+      decision === 'approve' ? 'approved' : 'rejected',
+      note,
+    );
+
+    if (!approval) {
+      return NextResponse.json(
+        { error: 'Approval not found or no longer pending' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: approval.status,
+    });
+  } catch (error) {
+    console.error('Error deciding approval:', error);
+    return NextResponse.json(
+      { error: 'Failed to record decision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB } from '../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+import ApprovalService from '@/lib/services/ApprovalService';
+
+// GET /api/sessions/[id]/approvals - Actions in this session waiting for the user's decision
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const approvals = await ApprovalService.getPendingForSession(id, userId);
+
+    return NextResponse.json({
+      approvals: approvals.map((approval) => ({
+        id: approval._id.toString(),
+        reason: approval.reason,
+        message: approval.message,
+        action: approval.action,
+        pageUrl: approval.pageUrl,
+        expiresAt: approval.expiresAt,
+        createdAt: approval.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching approvals:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approvals' },
+      { status: 500 }
+    );
+  }
+}
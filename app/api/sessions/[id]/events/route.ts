@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, AgentSession } from '../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+import SessionEvents, { SessionEvent } from '@/lib/services/SessionEvents';
+import { SESSION_EVENTS_CONFIG } from '@/app/lib/constants';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/sessions/[id]/events - Server-Sent Events stream of a session's logs, status, extractions and credits
+// Reconnects resume after the Last-Event-ID header (the last log sent) or from ?fromStep=N
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    const fromStepParam = request.nextUrl.searchParams.get('fromStep');
+    const fromStep = fromStepParam !== null ? parseInt(fromStepParam, 10) : null;
+    if (fromStep !== null && (isNaN(fromStep) || fromStep < 0)) {
+      return NextResponse.json(
+        { error: 'fromStep must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const exists = await AgentSession.exists({ _id: id, userId });
+    if (!exists) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const afterLogId = request.headers.get('last-event-id');
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (chunk: string) => {
+          if (abort.signal.aborted) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The client went away between the abort check and the write
+            abort.abort();
+          }
+        };
+        const send = (event: SessionEvent) => {
+          const idLine = event.type === 'log' ? `id: ${event.id}\n` : '';
+          write(`${idLine}event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        };
+
+        write(`retry: ${SESSION_EVENTS_CONFIG.RETRY_MS}\n\n`);
+        const heartbeat = setInterval(() => write(': ping\n\n'), SESSION_EVENTS_CONFIG.HEARTBEAT_INTERVAL_MS);
+
+        try {
+          await SessionEvents.stream({ sessionId: id, userId, afterLogId, fromStep, signal: abort.signal }, send);
+        } catch (streamError) {
+          // Closing the stream makes the browser reconnect and resume after the last log
+          console.error('Error streaming session events:', streamError);
+        } finally {
+          clearInterval(heartbeat);
+          if (!abort.signal.aborted) {
+            try {
+              controller.close();
+            } catch {
+              // Already closed by the client
+            }
+          }
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stop nginx from buffering the stream
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening session events stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to open session events stream' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, AgentSession } from '../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+import { handbackSessionSchema, validateRequest } from '@/app/lib/validation';
+
+// POST /api/sessions/[id]/handback - Return control of the browser to the agent
+// Optional body: { note } - what the operator did, passed to the model as developer context
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    // The body is optional
+    const rawBody = await request.text();
+    let body: unknown = {};
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validation = validateRequest(handbackSessionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const session = await AgentSession.findOne({ _id: id, userId }).exec();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // A session that was paused before the takeover leaves that pause too
+    const pausedAt = session.pausedAt;
+    const handedBack = await AgentSession.findOneAndUpdate(
+      { _id: id, userId, status: 'paused', controlledBy: 'operator' },
+      {
+        status: 'running',
+        controlledBy: 'agent',
+        takeoverAt: null,
+        pausedAt: null,
+        // Empty string = handed back without a note (the worker still tells the model)
+        handbackNote: validation.data.note?.trim() || '',
+        $inc: { totalPausedMs: pausedAt ? Date.now() - pausedAt.getTime() : 0 },
+      },
+      { new: true }
+    ).exec();
+
+    if (!handedBack) {
+      return NextResponse.json(
+        { error: 'Session is not under operator control' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`🤖 Control of session ${id} handed back to the agent`);
+
+    return NextResponse.json({
+      success: true,
+      status: handedBack.status,
+      controlledBy: handedBack.controlledBy,
+    });
+  } catch (error) {
+    console.error('Error handing back session:', error);
+    return NextResponse.json(
+      { error: 'Failed to hand back control' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, AgentSession } from '../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+
+// POST /api/sessions/[id]/pause - Suspend a running session before its next action
+// The worker keeps the browser and conversation open until the session is resumed or stopped
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Only a running session can be paused (prevents pausing a finished one)
+    const session = await AgentSession.findOneAndUpdate(
+      { _id: id, userId, status: 'running' },
+      { status: 'paused', pausedAt: new Date() },
+      { new: true }
+    ).exec();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found or not running' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`⏸️ Session ${id} paused by user`);
+
+    return NextResponse.json({
+      success: true,
+      status: session.status,
+      pausedAt: session.pausedAt,
+    });
+  } catch (error) {
+    console.error('Error pausing session:', error);
+    return NextResponse.json(
+      { error: 'Failed to pause session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, AgentSession } from '../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+import { resumeSessionSchema, validateRequest } from '@/app/lib/validation';
+
+// POST /api/sessions/[id]/resume - Continue a paused session from the step it stopped at
+// Optional body: { instruction } - passed to the model before its next action
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    // The body is optional
+    const rawBody = await request.text();
+    let body: unknown = {};
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validation = validateRequest(resumeSessionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const instruction = validation.data.instruction?.trim() || null;
+
+    await connectDB();
+
+    const session = await AgentSession.findOne({ _id: id, userId }).exec();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // Conditional on the same pause so concurrent resumes add the paused time only once.
+    // A session paused for an approval resumes when the action is approved or rejected.
+    const pausedAt = session.pausedAt;
+    const resumedSession = await AgentSession.findOneAndUpdate(
+      { _id: id, userId, status: 'paused', pausedAt, controlledBy: { $ne: 'operator' }, pendingApprovalId: null },
+      {
+        status: 'running',
+        pausedAt: null,
+        resumeInstruction: instruction,
+        $inc: { totalPausedMs: pausedAt ? Date.now() - pausedAt.getTime() : 0 },
+      },
+      { new: true }
+    ).exec();
+
+    if (!resumedSession) {
+      return NextResponse.json(
+        {
+          error: session.controlledBy === 'operator'
+            ? 'An operator has control - hand control back instead'
+            : session.pendingApprovalId
+              ? 'Session is waiting for an approval - approve or reject the action instead'
+              : 'Session is not paused',
+        },
+        { status: 409 }
+      );
+    }
+
+    console.log(`▶️ Session ${id} resumed by user${instruction ? ' with a new instruction' : ''}`);
+
+    return NextResponse.json({
+      success: true,
+      status: resumedSession.status,
+    });
+  } catch (error) {
+    console.error('Error resuming session:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume session' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import mongoose from 'mongoose';
 import { connectDB, AgentSession, SessionLog } from "@/server/db";
 import Browserbase from "@browserbasehq/sdk";
 import { getUserId } from "@/app/lib/auth-helpers";
+import { isLocalBrowserSessionId } from "@/app/api/cua/agent/local_playwright";
 
 const browserbase = new Browserbase({
   apiKey: process.env.BROWSERBASE_API_KEY!,
@@ -43,7 +44,7 @@ export async function GET(
       .exec();
 
     let browserDebugUrl = null;
-    if (session.browserSessionId) {
+    if (session.browserSessionId && !isLocalBrowserSessionId(session.browserSessionId)) {
       try {
         const bbSession = await browserbase.sessions.retrieve(session.browserSessionId);
         browserDebugUrl = (bbSession as unknown as { debuggerFullscreenUrl?: string; debuggerUrl?: string }).debuggerFullscreenUrl || (bbSession as unknown as { debuggerFullscreenUrl?: string; debuggerUrl?: string }).debuggerUrl || null;
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, AgentSession } from '../../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+import ScreenshotStore, { SCREENSHOT_FILE_PATTERN } from '@/lib/services/ScreenshotStore';
+
+// GET /api/sessions/[id]/screenshots/[file] - A step screenshot or thumbnail from the blob store
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; file: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id, file } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !SCREENSHOT_FILE_PATTERN.test(file)) {
+      return NextResponse.json(
+        { error: 'Invalid screenshot path' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const session = await AgentSession.exists({ _id: id, userId });
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const screenshot = await ScreenshotStore.getScreenshot(id, file);
+    if (!screenshot) {
+      // Removed by the retention policy, or never captured
+      return NextResponse.json(
+        { error: 'Screenshot not found' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(new Uint8Array(screenshot.data), {
+      headers: {
+        'Content-Type': screenshot.contentType,
+        // Screenshots never change once written
+        'Cache-Control': 'private, max-age=86400, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching screenshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch screenshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,10 @@ import mongoose from 'mongoose';
 import { connectDB, AgentSession } from '../../../../../server/db';
 import Browserbase from '@browserbasehq/sdk';
 import { getUserId } from '@/app/lib/auth-helpers';
-import { deductCredits, calculateSessionMinutes } from '@/app/lib/credits';
+import { isLocalBrowserSessionId } from '@/app/api/cua/agent/local_playwright';
+import { deductCredits, calculateSessionMinutes, getSessionPausedMs } from '@/app/lib/credits';
 import { generateSessionOutcome } from '@/lib/utils/session-summarizer';
+import JobQueue from '@/lib/services/JobQueue';
 
 const browserbase = new Browserbase({
   apiKey: process.env.BROWSERBASE_API_KEY!,
@@ -39,8 +41,11 @@ export async function POST(
       );
     }
 
-    // Stop the Browserbase session if it exists
-    if (session.browserSessionId) {
+    // Drop the execution job if no worker has picked it up yet
+    await JobQueue.cancelQueuedForSession(id);
+
+    // Stop the Browserbase session if it exists (local browsers are closed by the worker once the loop sees the stop)
+    if (session.browserSessionId && !isLocalBrowserSessionId(session.browserSessionId)) {
       try {
         // Stop the Browserbase session using the SDK
         await browserbase.sessions.update(
@@ -56,10 +61,11 @@ export async function POST(
         // Update our database to mark session as stopped ONLY if it was running
         // This prevents double-deductions from concurrent stop calls
         const stoppedSession = await AgentSession.findOneAndUpdate(
-          { _id: id, status: 'running' },
+          { _id: id, status: { $in: ['running', 'paused'] } },
           {
             status: 'stopped',
             completedAt: new Date(),
+            stopReason: 'user_stopped',
           },
           { new: true }
         ).exec();
@@ -79,7 +85,8 @@ export async function POST(
         // Deduct credits ONLY if we successfully transitioned from running to stopped
         let creditNotification = undefined;
         if (stoppedSession && stoppedSession.startedAt && userId) {
-          const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, new Date());
+          const stoppedAt = stoppedSession.completedAt || new Date();
+          const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, stoppedAt, getSessionPausedMs(stoppedSession, stoppedAt));
           const creditResult = await deductCredits(
             userId,
             sessionMinutes,
@@ -129,10 +136,11 @@ export async function POST(
     // No browser session, just update database ONLY if session was running
     // This prevents double-deductions from concurrent stop calls
     const stoppedSession = await AgentSession.findOneAndUpdate(
-      { _id: id, status: 'running' },
+      { _id: id, status: { $in: ['running', 'paused'] } },
       {
         status: 'stopped',
         completedAt: new Date(),
+        stopReason: 'user_stopped',
       },
       { new: true }
     ).exec();
@@ -152,7 +160,8 @@ export async function POST(
     // Deduct credits ONLY if we successfully transitioned from running to stopped
     let creditNotification = undefined;
     if (stoppedSession && stoppedSession.startedAt && userId) {
-      const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, new Date());
+      const stoppedAt = stoppedSession.completedAt || new Date();
+      const sessionMinutes = calculateSessionMinutes(stoppedSession.startedAt, stoppedAt, getSessionPausedMs(stoppedSession, stoppedAt));
       const creditResult = await deductCredits(
         userId,
         sessionMinutes,
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectDB, AgentSession } from '../../../../../server/db';
+import { getUserId } from '@/app/lib/auth-helpers';
+
+// POST /api/sessions/[id]/takeover - Give the user control of the session's browser
+// The agent stops before its next action and waits until control is handed back
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, error } = await getUserId();
+    if (error || !userId) return error || NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Running or paused sessions can be taken over (not finished ones, and only once)
+    const session = await AgentSession.findOneAndUpdate(
+      { _id: id, userId, status: { $in: ['running', 'paused'] }, controlledBy: { $ne: 'operator' } },
+      { status: 'paused', controlledBy: 'operator', takeoverAt: new Date() },
+      { new: true }
+    ).exec();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found, not running or already taken over' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`🕹️ Operator took control of session ${id}`);
+
+    return NextResponse.json({
+      success: true,
+      status: session.status,
+      controlledBy: session.controlledBy,
+    });
+  } catch (error) {
+    console.error('Error taking over session:', error);
+    return NextResponse.json(
+      { error: 'Failed to take control of session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ShieldAlert, Check, X, Loader2 } from "lucide-react";
+import { useToast } from "../contexts/ToastContext";
+
+interface PendingApproval {
+  id: string;
+  reason: "safety_check" | "submit" | "navigation";
+  message: string;
+  pageUrl?: string | null;
+  expiresAt: string;
+}
+
+interface ApprovalPromptProps {
+  sessionId: string;
+  className?: string;
+}
+
+const REASON_LABELS: Record<PendingApproval["reason"], string> = {
+  safety_check: "Safety check",
+  submit: "Form submission",
+  navigation: "Navigation outside allowlist",
+};
+
+/**
+ * Shows actions the running agent is waiting on and lets the user approve or reject them.
+ */
+export default function ApprovalPrompt({ sessionId, className = "" }: ApprovalPromptProps) {
+  const toast = useToast();
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/approvals`);
+      if (response.ok) {
+        const data = await response.json();
+        setApprovals(data.approvals || []);
+      }
+    } catch (error) {
+      console.error("Error fetching approvals:", error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchApprovals();
+    const interval = setInterval(fetchApprovals, 5000);
+    return () => clearInterval(interval);
+  }, [fetchApprovals]);
+
+  const handleDecision = async (approvalId: string, decision: "approve" | "reject") => {
+    setDecidingId(approvalId);
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/approvals/${approvalId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+
+      if (response.ok) {
+        toast.showToast(
+          decision === "approve" ? "Action approved - the agent will continue" : "Action rejected - the agent will stop",
+          decision === "approve" ? "success" : "info"
+        );
+      } else {
+        const data = await response.json();
+        toast.showToast(data.error || "Failed to record decision", "error");
+      }
+    } catch (error) {
+      console.error("Error deciding approval:", error);
+      toast.showToast("Failed to record decision", "error");
+    } finally {
+      setDecidingId(null);
+      fetchApprovals();
+    }
+  };
+
+  if (approvals.length === 0) return null;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <AnimatePresence>
+        {approvals.map((approval) => (
+          <motion.div
+            key={approval.id}
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="bg-amber-500/[0.08] border border-amber-500/30 rounded-xl md:rounded-2xl p-4 md:p-5 flex flex-col md:flex-row md:items-center gap-4"
+          >
+            <div className="flex items-start gap-3 flex-1 min-w-0">
+              <ShieldAlert size={22} className="text-amber-400 flex-shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-amber-300">
+                  Approval required · {REASON_LABELS[approval.reason]}
+                </p>
+                <p className="text-sm md:text-base text-white mt-1 break-words">{approval.message}</p>
+                {approval.pageUrl && (
+                  <p className="text-xs text-gray-400 mt-1 truncate">On {approval.pageUrl}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Expires at {new Date(approval.expiresAt).toLocaleTimeString()}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => handleDecision(approval.id, "approve")}
+                disabled={decidingId === approval.id}
+                className="flex items-center gap-1.5 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors min-h-[44px]"
+              >
+                {decidingId === approval.id ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+                <span>Approve</span>
+              </button>
+              <button
+                onClick={() => handleDecision(approval.id, "reject")}
+                disabled={decidingId === approval.id}
+                className="flex items-center gap-1.5 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors min-h-[44px]"
+              >
+                <X size={16} />
+                <span>Reject</span>
+              </button>
+            </div>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
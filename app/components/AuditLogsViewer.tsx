@@ -2,53 +2,37 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { motion } from "framer-motion";
-import { Terminal, Image as ImageIcon } from "lucide-react";
-import type { AgentSession, SessionLog } from "../../lib/types/mongodb";
+import { Terminal, Image as ImageIcon, Film } from "lucide-react";
+import type { AgentSession } from "../../lib/types/mongodb";
+import { useSessionEvents } from "../hooks/useSessionEvents";
 import Loader from "./Loader";
 
 interface AuditLogsViewerProps {
   agentId: string;
 }
 
-interface SessionWithLogs extends AgentSession {
-  logs?: SessionLog[];
-}
+const isActive = (status?: string) => status === "running" || status === "paused";
 
 export default function AuditLogsViewer({ agentId }: AuditLogsViewerProps) {
-  const [sessions, setSessions] = useState<SessionWithLogs[]>([]);
+  const [sessions, setSessions] = useState<AgentSession[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedSession, setSelectedSession] = useState<SessionWithLogs | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
+  // The session list is polled; logs of the selected session are streamed
   const fetchSessions = useCallback(async () => {
     try {
       const response = await fetch(`/api/agents/${agentId}`);
       if (!response.ok) throw new Error("Failed to fetch agent");
       const data = await response.json();
-      
-      const sessionsWithLogs: SessionWithLogs[] = [];
-      for (const session of (data.sessions || [])) {
-        const sessionRes = await fetch(`/api/sessions/${session.id}`);
-        if (sessionRes.ok) {
-          const sessionData = await sessionRes.json();
-          sessionsWithLogs.push(sessionData.session);
-        }
-      }
-      
-      setSessions(prevSessions => {
-        // Auto-select the most recent running or recent session only on first load
-        if (prevSessions.length === 0 && sessionsWithLogs.length > 0) {
-          const runningSession = sessionsWithLogs.find(s => s.status === "running");
-          setSelectedSession(runningSession || sessionsWithLogs[0]);
-        }
-        return sessionsWithLogs;
-      });
-      
-      // Update the selected session data if it exists in the new sessions
-      setSelectedSession(prev => {
-        if (!prev) return null;
-        const updated = sessionsWithLogs.find(s => s.id === prev.id);
-        return updated || prev;
+      const agentSessions: AgentSession[] = data.sessions || [];
+
+      setSessions(agentSessions);
+      // Auto-select the most recent running or recent session only on first load
+      setSelectedSessionId(prev => {
+        if (prev || agentSessions.length === 0) return prev;
+        const runningSession = agentSessions.find(s => isActive(s.status));
+        return (runningSession || agentSessions[0]).id;
       });
     } catch (error) {
       console.error("Error fetching sessions:", error);
@@ -59,15 +43,24 @@ export default function AuditLogsViewer({ agentId }: AuditLogsViewerProps) {
 
   useEffect(() => {
     fetchSessions();
-    const interval = setInterval(fetchSessions, 3000);
+    const interval = setInterval(fetchSessions, 15000);
     return () => clearInterval(interval);
   }, [fetchSessions]);
 
+  const { logs, status } = useSessionEvents(selectedSessionId, {
+    onStatus: (next) => {
+      setSessions(prev => prev.map(s => (s.id === selectedSessionId ? { ...s, status: next.status } : s)));
+    },
+  });
+
+  const selectedSession = sessions.find(s => s.id === selectedSessionId) || null;
+  const selectedStatus = status?.status ?? selectedSession?.status;
+
   useEffect(() => {
-    if (selectedSession && selectedSession.status === "running") {
+    if (isActive(selectedStatus)) {
       logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }
-  }, [selectedSession]);
+  }, [logs, selectedStatus]);
 
   if (loading) {
     return <Loader />;
@@ -91,15 +84,15 @@ export default function AuditLogsViewer({ agentId }: AuditLogsViewerProps) {
         {sessions.map((session) => (
           <button
             key={session.id}
-            onClick={() => setSelectedSession(session)}
+            onClick={() => setSelectedSessionId(session.id)}
             className={`flex items-center gap-2 px-3 md:px-4 py-2 rounded-lg whitespace-nowrap transition-all duration-200 text-sm md:text-base min-h-[44px] ${
-              selectedSession?.id === session.id
+              selectedSessionId === session.id
                 ? "bg-blue-600 text-white"
                 : "bg-white/[0.05] text-gray-400 hover:bg-white/[0.08] hover:text-white"
             }`}
           >
             <span className="text-sm font-medium">Session #{session.id}</span>
-            {session.status === "running" && (
+            {isActive(session.status) && (
               <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse" />
             )}
           </button>
@@ -115,16 +108,24 @@ export default function AuditLogsViewer({ agentId }: AuditLogsViewerProps) {
               <h3 className="text-base md:text-lg font-semibold text-white">Live Session Logs</h3>
               <span className="text-xs md:text-sm text-gray-500 truncate">Session #{selectedSession.id}</span>
             </div>
-            {selectedSession.status === "running" && (
+            {isActive(selectedStatus) ? (
               <div className="flex items-center gap-2 text-blue-400 text-xs md:text-sm whitespace-nowrap">
                 <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse" />
                 Live
               </div>
+            ) : (
+              <a
+                href={`/sessions/${selectedSession.id}/replay`}
+                className="flex items-center gap-1.5 text-blue-400 hover:text-blue-300 text-xs md:text-sm whitespace-nowrap transition-colors"
+              >
+                <Film size={14} />
+                Replay
+              </a>
             )}
           </div>
 
           <div className="p-4 md:p-6 max-h-[600px] overflow-y-auto">
-            {!selectedSession.logs || selectedSession.logs.length === 0 ? (
+            {logs.length === 0 ? (
               <div className="text-center py-8 md:py-12">
                 <p className="text-gray-400 text-sm md:text-base">No logs yet</p>
                 <p className="text-gray-500 text-xs md:text-sm mt-2">
@@ -133,7 +134,7 @@ export default function AuditLogsViewer({ agentId }: AuditLogsViewerProps) {
               </div>
             ) : (
               <div className="space-y-3 md:space-y-4">
-                {selectedSession.logs.map((log) => {
+                {logs.map((log) => {
                   const isMessageTool = log.tool === "MESSAGE";
                   
                   return (
@@ -190,8 +191,20 @@ export default function AuditLogsViewer({ agentId }: AuditLogsViewerProps) {
                               rel="noopener noreferrer"
                               className="inline-flex items-center gap-2 text-blue-400 hover:text-blue-300 transition-colors text-xs md:text-sm"
                             >
-                              <ImageIcon size={12} className="md:w-[14px] md:h-[14px]" />
-                              <span>View Screenshot</span>
+                              {log.screenshotThumbnailUrl ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img
+                                  src={log.screenshotThumbnailUrl}
+                                  alt={`Screenshot after step ${log.stepNumber}`}
+                                  loading="lazy"
+                                  className="w-40 md:w-48 rounded-lg border border-white/[0.08]"
+                                />
+                              ) : (
+                                <>
+                                  <ImageIcon size={12} className="md:w-[14px] md:h-[14px]" />
+                                  <span>View Screenshot</span>
+                                </>
+                              )}
                             </a>
                           </div>
                         )}
@@ -6,6 +6,11 @@ type Extraction = {
   _id: string;
   dataType: string;
   totalCount: number;
+  // Only set for extractions checked against a typed schema
+  invalidCount: number | null;
+  validationErrors: Array<{ recordIndex: number; field: string; message: string }>;
+  // Records not seen in earlier extractions (record store)
+  newRecordCount: number | null;
   extractedAt: string;
 };
 
@@ -32,6 +37,9 @@ export default function ExtractionResultsViewer({ agentId }: Props) {
         _id: d._id,
         dataType: d.dataType,
         totalCount: d.totalCount,
+        invalidCount: d.invalidCount ?? null,
+        validationErrors: d.validationErrors || [],
+        newRecordCount: d.newRecordCount ?? null,
         extractedAt: d.extractedAt,
       })));
       setTotal(data.total || 0);
@@ -46,6 +54,13 @@ export default function ExtractionResultsViewer({ agentId }: Props) {
 
   const totalPages = Math.max(1, Math.ceil(total / limit));
 
+  // Bulk export of every extraction matching the filter (sheet per data type in XLSX)
+  const exportUrl = (format: 'xlsx' | 'ndjson') => {
+    const params = new URLSearchParams({ format, agentId });
+    if (dataType) params.set('dataType', dataType);
+    return `/api/extractions/export?${params.toString()}`;
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex flex-wrap items-center gap-2">
@@ -57,8 +72,13 @@ export default function ExtractionResultsViewer({ agentId }: Props) {
         />
       </div>
       <div className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-xl overflow-hidden">
-        <div className="p-3 border-b border-white/[0.08]">
+        <div className="p-3 border-b border-white/[0.08] flex items-center justify-between">
           <h3 className="text-white font-semibold">Extractions</h3>
+          <div className="flex gap-3 text-xs">
+            <span className="text-gray-400">Export all{dataType ? ` ${dataType}` : ''}:</span>
+            <a className="text-blue-400 hover:text-blue-300" href={exportUrl('xlsx')}>XLSX</a>
+            <a className="text-blue-400 hover:text-blue-300" href={exportUrl('ndjson')}>NDJSON</a>
+          </div>
         </div>
         {loading ? (
           <div className="p-6 text-gray-400">Loading...</div>
@@ -79,7 +99,22 @@ export default function ExtractionResultsViewer({ agentId }: Props) {
                 {items.map((it) => (
                   <tr key={it._id} className="border-t border-white/[0.06]">
                     <td className="px-4 py-2">{it.dataType}</td>
-                    <td className="px-4 py-2">{it.totalCount}</td>
+                    <td className="px-4 py-2">
+                      {it.totalCount}
+                      {it.newRecordCount !== null && (
+                        <span className="ml-2 text-xs text-emerald-400" title="Records not seen in earlier extractions">
+                          {it.newRecordCount} new
+                        </span>
+                      )}
+                      {it.invalidCount ? (
+                        <span
+                          className="ml-2 text-xs text-amber-400"
+                          title={it.validationErrors.slice(0, 10).map((e) => `Record ${e.recordIndex + 1} ${e.field}: ${e.message}`).join('\n')}
+                        >
+                          {it.invalidCount} invalid
+                        </span>
+                      ) : null}
+                    </td>
                     <td className="px-4 py-2">{new Date(it.extractedAt).toLocaleString()}</td>
                     <td className="px-4 py-2">
                       <div className="flex gap-2">
@@ -89,6 +124,12 @@ export default function ExtractionResultsViewer({ agentId }: Props) {
                         <a className="text-blue-400 hover:text-blue-300" href={`/api/extractions/${it._id}/download?format=csv`}>
                           CSV
                         </a>
+                        <a className="text-blue-400 hover:text-blue-300" href={`/api/extractions/${it._id}/download?format=xlsx`}>
+                          XLSX
+                        </a>
+                        <a className="text-blue-400 hover:text-blue-300" href={`/api/extractions/${it._id}/download?format=ndjson`}>
+                          NDJSON
+                        </a>
                       </div>
                     </td>
                   </tr>
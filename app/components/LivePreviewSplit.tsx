@@ -2,7 +2,7 @@
 
 import { motion } from "framer-motion";
 import { useEffect, useState, useRef } from "react";
-import { Pin } from "lucide-react";
+import { Pin, Hand, Bot, Loader2 } from "lucide-react";
 import ChatMessage from "./chat/ChatMessage";
 import { BrowserStep } from "./ChatFeed";
 
@@ -18,6 +18,11 @@ interface LivePreviewSplitProps {
   sessionId: string;
   agentGoal?: string;
   steps?: LiveStep[];
+  // Operator takeover: when set, the user can take control of the browser through the live view
+  controlledBy?: "agent" | "operator";
+  isSwitchingControl?: boolean;
+  onTakeControl?: () => void;
+  onHandBack?: (note: string) => void;
 }
 
 export default function LivePreviewSplit({
@@ -25,8 +30,14 @@ export default function LivePreviewSplit({
   sessionId,
   agentGoal,
   steps = [],
+  controlledBy = "agent",
+  isSwitchingControl = false,
+  onTakeControl,
+  onHandBack,
 }: LivePreviewSplitProps) {
   const [isScrolled, setIsScrolled] = useState(false);
+  const [handbackNote, setHandbackNote] = useState("");
+  const operatorHasControl = controlledBy === "operator";
   const stepsContainerRef = useRef<HTMLDivElement>(null);
 
   // Track scroll position to apply conditional styling
@@ -165,16 +176,54 @@ export default function LivePreviewSplit({
       </div>
 
       {/* Browser Viewport - Right Side on Desktop, Top on Mobile */}
-      <div className="flex-1 min-w-0 p-3 md:p-6 flex flex-col items-center justify-center order-1 md:order-2">
+      <div className="flex-1 min-w-0 p-3 md:p-6 flex flex-col items-center justify-center gap-3 order-1 md:order-2">
+        {operatorHasControl && onHandBack && (
+          <div className="w-full flex flex-col md:flex-row md:items-center gap-2 bg-amber-500/[0.08] border border-amber-500/30 rounded-lg p-3">
+            <div className="flex items-center gap-2 text-sm text-amber-300 flex-shrink-0">
+              <Hand size={16} />
+              <span className="font-semibold">You have control</span>
+            </div>
+            <input
+              type="text"
+              value={handbackNote}
+              onChange={(e) => setHandbackNote(e.target.value)}
+              maxLength={2000}
+              placeholder="Note for the agent (e.g. Solved the CAPTCHA, you are logged in)"
+              className="flex-1 min-w-0 bg-black/[0.3] border border-white/[0.08] rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-amber-400/50"
+            />
+            <button
+              onClick={() => {
+                onHandBack(handbackNote.trim());
+                setHandbackNote("");
+              }}
+              disabled={isSwitchingControl}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors min-h-[40px] flex-shrink-0"
+            >
+              {isSwitchingControl ? <Loader2 size={16} className="animate-spin" /> : <Bot size={16} />}
+              <span>Hand back to agent</span>
+            </button>
+          </div>
+        )}
         <div className="w-full h-full relative min-h-[400px] md:min-h-0">
           <iframe
             src={browserViewUrl}
-            className="w-full h-full border-none rounded-lg"
+            className={`w-full h-full border-none rounded-lg ${operatorHasControl ? "ring-2 ring-amber-400/60" : ""}`}
             sandbox="allow-same-origin allow-scripts"
             allow="clipboard-read; clipboard-write"
-            style={{ pointerEvents: 'none' }}
+            style={{ pointerEvents: operatorHasControl ? 'auto' : 'none' }}
             title={`Browser Session ${sessionId}`}
           />
+          {!operatorHasControl && onTakeControl && (
+            <button
+              onClick={onTakeControl}
+              disabled={isSwitchingControl}
+              className="absolute top-3 right-3 flex items-center gap-2 px-3 py-2 bg-black/[0.7] hover:bg-black/[0.85] disabled:opacity-50 backdrop-blur-xl border border-white/[0.15] text-white text-sm font-semibold rounded-lg transition-colors"
+              title="Pause the agent and interact with the browser yourself"
+            >
+              {isSwitchingControl ? <Loader2 size={16} className="animate-spin" /> : <Hand size={16} />}
+              <span>Take control</span>
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from 'react';
-import { Bell, BellOff, CheckCircle, AlertTriangle, Rocket, PauseCircle, BatteryLow, BatteryCharging, BarChart, Settings, X, ExternalLink, LucideIcon } from 'lucide-react';
+import { Bell, BellOff, CheckCircle, AlertTriangle, Rocket, PauseCircle, BatteryLow, BatteryCharging, BarChart, Settings, ShieldAlert, X, ExternalLink, LucideIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNotifications, useNotificationCount, markAsRead, markAllAsRead } from '../hooks/useNotifications';
 import { useUserPreferences, updateNotificationPreference } from '../hooks/useUserPreferences';
@@ -17,6 +17,7 @@ const ICON_MAP: Record<string, LucideIcon> = {
   BatteryCharging,
   BarChart,
   Settings,
+  ShieldAlert,
 };
 
 export default function NotificationBell() {
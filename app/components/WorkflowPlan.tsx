@@ -1,17 +1,36 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { CheckCircle2, Circle, Sparkles } from "lucide-react";
+import { CheckCircle2, Circle, CircleDot, CircleMinus, Sparkles } from "lucide-react";
 import { useMemo } from "react";
+import type { SessionPlanProgress } from "../hooks/useSessionEvents";
 
 interface WorkflowPlanProps {
   executionPrompt: string | null;
   agentName: string;
+  // Live checklist of the running session's plan; replaces the steps parsed from the prompt
+  progress?: SessionPlanProgress | null;
 }
 
+type WorkflowStepStatus = SessionPlanProgress["steps"][number]["status"];
+
 interface WorkflowStep {
   number: number;
   description: string;
+  status?: WorkflowStepStatus;
+}
+
+function StepStatusIcon({ status }: { status?: WorkflowStepStatus }) {
+  switch (status) {
+    case "done":
+      return <CheckCircle2 size={18} className="text-green-400 md:w-5 md:h-5" />;
+    case "active":
+      return <CircleDot size={18} className="text-blue-400 animate-pulse md:w-5 md:h-5" />;
+    case "skipped":
+      return <CircleMinus size={18} className="text-gray-500 md:w-5 md:h-5" />;
+    default:
+      return <Circle size={18} className="text-gray-600 md:w-5 md:h-5" />;
+  }
 }
 
 function parseWorkflowSteps(executionPrompt: string | null): WorkflowStep[] {
@@ -104,10 +123,15 @@ function parseWorkflowSteps(executionPrompt: string | null): WorkflowStep[] {
   return steps;
 }
 
-export default function WorkflowPlan({ executionPrompt, agentName }: WorkflowPlanProps) {
-  const steps = useMemo(() => parseWorkflowSteps(executionPrompt), [executionPrompt]);
+export default function WorkflowPlan({ executionPrompt, agentName, progress }: WorkflowPlanProps) {
+  const steps = useMemo<WorkflowStep[]>(
+    () => progress
+      ? progress.steps.map((step, index) => ({ number: index + 1, description: step.description, status: step.status }))
+      : parseWorkflowSteps(executionPrompt),
+    [executionPrompt, progress]
+  );
 
-  if (!executionPrompt) {
+  if (!executionPrompt && !progress) {
     return (
       <div className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-xl md:rounded-2xl p-8 md:p-12 text-center">
         <Sparkles size={48} className="mx-auto mb-3 md:mb-4 text-gray-600 md:w-16 md:h-16" />
@@ -141,8 +165,10 @@ export default function WorkflowPlan({ executionPrompt, agentName }: WorkflowPla
           <div className="flex-1 min-w-0">
             <h3 className="text-lg md:text-xl font-bold text-white mb-2">{agentName} - Workflow Plan</h3>
             <p className="text-gray-300 text-xs md:text-sm leading-relaxed">
-              This is the step-by-step execution plan that the agent will follow when running. 
-              These steps were generated during agent creation.
+              {progress
+                ? "The plan for the running session. Steps are checked off as the agent reports finishing them."
+                : `This is the step-by-step execution plan that the agent will follow when running. 
+              These steps were generated during agent creation.`}
             </p>
           </div>
         </div>
@@ -156,7 +182,11 @@ export default function WorkflowPlan({ executionPrompt, agentName }: WorkflowPla
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: index * 0.05 }}
-              className="flex items-start gap-3 md:gap-4 p-3 md:p-4 rounded-lg md:rounded-xl bg-white/[0.02] hover:bg-white/[0.04] transition-all duration-200 border border-white/[0.05] hover:border-white/[0.1]"
+              className={`flex items-start gap-3 md:gap-4 p-3 md:p-4 rounded-lg md:rounded-xl transition-all duration-200 border ${
+                step.status === "active"
+                  ? "bg-blue-500/[0.06] border-blue-500/30"
+                  : "bg-white/[0.02] hover:bg-white/[0.04] border-white/[0.05] hover:border-white/[0.1]"
+              }`}
             >
               <div className="flex-shrink-0 mt-0.5">
                 <div className="w-7 h-7 md:w-8 md:h-8 rounded-full bg-blue-500/20 border border-blue-500/30 flex items-center justify-center">
@@ -164,10 +194,12 @@ export default function WorkflowPlan({ executionPrompt, agentName }: WorkflowPla
                 </div>
               </div>
               <div className="flex-1 min-w-0">
-                <p className="text-gray-200 text-sm md:text-base leading-relaxed break-words">{step.description}</p>
+                <p className={`text-sm md:text-base leading-relaxed break-words ${
+                  step.status === "done" || step.status === "skipped" ? "text-gray-500" : "text-gray-200"
+                } ${step.status === "skipped" ? "line-through" : ""}`}>{step.description}</p>
               </div>
               <div className="flex-shrink-0 hidden sm:block">
-                <Circle size={18} className="text-gray-600 md:w-5 md:h-5" />
+                <StepStatusIcon status={step.status} />
               </div>
             </motion.div>
           ))}
@@ -177,9 +209,21 @@ export default function WorkflowPlan({ executionPrompt, agentName }: WorkflowPla
       <div className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-xl md:rounded-2xl p-3 md:p-4">
         <p className="text-gray-400 text-xs md:text-sm flex flex-wrap items-center gap-2">
           <CheckCircle2 size={14} className="text-blue-400 md:w-4 md:h-4 flex-shrink-0" />
-          <span>Total Steps: <strong className="text-white">{steps.length}</strong></span>
-          <span className="hidden sm:inline mx-2 text-gray-600">•</span>
-          <span className="w-full sm:w-auto">These steps are executed sequentially during agent runs</span>
+          {progress ? (
+            <>
+              <span>Completed: <strong className="text-white">{progress.completedSteps}/{progress.totalSteps}</strong></span>
+              <span className="hidden sm:inline mx-2 text-gray-600">•</span>
+              <span className="w-full sm:w-auto">
+                {progress.currentStep ? `Working on step ${progress.currentStep}` : "All steps finished"}
+              </span>
+            </>
+          ) : (
+            <>
+              <span>Total Steps: <strong className="text-white">{steps.length}</strong></span>
+              <span className="hidden sm:inline mx-2 text-gray-600">•</span>
+              <span className="w-full sm:w-auto">These steps are executed sequentially during agent runs</span>
+            </>
+          )}
         </p>
       </div>
     </div>
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { SessionStopReason } from '@/lib/types/mongodb';
+
+export interface SessionEventLog {
+  id: string;
+  stepNumber: number;
+  tool: string;
+  instruction: string;
+  reasoning?: string | null;
+  screenshotUrl?: string | null;
+  screenshotThumbnailUrl?: string | null;
+  extractedData?: { dataType: string; totalCount: number } | null;
+  timestamp: string;
+}
+
+export interface SessionEventStatus {
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'stopped';
+  controlledBy: 'agent' | 'operator';
+  pendingApprovalId: string | null;
+  totalSteps: number;
+  summary: string | null;
+  sessionOutcome: string | null;
+  errorMessage: string | null;
+  completedAt: string | null;
+  planProgress: SessionPlanProgress | null;
+  stopReason: SessionStopReason | null;
+}
+
+export interface SessionPlanProgress {
+  steps: Array<{ description: string; status: 'pending' | 'active' | 'done' | 'skipped' }>;
+  currentStep: number | null;
+  completedSteps: number;
+  totalSteps: number;
+}
+
+export interface SessionEventExtraction {
+  id: string;
+  dataType: string;
+  totalCount: number;
+  extractedAt: string;
+}
+
+export interface SessionEventCredits {
+  id: string;
+  delta: number;
+  balanceAfter: number;
+  reason: string;
+  createdAt: string;
+}
+
+interface SessionEventHandlers {
+  onStatus?: (status: SessionEventStatus) => void;
+  onExtraction?: (extraction: SessionEventExtraction) => void;
+  onCredits?: (credits: SessionEventCredits) => void;
+  onEnd?: (status: SessionEventStatus['status']) => void;
+}
+
+// Backoff for reconnecting after the stream is refused (the browser retries dropped streams itself)
+const RECONNECT_BASE_MS = 2000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * Subscribe to a session's live events (/api/sessions/[id]/events).
+ *
+ * Logs are accumulated in order and de-duplicated, so a reconnect that resumes from
+ * the last step never shows a step twice. Pass null to stay disconnected.
+ */
+export function useSessionEvents(sessionId: string | null, handlers: SessionEventHandlers = {}) {
+  const [logs, setLogs] = useState<SessionEventLog[]>([]);
+  const [status, setStatus] = useState<SessionEventStatus | null>(null);
+  const [extractions, setExtractions] = useState<SessionEventExtraction[]>([]);
+  const [credits, setCredits] = useState<SessionEventCredits[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const [hasEnded, setHasEnded] = useState(false);
+
+  // Handlers change on every render; keep the latest without reconnecting
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    setLogs([]);
+    setStatus(null);
+    setExtractions([]);
+    setCredits([]);
+    setIsConnected(false);
+    setHasEnded(false);
+
+    if (!sessionId) return;
+
+    const seenLogIds = new Set<string>();
+    const seenExtractionIds = new Set<string>();
+    const seenCreditIds = new Set<string>();
+    let lastStep: number | null = null;
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const url = lastStep !== null
+        ? `/api/sessions/${sessionId}/events?fromStep=${lastStep}`
+        : `/api/sessions/${sessionId}/events`;
+      source = new EventSource(url);
+
+      source.onopen = () => {
+        attempts = 0;
+        setIsConnected(true);
+      };
+
+      source.addEventListener('log', (event) => {
+        const log: SessionEventLog = JSON.parse((event as MessageEvent).data);
+        if (seenLogIds.has(log.id)) {
+          // A resumed stream resends the last step, possibly with its screenshot now attached
+          if (log.screenshotUrl) {
+            setLogs((prev) => prev.map((existing) => (existing.id === log.id ? { ...existing, ...log } : existing)));
+          }
+          return;
+        }
+        seenLogIds.add(log.id);
+        lastStep = Math.max(lastStep ?? 0, log.stepNumber);
+        setLogs((prev) => [...prev, log]);
+      });
+
+      // Screenshots are stored after the step ran, so they arrive after the log
+      source.addEventListener('screenshot', (event) => {
+        const { logId, screenshotUrl, screenshotThumbnailUrl } = JSON.parse((event as MessageEvent).data);
+        setLogs((prev) => prev.map((log) => (
+          log.id === logId ? { ...log, screenshotUrl, screenshotThumbnailUrl } : log
+        )));
+      });
+
+      source.addEventListener('status', (event) => {
+        const next: SessionEventStatus = JSON.parse((event as MessageEvent).data);
+        setStatus(next);
+        handlersRef.current.onStatus?.(next);
+      });
+
+      source.addEventListener('extraction', (event) => {
+        const extraction: SessionEventExtraction = JSON.parse((event as MessageEvent).data);
+        if (seenExtractionIds.has(extraction.id)) return;
+        seenExtractionIds.add(extraction.id);
+        setExtractions((prev) => [...prev, extraction]);
+        handlersRef.current.onExtraction?.(extraction);
+      });
+
+      source.addEventListener('credits', (event) => {
+        const entry: SessionEventCredits = JSON.parse((event as MessageEvent).data);
+        if (seenCreditIds.has(entry.id)) return;
+        seenCreditIds.add(entry.id);
+        setCredits((prev) => [...prev, entry]);
+        handlersRef.current.onCredits?.(entry);
+      });
+
+      source.addEventListener('end', (event) => {
+        const { status: finalStatus } = JSON.parse((event as MessageEvent).data);
+        // Without closing, the browser would reconnect to a finished session
+        closed = true;
+        source?.close();
+        setIsConnected(false);
+        setHasEnded(true);
+        handlersRef.current.onEnd?.(finalStatus);
+      });
+
+      source.onerror = () => {
+        setIsConnected(false);
+        // CONNECTING means the browser is already retrying with Last-Event-ID
+        if (closed || source?.readyState !== EventSource.CLOSED) return;
+
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [sessionId]);
+
+  return {
+    logs,
+    status,
+    extractions,
+    credits,
+    isConnected,
+    hasEnded,
+  };
+}
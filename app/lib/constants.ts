@@ -24,3 +24,153 @@ export const CREDITS_REASONS = {
   REFUND: 'refund',
   PURCHASE: 'purchase',
 } as const;
+
+export const JOB_QUEUE_CONFIG = {
+  // How long a claimed job stays leased to a worker without a heartbeat
+  LEASE_DURATION_MS: parseInt(process.env.JOB_LEASE_MS || '120000'),
+
+  // How often a worker renews the lease on the job it is running
+  HEARTBEAT_INTERVAL_MS: parseInt(process.env.JOB_HEARTBEAT_MS || '30000'),
+
+  // Number of jobs a single worker process runs side by side
+  WORKER_CONCURRENCY: parseInt(process.env.WORKER_CONCURRENCY || '1'),
+
+  // How long an idle worker waits before polling the queue again
+  POLL_INTERVAL_MS: parseInt(process.env.JOB_POLL_MS || '5000'),
+
+  // How often a worker sweeps for expired leases and orphaned sessions
+  RECOVERY_INTERVAL_MS: parseInt(process.env.JOB_RECOVERY_MS || '60000'),
+
+  // Times a job is requeued after its worker dies before it is marked failed
+  MAX_ATTEMPTS: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+
+  // Running sessions with no live job older than this are considered orphaned
+  ORPHANED_SESSION_GRACE_MS: 10 * 60 * 1000,
+};
+
+export const SESSION_RETRY_CONFIG = {
+  // Times a failed session is re-run when the agent's retryPolicy does not say
+  DEFAULT_MAX_RETRIES: parseInt(process.env.SESSION_MAX_RETRIES || '2'),
+
+  // Wait before the first retry; each further retry waits BACKOFF_MULTIPLIER times longer
+  DEFAULT_BACKOFF_SECONDS: 60,
+  DEFAULT_BACKOFF_MULTIPLIER: 2,
+
+  // Upper bound for a single backoff
+  MAX_BACKOFF_SECONDS: 60 * 60,
+
+  // Upper bound for a per-agent maxRetries
+  MAX_RETRIES_LIMIT: 10,
+};
+
+export const RECORD_STORE_CONFIG = {
+  // Field groups that identify a record when the agent's recordStore does not say
+  DEFAULT_IDENTITY_KEYS: [['profileUrl'], ['linkedinUrl'], ['email'], ['company', 'name']],
+
+  // Keep stored values and only fill empty fields
+  DEFAULT_MERGE_STRATEGY: 'fill_missing' as const,
+
+  // Provenance entries kept per record (oldest dropped first)
+  MAX_SOURCES: 200,
+};
+
+export const EXTRACTION_PAGINATION_CONFIG = {
+  // Pages (or scrolls) read when extract_data does not say
+  DEFAULT_MAX_PAGES: 5,
+
+  // Upper bound for a requested maxPages
+  MAX_PAGES_LIMIT: 50,
+
+  // Records collected across pages when extract_data sets no maxRecords
+  DEFAULT_MAX_RECORDS: 500,
+
+  // Wait after a click, navigation or scroll for new rows to render
+  PAGE_SETTLE_MS: 1500,
+};
+
+export const EXTRACTION_EXPORT_CONFIG = {
+  // Extractions read from MongoDB per batch while streaming a bulk export
+  CURSOR_BATCH_SIZE: 50,
+
+  // XLSX is built in memory; larger exports have to use NDJSON
+  MAX_XLSX_ROWS: 100000,
+};
+
+export const SCHEDULER_CONFIG = {
+  // How often a worker checks for due agent schedules and tasks
+  TICK_INTERVAL_MS: parseInt(process.env.SCHEDULER_TICK_MS || '30000'),
+
+  // Set SCHEDULER_ENABLED=false to run workers that only drain the queue
+  ENABLED: process.env.SCHEDULER_ENABLED !== 'false',
+
+  // A due task is pushed back by this much while its agent already has a running session
+  BUSY_RETRY_MS: 5 * 60 * 1000,
+
+  // Number of upcoming cron occurrences shown on the agent page
+  UPCOMING_RUNS_PREVIEW: 5,
+
+  // Scheduled runs need at least this many minutes of daily runtime left to start
+  MIN_RUNTIME_MINUTES: 1,
+};
+
+export const APPROVAL_CONFIG = {
+  // How often a session waiting for approval checks for the user's decision
+  POLL_INTERVAL_MS: parseInt(process.env.APPROVAL_POLL_MS || '3000'),
+
+  // Pending approvals expire after this long (an agent's approvalPolicy.timeoutMinutes overrides it)
+  DEFAULT_TIMEOUT_MINUTES: 30,
+
+  // Upper bound for a per-agent timeout
+  MAX_TIMEOUT_MINUTES: 24 * 60,
+};
+
+export const PAUSE_CONFIG = {
+  // How often a paused session checks whether it was resumed or stopped
+  POLL_INTERVAL_MS: parseInt(process.env.PAUSE_POLL_MS || '2000'),
+
+  // A session paused for longer than this is stopped (Browserbase sessions time out after 60 minutes)
+  MAX_PAUSE_MINUTES: parseInt(process.env.MAX_PAUSE_MINUTES || '30'),
+};
+
+export const SESSION_EVENTS_CONFIG = {
+  // How often an events stream re-reads the session when MongoDB change streams are unavailable
+  POLL_INTERVAL_MS: parseInt(process.env.SESSION_EVENTS_POLL_MS || '1500'),
+
+  // With change streams the session is still re-read this often in case a change was missed
+  WATCH_POLL_INTERVAL_MS: 10000,
+
+  // Keep-alive comment so proxies don't close idle streams
+  HEARTBEAT_INTERVAL_MS: 15000,
+
+  // Delay the browser waits before reconnecting a dropped stream (the SSE retry field)
+  RETRY_MS: 3000,
+
+  // After a session ends, keep streaming this long for the final logs and credit deduction
+  END_GRACE_MS: 5000,
+
+  // Logs sent per database read (a long session is replayed in pages)
+  MAX_LOGS_PER_READ: 200,
+};
+
+export const SCREENSHOT_CONFIG = {
+  // Persist the screenshot of every step so sessions can be audited (SCREENSHOT_CAPTURE=false turns it off)
+  ENABLED: process.env.SCREENSHOT_CAPTURE !== 'false',
+
+  // Blob store: "local" writes to LOCAL_DIR, "s3" to any S3-compatible bucket (AWS, R2, MinIO)
+  STORAGE: (process.env.SCREENSHOT_STORAGE || 'local') as 'local' | 's3',
+  LOCAL_DIR: process.env.SCREENSHOT_DIR || '.screenshots',
+  S3_BUCKET: process.env.SCREENSHOT_S3_BUCKET || '',
+  S3_REGION: process.env.SCREENSHOT_S3_REGION || 'us-east-1',
+  // Set for non-AWS providers; credentials come from AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY
+  S3_ENDPOINT: process.env.SCREENSHOT_S3_ENDPOINT || '',
+  S3_PREFIX: process.env.SCREENSHOT_S3_PREFIX || 'screenshots/',
+
+  // Screenshots are stored as JPEG, with a thumbnail for step lists
+  JPEG_QUALITY: 80,
+  THUMBNAIL_WIDTH: 320,
+
+  // Screenshots older than this are deleted by the worker (0 keeps them forever)
+  RETENTION_DAYS: parseInt(process.env.SCREENSHOT_RETENTION_DAYS || '30'),
+  RETENTION_SWEEP_INTERVAL_MS: 60 * 60 * 1000,
+  RETENTION_BATCH_SIZE: 200,
+};
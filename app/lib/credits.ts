@@ -260,10 +260,21 @@ export async function getCreditsHistory(
 }
 
 /**
- * Calculate session runtime in minutes
+ * Calculate session runtime in minutes (pausedMs is left out of the runtime)
  */
-export function calculateSessionMinutes(startTime: Date, endTime: Date): number {
-  const durationMs = endTime.getTime() - startTime.getTime();
+export function calculateSessionMinutes(startTime: Date, endTime: Date, pausedMs: number = 0): number {
+  const durationMs = endTime.getTime() - startTime.getTime() - pausedMs;
   const durationMinutes = durationMs / (1000 * 60);
   return Math.max(0, durationMinutes); // Ensure non-negative
 }
+
+/**
+ * Time a session has spent paused, including a pause still in progress at endTime
+ */
+export function getSessionPausedMs(
+  session: { totalPausedMs?: number | null; pausedAt?: Date | null },
+  endTime: Date
+): number {
+  const currentPauseMs = session.pausedAt ? endTime.getTime() - session.pausedAt.getTime() : 0;
+  return (session.totalPausedMs || 0) + Math.max(0, currentPauseMs);
+}
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { ERROR_CLASSES } from '@/lib/utils/error-classifier';
+import { EXTRACTION_FIELD_TYPES, isSafePattern } from '@/lib/utils/extraction-schema';
+import { MERGE_STRATEGIES } from '@/lib/utils/record-identity';
+import { SESSION_RETRY_CONFIG } from './constants';
 
 const optionalSafeString = (fieldName: string, maxLength: number = 5000) =>
   z.string()
@@ -48,6 +52,77 @@ function isValidUrl(str: string): boolean {
   }
 }
 
+// Model provider schema (which computer-use model drives the agent).
+// The scripted and replay providers are for tests and `npm run replay` only, not selectable through the API.
+export const modelConfigSchema = z.object({
+  provider: z.enum(['openai', 'anthropic']),
+  model: z.string().trim().min(1).max(100).nullable().optional(),
+  options: z.record(z.unknown()).nullable().optional(),
+});
+
+// Browser backend schema (where the agent's browser runs)
+export const browserConfigSchema = z.object({
+  backend: z.enum(['browserbase', 'local']).nullable().optional(),
+  headless: z.boolean().nullable().optional(),
+});
+
+// Domain pattern used by approval policies (e.g. "example.com" or "*.example.com")
+const domainPatternSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/, 'Must be a domain name such as example.com or *.example.com');
+
+// Approval policy schema (which actions wait for the user's approval)
+export const approvalPolicySchema = z.object({
+  requireForSafetyChecks: z.boolean().optional(),
+  submitDomains: z.array(domainPatternSchema).max(50).optional(),
+  navigationAllowlist: z.array(domainPatternSchema).max(100).optional(),
+  timeoutMinutes: z.number().int().min(1).max(1440).optional(),
+});
+
+// Navigation policy schema (where the agent's browser may go)
+export const navigationPolicySchema = z.object({
+  enforceAllowlist: z.boolean().optional(),
+  allowedDomains: z.array(domainPatternSchema).max(100).optional(),
+  deniedPatterns: z.array(
+    z.string().trim().min(1).max(300).refine(
+      (val) => !/\s/.test(val),
+      'Deny patterns cannot contain spaces'
+    )
+  ).max(100).optional(),
+  blockDownloads: z.boolean().optional(),
+});
+
+// Execution budget schema (limits for a single session, null = default/no limit)
+export const executionBudgetSchema = z.object({
+  maxActions: z.number().int().min(1).max(1000).nullable().optional(),
+  maxMinutes: z.number().int().min(1).max(1440).nullable().optional(),
+  maxCredits: z.number().int().min(1).max(100000).nullable().optional(),
+  maxTokens: z.number().int().min(1000).max(100000000).nullable().optional(),
+});
+
+// Retry policy schema (null = platform default)
+export const retryPolicySchema = z.object({
+  maxRetries: z.number().int().min(0).max(SESSION_RETRY_CONFIG.MAX_RETRIES_LIMIT).nullable().optional(),
+  backoffSeconds: z.number().int().min(0).max(SESSION_RETRY_CONFIG.MAX_BACKOFF_SECONDS).nullable().optional(),
+  backoffMultiplier: z.number().min(1).max(10).nullable().optional(),
+  retryOn: z.array(z.enum(ERROR_CLASSES)).nullable().optional(),
+});
+
+// Record store schema (cross-session de-duplication of extracted records, null = platform default)
+const recordFieldNameSchema = z.string().trim().min(1).max(100);
+
+export const recordStoreSchema = z.object({
+  identityKeys: z.array(z.array(recordFieldNameSchema).min(1).max(5)).min(1).max(10).nullable().optional(),
+  mergeStrategy: z.enum(MERGE_STRATEGIES).nullable().optional(),
+  fieldStrategies: z.record(recordFieldNameSchema, z.enum(MERGE_STRATEGIES)).nullable().optional(),
+});
+
+export const approvalDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  note: optionalSafeString('Note', 1000),
+});
+
 // Agent schemas
 export const createAgentSchema = z.object({
   name: z.string().min(1, 'Agent name is required').max(100),
@@ -60,10 +135,24 @@ export const createAgentSchema = z.object({
   isDeployed: z.boolean().optional(),
   schedule: z.enum(['daily', 'weekly', 'monthly', 'custom']).optional(),
   customSchedule: optionalSafeString('Custom schedule', 500),
+  modelConfig: modelConfigSchema.optional(),
+  browserConfig: browserConfigSchema.optional(),
+  approvalPolicy: approvalPolicySchema.optional(),
+  navigationPolicy: navigationPolicySchema.optional(),
+  executionBudget: executionBudgetSchema.optional(),
+  retryPolicy: retryPolicySchema.optional(),
+  recordStore: recordStoreSchema.optional(),
 });
 
 export const updateAgentSchema = createAgentSchema.partial();
 
+// Schedule schemas
+export const updateScheduleSchema = z.object({
+  enabled: z.boolean(),
+  cronExpression: z.string().trim().min(1, 'Cron expression is required').max(100).optional(),
+  timezone: z.string().min(1).max(100).optional(),
+});
+
 // Task schemas
 export const createTaskSchema = z.object({
   taskDescription: z.string().min(10, 'Task description must be at least 10 characters').max(1000),
@@ -73,6 +162,29 @@ export const createTaskSchema = z.object({
   taskDetails: z.record(z.unknown()).optional(),
 });
 
+// Extraction schema schemas
+const extractionFieldSchema = z.object({
+  name: z.string().min(1).max(64).regex(/^[A-Za-z_][\w ]*$/, 'Field names must start with a letter or underscore'),
+  type: z.enum(EXTRACTION_FIELD_TYPES),
+  required: z.boolean().optional().default(false),
+  pattern: z.string().max(500).refine(
+    isSafePattern,
+    'Pattern must be a valid regular expression without backreferences, nested repetition such as (a+)+ or overlapping repetition such as \\d*\\d*'
+  ).nullable().optional(),
+  description: optionalSafeString('Field description', 500).nullable().optional(),
+});
+
+export const createExtractionSchemaSchema = z.object({
+  name: z.string().min(1).max(100).regex(/^[\w-]+$/, 'Schema names may only contain letters, numbers, _ and -'),
+  description: optionalSafeString('Description', 1000).nullable().optional(),
+  fields: z.array(extractionFieldSchema).min(1).max(50).refine(
+    (fields) => new Set(fields.map((field) => field.name)).size === fields.length,
+    'Field names must be unique'
+  ),
+});
+
+export const updateExtractionSchemaSchema = createExtractionSchemaSchema.partial();
+
 // Context schemas
 export const createContextSchema = z.object({
   contextKey: z.string().min(1).max(100),
@@ -85,6 +197,14 @@ export const createSessionSchema = z.object({
   projectId: z.string().optional(),
 });
 
+export const resumeSessionSchema = z.object({
+  instruction: optionalSafeString('Instruction', 2000),
+});
+
+export const handbackSessionSchema = z.object({
+  note: optionalSafeString('Note', 2000),
+});
+
 // CUA schemas  
 export const cuaStartSchema = z.object({
   url: z.string().url('Must be a valid URL'),
@@ -0,0 +1,435 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import {
+  ArrowLeft,
+  Play,
+  Pause,
+  SkipBack,
+  SkipForward,
+  Link2,
+  ImageOff,
+  Database,
+} from "lucide-react";
+import { useToast } from "../../../contexts/ToastContext";
+
+export interface ReplayAction {
+  type: string;
+  x: number;
+  y: number;
+  button?: string | null;
+  // Drag actions: the full pointer path
+  path?: Array<{ x: number; y: number }>;
+}
+
+export interface ReplayStep {
+  id: string;
+  stepNumber: number;
+  tool: string;
+  instruction: string;
+  reasoning: string | null;
+  action: ReplayAction | null;
+  screenshotUrl: string | null;
+  screenshotThumbnailUrl: string | null;
+  extractedData: {
+    dataType: string;
+    totalCount: number;
+    records: Array<Record<string, unknown>>;
+  } | null;
+  timestamp: string;
+}
+
+export interface ReplaySession {
+  id: string;
+  agentId: string;
+  agentName: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  summary: string | null;
+  sessionOutcome: string | null;
+  errorMessage: string | null;
+}
+
+interface SessionReplayClientProps {
+  session: ReplaySession;
+  steps: ReplayStep[];
+  initialStepNumber: number | null;
+}
+
+// Time each step stays on screen at 1x
+const PLAYBACK_STEP_MS = 2000;
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+const STATUS_COLORS: Record<string, string> = {
+  running: "text-blue-400 bg-blue-500/20",
+  paused: "text-purple-400 bg-purple-500/20",
+  completed: "text-green-400 bg-green-500/20",
+  failed: "text-red-400 bg-red-500/20",
+  stopped: "text-yellow-400 bg-yellow-500/20",
+};
+
+/**
+ * The screenshot the agent was looking at when it chose a step: the latest earlier
+ * screenshot that differs from the step's own (steps from one model response share
+ * the screenshot taken after them).
+ */
+function findBeforeScreenshot(steps: ReplayStep[], index: number): string | null {
+  const own = steps[index]?.screenshotUrl;
+  for (let i = index - 1; i >= 0; i--) {
+    const url = steps[i].screenshotUrl;
+    if (url && url !== own) return url;
+  }
+  return null;
+}
+
+export default function SessionReplayClient({ session, steps, initialStepNumber }: SessionReplayClientProps) {
+  const router = useRouter();
+  const toast = useToast();
+  const [currentIndex, setCurrentIndex] = useState(() => {
+    if (initialStepNumber === null) return 0;
+    const index = steps.findIndex(step => step.stepNumber === initialStepNumber);
+    return index >= 0 ? index : 0;
+  });
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [view, setView] = useState<"before" | "after">("before");
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  const step = steps[currentIndex] ?? null;
+  const beforeScreenshot = useMemo(() => findBeforeScreenshot(steps, currentIndex), [steps, currentIndex]);
+  // The action marker belongs on the screenshot the agent acted on
+  const showBefore = view === "before" && !!beforeScreenshot && !!step?.action;
+  const screenshot = showBefore ? beforeScreenshot : step?.screenshotUrl ?? null;
+
+  const goTo = useCallback((index: number) => {
+    setCurrentIndex(Math.max(0, Math.min(steps.length - 1, index)));
+  }, [steps.length]);
+
+  // Keep the URL pointing at the current step so it can be shared
+  useEffect(() => {
+    if (!step) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set("step", String(step.stepNumber));
+    window.history.replaceState(null, "", url.toString());
+  }, [step]);
+
+  // Playback: advance one step per tick, stop at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (currentIndex >= steps.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setCurrentIndex(index => index + 1), PLAYBACK_STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, currentIndex, speed, steps.length]);
+
+  // Keyboard: ←/→ step, space play/pause
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      // Form controls (including the scrubber) handle their own keys; a focused button handles space
+      const tagName = (event.target as HTMLElement | null)?.tagName;
+      if (tagName && ["INPUT", "TEXTAREA", "SELECT"].includes(tagName)) return;
+      if (tagName === "BUTTON" && event.key === " ") return;
+      if (event.key === "ArrowLeft") {
+        event.preventDefault();
+        setIsPlaying(false);
+        goTo(currentIndex - 1);
+      } else if (event.key === "ArrowRight") {
+        event.preventDefault();
+        setIsPlaying(false);
+        goTo(currentIndex + 1);
+      } else if (event.key === " ") {
+        event.preventDefault();
+        setIsPlaying(playing => !playing);
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [currentIndex, goTo]);
+
+  // Keep the current step visible in the timeline
+  useEffect(() => {
+    timelineRef.current
+      ?.querySelector(`[data-step-index="${currentIndex}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [currentIndex]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.showToast("Link to this step copied", "success");
+    } catch {
+      toast.showToast("Could not copy the link", "error");
+    }
+  };
+
+  const togglePlay = () => {
+    // Playing from the last step starts over
+    if (!isPlaying && currentIndex >= steps.length - 1) setCurrentIndex(0);
+    setIsPlaying(playing => !playing);
+  };
+
+  const marker = showBefore && step?.action && imageSize ? step.action : null;
+
+  return (
+    <div className="p-4 md:p-6 lg:p-8 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => router.push(`/agents/${session.agentId}`)}
+          className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-4 min-h-[44px] -ml-2 pl-2"
+        >
+          <ArrowLeft size={18} className="md:w-5 md:h-5" />
+          <span className="text-sm md:text-base">Back to {session.agentName}</span>
+        </button>
+
+        <div className="flex flex-wrap items-center gap-2 md:gap-4 mb-2">
+          <h1 className="text-2xl md:text-3xl font-bold text-white">Session Replay</h1>
+          <span className={`px-2.5 md:px-3 py-1 rounded-lg text-xs md:text-sm font-medium ${STATUS_COLORS[session.status] || "text-gray-400 bg-gray-500/20"}`}>
+            {session.status}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 md:gap-6 text-xs md:text-sm text-gray-400">
+          <span>Session #{session.id}</span>
+          <span>Started {new Date(session.startedAt).toLocaleString()}</span>
+          {session.completedAt && (
+            <span>
+              Duration {Math.round((new Date(session.completedAt).getTime() - new Date(session.startedAt).getTime()) / 1000 / 60)}m
+            </span>
+          )}
+          <span>{steps.length} steps</span>
+        </div>
+        {(session.sessionOutcome || session.summary) && (
+          <p className="text-gray-300 text-sm md:text-base mt-3">{session.sessionOutcome || session.summary}</p>
+        )}
+        {(session.status === "running" || session.status === "paused") && (
+          <p className="text-blue-300 text-sm mt-3">This session is still running - the replay shows the steps recorded so far.</p>
+        )}
+      </div>
+
+      {!step ? (
+        <div className="bg-white/[0.02] backdrop-blur-xl border border-white/[0.08] rounded-2xl p-12 text-center">
+          <p className="text-gray-400 text-lg">No steps recorded</p>
+          <p className="text-gray-500 text-sm mt-2">This session ended before the agent took any action</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+          {/* Screenshot and controls */}
+          <div className="lg:col-span-2 space-y-3">
+            <div className="bg-white/[0.02] border border-white/[0.08] rounded-xl md:rounded-2xl overflow-hidden">
+              <div className="flex items-center justify-between gap-2 px-3 md:px-4 py-2 border-b border-white/[0.08]">
+                <span className="text-xs md:text-sm text-gray-400">
+                  {showBefore ? "What the agent saw before this step" : "Page after this step"}
+                </span>
+                {beforeScreenshot && step.action && (
+                  <div className="flex rounded-lg bg-white/[0.05] p-0.5 text-xs">
+                    {(["before", "after"] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setView(option)}
+                        className={`px-2.5 py-1 rounded-md capitalize transition-colors ${
+                          view === option ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white"
+                        }`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="relative bg-black/40">
+                {screenshot ? (
+                  <>
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={screenshot}
+                      alt={`Step ${step.stepNumber}`}
+                      className="w-full h-auto block"
+                      onLoad={(event) => {
+                        const img = event.currentTarget;
+                        setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+                      }}
+                    />
+                    {marker && imageSize && (
+                      <svg
+                        className="absolute inset-0 w-full h-full pointer-events-none"
+                        viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                        preserveAspectRatio="none"
+                      >
+                        {marker.path && marker.path.length > 1 && (
+                          <polyline
+                            points={marker.path.map(point => `${point.x},${point.y}`).join(" ")}
+                            fill="none"
+                            stroke="#f87171"
+                            strokeWidth={3}
+                            strokeDasharray="8 6"
+                          />
+                        )}
+                        <circle cx={marker.x} cy={marker.y} r={18} fill="rgba(248,113,113,0.25)" stroke="#f87171" strokeWidth={3} />
+                        <circle cx={marker.x} cy={marker.y} r={4} fill="#f87171" />
+                      </svg>
+                    )}
+                  </>
+                ) : (
+                  <div className="aspect-[4/3] flex flex-col items-center justify-center gap-2 text-gray-500">
+                    <ImageOff size={28} />
+                    <p className="text-sm">No screenshot for this step</p>
+                    <p className="text-xs">It was not captured or has passed the retention period</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Playback controls */}
+            <div className="bg-white/[0.02] border border-white/[0.08] rounded-xl md:rounded-2xl p-3 md:p-4 space-y-3">
+              <input
+                type="range"
+                min={0}
+                max={steps.length - 1}
+                value={currentIndex}
+                onChange={(event) => {
+                  setIsPlaying(false);
+                  goTo(Number(event.target.value));
+                }}
+                className="w-full accent-blue-500"
+                aria-label="Step"
+              />
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => { setIsPlaying(false); goTo(currentIndex - 1); }}
+                    disabled={currentIndex === 0}
+                    className="p-2.5 rounded-lg bg-white/[0.05] hover:bg-white/[0.08] disabled:opacity-40 text-white transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+                    aria-label="Previous step"
+                  >
+                    <SkipBack size={18} />
+                  </button>
+                  <button
+                    onClick={togglePlay}
+                    className="p-2.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+                    aria-label={isPlaying ? "Pause" : "Play"}
+                  >
+                    {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+                  </button>
+                  <button
+                    onClick={() => { setIsPlaying(false); goTo(currentIndex + 1); }}
+                    disabled={currentIndex >= steps.length - 1}
+                    className="p-2.5 rounded-lg bg-white/[0.05] hover:bg-white/[0.08] disabled:opacity-40 text-white transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+                    aria-label="Next step"
+                  >
+                    <SkipForward size={18} />
+                  </button>
+                  <select
+                    value={speed}
+                    onChange={(event) => setSpeed(Number(event.target.value))}
+                    className="bg-white/[0.05] border border-white/[0.08] rounded-lg text-sm text-white px-2 py-2 min-h-[44px]"
+                    aria-label="Playback speed"
+                  >
+                    {PLAYBACK_SPEEDS.map(option => (
+                      <option key={option} value={option} className="bg-gray-900">{option}x</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-400">
+                    Step {step.stepNumber} · {currentIndex + 1} of {steps.length}
+                  </span>
+                  <button
+                    onClick={handleCopyLink}
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-white/[0.05] hover:bg-white/[0.08] text-sm text-gray-300 hover:text-white transition-colors min-h-[44px]"
+                  >
+                    <Link2 size={16} />
+                    <span>Copy link</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Step details and timeline */}
+          <div className="space-y-3">
+            <div className="bg-white/[0.02] border border-white/[0.08] rounded-xl md:rounded-2xl p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-semibold text-white/70">#{step.stepNumber}</span>
+                <span className="px-2 py-1 bg-purple-500/20 text-purple-300 border border-white/[0.08] text-xs rounded-md font-medium uppercase tracking-wide">
+                  {step.tool}
+                </span>
+                <span className="text-xs text-gray-500">{new Date(step.timestamp).toLocaleTimeString()}</span>
+              </div>
+              <p className="text-sm md:text-base text-white/90 break-words">{step.instruction}</p>
+              {step.action && (
+                <p className="text-xs text-gray-400">
+                  {step.action.type.replace("_", " ")} at ({step.action.x}, {step.action.y})
+                </p>
+              )}
+              {step.reasoning && (
+                <div className="text-xs md:text-sm text-white/70 break-words">
+                  <span className="font-semibold text-white/80">Reasoning: </span>
+                  {step.reasoning}
+                </div>
+              )}
+              {step.extractedData && (
+                <div className="rounded-lg bg-green-500/[0.08] border border-green-500/20 p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-xs md:text-sm text-green-300">
+                    <Database size={14} />
+                    <span>
+                      Extracted {step.extractedData.totalCount} item{step.extractedData.totalCount === 1 ? "" : "s"} ({step.extractedData.dataType})
+                    </span>
+                  </div>
+                  {step.extractedData.records.length > 0 && (
+                    <pre className="text-[11px] text-gray-300 max-h-48 overflow-auto whitespace-pre-wrap break-words">
+                      {JSON.stringify(step.extractedData.records, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div
+              ref={timelineRef}
+              className="bg-white/[0.02] border border-white/[0.08] rounded-xl md:rounded-2xl p-2 max-h-[480px] overflow-y-auto space-y-1"
+            >
+              {steps.map((timelineStep, index) => (
+                <button
+                  key={timelineStep.id}
+                  data-step-index={index}
+                  onClick={() => { setIsPlaying(false); goTo(index); }}
+                  className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors ${
+                    index === currentIndex ? "bg-blue-600/20 border border-blue-500/40" : "hover:bg-white/[0.05] border border-transparent"
+                  }`}
+                >
+                  {timelineStep.screenshotThumbnailUrl ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={timelineStep.screenshotThumbnailUrl}
+                      alt=""
+                      loading="lazy"
+                      className="w-16 h-12 object-cover rounded border border-white/[0.08] flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-16 h-12 rounded bg-white/[0.04] border border-white/[0.08] flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-xs text-gray-500">#{timelineStep.stepNumber} · {timelineStep.tool}</p>
+                    <p className="text-sm text-white/90 truncate">{timelineStep.instruction}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {session.errorMessage && (
+        <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{session.errorMessage}</p>
+        </div>
+      )}
+    </div>
+  );
+}
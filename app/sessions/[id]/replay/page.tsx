@@ -0,0 +1,100 @@
+import { notFound } from "next/navigation";
+import mongoose from "mongoose";
+import { auth } from "@clerk/nextjs/server";
+import { connectDB, Agent, AgentSession, SessionLog } from "../../../../server/db";
+import SessionReplayClient, { ReplayAction, ReplaySession, ReplayStep } from "./SessionReplayClient";
+
+// Pointer actions whose coordinates are drawn on the screenshot
+const POINTER_ACTIONS = ["click", "double_click", "move", "scroll", "drag"];
+
+function toReplayAction(output: unknown): ReplayAction | null {
+  if (!output || typeof output !== "object") return null;
+  const action = output as { type?: unknown; x?: unknown; y?: unknown; path?: unknown; button?: unknown };
+  if (typeof action.type !== "string" || !POINTER_ACTIONS.includes(action.type)) return null;
+
+  if (action.type === "drag" && Array.isArray(action.path)) {
+    const path = action.path
+      .filter((point): point is { x: number; y: number } => typeof point?.x === "number" && typeof point?.y === "number")
+      .map(({ x, y }) => ({ x, y }));
+    return path.length > 0 ? { type: action.type, x: path[0].x, y: path[0].y, path } : null;
+  }
+
+  const x = Number(action.x);
+  const y = Number(action.y);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+  return { type: action.type, x, y, button: typeof action.button === "string" ? action.button : null };
+}
+
+export default async function SessionReplayPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ step?: string }>;
+}) {
+  const { id } = await params;
+  const { step } = await searchParams;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return notFound();
+  }
+
+  const { userId } = await auth();
+  if (!userId) {
+    return notFound();
+  }
+
+  await connectDB();
+
+  const session = await AgentSession.findOne({ _id: id, userId }).lean();
+  if (!session) {
+    return notFound();
+  }
+
+  const [agent, logs] = await Promise.all([
+    Agent.findOne({ _id: session.agentId, userId }).select("name").lean(),
+    SessionLog.find({ sessionId: id, userId }).sort({ stepNumber: 1, _id: 1 }).lean(),
+  ]);
+
+  const formattedSession: ReplaySession = {
+    id: session._id.toString(),
+    agentId: session.agentId.toString(),
+    agentName: agent?.name ?? "Agent",
+    status: session.status,
+    startedAt: session.startedAt.toISOString(),
+    completedAt: session.completedAt?.toISOString() ?? null,
+    summary: session.summary ?? null,
+    sessionOutcome: session.sessionOutcome ?? null,
+    errorMessage: session.errorMessage ?? null,
+  };
+
+  const steps: ReplayStep[] = logs.map(log => ({
+    id: log._id.toString(),
+    stepNumber: log.stepNumber,
+    tool: log.tool,
+    instruction: log.instruction,
+    reasoning: log.reasoning ?? null,
+    action: toReplayAction(log.output),
+    screenshotUrl: log.screenshotUrl ?? null,
+    screenshotThumbnailUrl: log.screenshotThumbnailUrl ?? null,
+    extractedData: log.extractedData
+      ? {
+          dataType: log.extractedData.dataType,
+          totalCount: log.extractedData.totalCount,
+          // Mixed data - round-trip to plain JSON for the client component
+          records: JSON.parse(JSON.stringify(log.extractedData.records ?? [])),
+        }
+      : null,
+    timestamp: log.timestamp.toISOString(),
+  }));
+
+  const initialStep = step ? parseInt(step, 10) : NaN;
+
+  return (
+    <SessionReplayClient
+      session={formattedSession}
+      steps={steps}
+      initialStepNumber={Number.isFinite(initialStep) ? initialStep : null}
+    />
+  );
+}
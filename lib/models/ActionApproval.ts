@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type ApprovalReason = 'safety_check' | 'submit' | 'navigation';
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
+
+export interface IActionApproval extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  agentId: mongoose.Types.ObjectId;
+  sessionId: mongoose.Types.ObjectId;
+  reason: ApprovalReason;
+  message: string;
+  action: Record<string, unknown>;
+  pageUrl?: string | null;
+  status: ApprovalStatus;
+  expiresAt: Date;
+  decidedAt?: Date | null;
+  decisionNote?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ActionApprovalSchema = new Schema<IActionApproval>(
+  {
+    userId: { type: String, required: true },
+    agentId: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+    sessionId: { type: Schema.Types.ObjectId, ref: 'AgentSession', required: true },
+    reason: { type: String, enum: ['safety_check', 'submit', 'navigation'], required: true },
+    message: { type: String, required: true },
+    // The computer action or function call waiting for a decision
+    action: { type: Schema.Types.Mixed, required: true },
+    pageUrl: { type: String, default: null },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected', 'expired', 'cancelled'],
+      default: 'pending',
+      required: true,
+    },
+    expiresAt: { type: Date, required: true },
+    decidedAt: { type: Date, default: null },
+    decisionNote: { type: String, default: null },
+  },
+  {
+    timestamps: true,
+    collection: 'action_approvals',
+  }
+);
+
+// Indexes for performance
+ActionApprovalSchema.index({ sessionId: 1, status: 1 });
+ActionApprovalSchema.index({ userId: 1, status: 1, createdAt: -1 });
+
+const ActionApproval: Model<IActionApproval> =
+  mongoose.models.ActionApproval || mongoose.model<IActionApproval>('ActionApproval', ActionApprovalSchema);
+
+export default ActionApproval;
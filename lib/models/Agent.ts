@@ -1,4 +1,66 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { MERGE_STRATEGIES, type MergeStrategy } from '../utils/record-identity';
+
+export interface IAgentSchedule {
+  enabled: boolean;
+  cronExpression?: string | null;
+  timezone: string;
+  lastRunAt?: Date | null;
+  nextRunAt?: Date | null;
+  lastSkipReason?: string | null;
+}
+
+export type ModelProviderName = 'openai' | 'anthropic' | 'scripted' | 'replay';
+
+export interface IAgentModelConfig {
+  provider: ModelProviderName;
+  model?: string | null;
+  options?: Record<string, unknown> | null;
+}
+
+export type BrowserBackend = 'browserbase' | 'local';
+
+export interface IAgentBrowserConfig {
+  backend?: BrowserBackend | null;
+  headless?: boolean | null;
+}
+
+export interface IAgentApprovalPolicy {
+  requireForSafetyChecks: boolean;
+  submitDomains: string[];
+  navigationAllowlist: string[];
+  timeoutMinutes: number;
+}
+
+export interface IAgentNavigationPolicy {
+  enforceAllowlist: boolean;
+  allowedDomains: string[];
+  deniedPatterns: string[];
+  blockDownloads: boolean;
+}
+
+export interface IAgentExecutionBudget {
+  maxActions?: number | null;
+  maxMinutes?: number | null;
+  maxCredits?: number | null;
+  maxTokens?: number | null;
+}
+
+export interface IAgentRetryPolicy {
+  maxRetries?: number | null;
+  backoffSeconds?: number | null;
+  backoffMultiplier?: number | null;
+  // Error classes (lib/utils/error-classifier) that trigger a retry
+  retryOn?: string[] | null;
+}
+
+export interface IAgentRecordStore {
+  // Field groups that identify a record (null = RECORD_STORE_CONFIG defaults)
+  identityKeys?: string[][] | null;
+  mergeStrategy?: MergeStrategy | null;
+  // Per-field overrides of mergeStrategy
+  fieldStrategies?: Record<string, MergeStrategy> | null;
+}
 
 export interface IAgent extends Document {
   _id: mongoose.Types.ObjectId;
@@ -16,6 +78,14 @@ export interface IAgent extends Document {
   runtimePerDay: number;
   executionMode: 'one-shot' | 'multi-step';
   isDeployed: boolean;
+  schedule?: IAgentSchedule | null;
+  modelConfig?: IAgentModelConfig | null;
+  browserConfig?: IAgentBrowserConfig | null;
+  approvalPolicy?: IAgentApprovalPolicy | null;
+  navigationPolicy?: IAgentNavigationPolicy | null;
+  executionBudget?: IAgentExecutionBudget | null;
+  retryPolicy?: IAgentRetryPolicy | null;
+  recordStore?: IAgentRecordStore | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,6 +106,59 @@ const AgentSchema = new Schema<IAgent>(
     runtimePerDay: { type: Number, required: true, default: 15 },
     executionMode: { type: String, enum: ['one-shot', 'multi-step'], default: 'multi-step' },
     isDeployed: { type: Boolean, default: false },
+    schedule: {
+      enabled: { type: Boolean, default: false },
+      cronExpression: { type: String, default: null },
+      timezone: { type: String, default: 'UTC' },
+      lastRunAt: { type: Date, default: null },
+      nextRunAt: { type: Date, default: null },
+      lastSkipReason: { type: String, default: null },
+    },
+    // Which computer-use model drives the browser (model null = provider default)
+    modelConfig: {
+      provider: { type: String, enum: ['openai', 'anthropic', 'scripted', 'replay'], default: 'openai' },
+      model: { type: String, default: null },
+      options: { type: Schema.Types.Mixed, default: null },
+    },
+    // Where the browser runs (null = BROWSER_BACKEND env default; headless only applies to local)
+    browserConfig: {
+      backend: { type: String, enum: ['browserbase', 'local', null], default: null },
+      headless: { type: Boolean, default: null },
+    },
+    // Actions that wait for the user's approval before they run (empty lists = no check)
+    approvalPolicy: {
+      requireForSafetyChecks: { type: Boolean, default: false },
+      submitDomains: { type: [String], default: [] },
+      navigationAllowlist: { type: [String], default: [] },
+      timeoutMinutes: { type: Number, default: 30 },
+    },
+    // Where the browser may go (allowlist = targetWebsite + platform domains + allowedDomains)
+    navigationPolicy: {
+      enforceAllowlist: { type: Boolean, default: false },
+      allowedDomains: { type: [String], default: [] },
+      deniedPatterns: { type: [String], default: [] },
+      blockDownloads: { type: Boolean, default: true },
+    },
+    // Limits for a single session (maxActions null = EXECUTION_BUDGET_CONFIG default, others null = no limit)
+    executionBudget: {
+      maxActions: { type: Number, default: null },
+      maxMinutes: { type: Number, default: null },
+      maxCredits: { type: Number, default: null },
+      maxTokens: { type: Number, default: null },
+    },
+    // Re-running failed sessions (null = SESSION_RETRY_CONFIG defaults, retryOn null = transient errors)
+    retryPolicy: {
+      maxRetries: { type: Number, default: null },
+      backoffSeconds: { type: Number, default: null },
+      backoffMultiplier: { type: Number, default: null },
+      retryOn: { type: [String], default: null },
+    },
+    // How extracted records are de-duplicated across sessions (null = RECORD_STORE_CONFIG defaults)
+    recordStore: {
+      identityKeys: { type: [[String]], default: null },
+      mergeStrategy: { type: String, enum: [...MERGE_STRATEGIES, null], default: null },
+      fieldStrategies: { type: Schema.Types.Mixed, default: null },
+    },
   },
   {
     timestamps: true,
@@ -46,6 +169,8 @@ const AgentSchema = new Schema<IAgent>(
 // Indexes for performance
 AgentSchema.index({ userId: 1, createdAt: -1 });
 AgentSchema.index({ userId: 1, isDeployed: 1 });
+// Scheduler looks up enabled agents whose next run is due
+AgentSchema.index({ 'schedule.enabled': 1, 'schedule.nextRunAt': 1 });
 
 const Agent: Model<IAgent> = mongoose.models.Agent || mongoose.model<IAgent>('Agent', AgentSchema);
 
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type AgentJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IAgentJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  agentId: mongoose.Types.ObjectId;
+  sessionId: mongoose.Types.ObjectId;
+  type: 'agent_execution';
+  payload: {
+    executionPrompt: string;
+    dailyTaskId?: string | null;
+    runtimeBudgetMinutes?: number | null;
+  };
+  status: AgentJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+  heartbeatAt?: Date | null;
+  lastError?: string | null;
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AgentJobSchema = new Schema<IAgentJob>(
+  {
+    userId: { type: String, required: true },
+    agentId: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+    sessionId: { type: Schema.Types.ObjectId, ref: 'AgentSession', required: true },
+    type: { type: String, enum: ['agent_execution'], default: 'agent_execution', required: true },
+    payload: {
+      executionPrompt: { type: String, required: true },
+      dailyTaskId: { type: String, default: null },
+      runtimeBudgetMinutes: { type: Number, default: null },
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+      default: 'queued',
+      required: true,
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3 },
+    runAt: { type: Date, default: () => new Date(), required: true },
+    lockedBy: { type: String, default: null },
+    lockedUntil: { type: Date, default: null },
+    heartbeatAt: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    startedAt: { type: Date, default: null },
+    completedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+    collection: 'agent_jobs',
+  }
+);
+
+// Indexes for claiming and lease recovery
+AgentJobSchema.index({ status: 1, runAt: 1, createdAt: 1 });
+AgentJobSchema.index({ status: 1, lockedUntil: 1 });
+AgentJobSchema.index({ sessionId: 1 });
+AgentJobSchema.index({ userId: 1, agentId: 1, createdAt: -1 });
+
+const AgentJob: Model<IAgentJob> =
+  mongoose.models.AgentJob || mongoose.model<IAgentJob>('AgentJob', AgentJobSchema);
+
+export default AgentJob;
@@ -1,5 +1,34 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export type PlanStepStatus = 'pending' | 'active' | 'done' | 'skipped';
+
+export interface IPlanProgress {
+  steps: Array<{ description: string; status: PlanStepStatus }>;
+  // 1-based number of the active step
+  currentStep: number | null;
+  completedSteps: number;
+  totalSteps: number;
+}
+
+// Why a session ended, for every terminal status
+export const SESSION_STOP_REASONS = [
+  'model_finished', // the model reported the task done (empty output)
+  'max_actions',
+  'budget_exhausted', // minutes, credits or tokens budget, or the daily runtime budget
+  'user_paused', // the agent was paused or undeployed
+  'user_stopped', // the session was stopped from the UI
+  'approval_rejected', // an action was rejected or its approval timed out
+  'pause_expired',
+  'stalled',
+  'browser_crashed',
+  'auth_failed',
+  'policy_violation',
+  'worker_lost', // the execution worker died and the job could not be retried
+  'error',
+] as const;
+
+export type SessionStopReason = (typeof SESSION_STOP_REASONS)[number];
+
 export interface IAgentSession extends Document {
   _id: mongoose.Types.ObjectId;
   userId: string;
@@ -7,11 +36,25 @@ export interface IAgentSession extends Document {
   browserSessionId?: string | null;
   startedAt: Date;
   completedAt?: Date | null;
-  status: 'running' | 'completed' | 'failed' | 'stopped';
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'stopped';
   summary?: string | null;
   sessionOutcome?: string | null;
   errorMessage?: string | null;
   totalSteps: number;
+  pendingApprovalId?: mongoose.Types.ObjectId | null;
+  pausedAt?: Date | null;
+  totalPausedMs: number;
+  resumeInstruction?: string | null;
+  controlledBy: 'agent' | 'operator';
+  takeoverAt?: Date | null;
+  handbackNote?: string | null;
+  planProgress?: IPlanProgress | null;
+  stopReason?: SessionStopReason | null;
+  stopDetail?: string | null;
+  errorClass?: string | null;
+  retryOf?: mongoose.Types.ObjectId | null;
+  attempt: number;
+  nextAttemptId?: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,7 +68,7 @@ const AgentSessionSchema = new Schema<IAgentSession>(
     completedAt: { type: Date, default: null },
     status: { 
       type: String, 
-      enum: ['running', 'completed', 'failed', 'stopped'],
+      enum: ['running', 'paused', 'completed', 'failed', 'stopped'],
       default: 'running',
       required: true 
     },
@@ -33,6 +76,39 @@ const AgentSessionSchema = new Schema<IAgentSession>(
     sessionOutcome: { type: String, default: null },
     errorMessage: { type: String, default: null },
     totalSteps: { type: Number, default: 0 },
+    // Set while the agent waits for the user to approve an action
+    pendingApprovalId: { type: Schema.Types.ObjectId, ref: 'ActionApproval', default: null },
+    // Pause/resume: the worker keeps the browser and conversation while paused; paused time is not billed
+    pausedAt: { type: Date, default: null },
+    totalPausedMs: { type: Number, default: 0 },
+    resumeInstruction: { type: String, default: null },
+    // Operator takeover: the session is paused while a person drives the browser through the live view
+    controlledBy: { type: String, enum: ['agent', 'operator'], default: 'agent' },
+    takeoverAt: { type: Date, default: null },
+    handbackNote: { type: String, default: null },
+    // Which TaskPlanner steps the agent has finished, as reported by the model during the run
+    planProgress: {
+      type: {
+        steps: [{
+          _id: false,
+          description: { type: String, required: true },
+          status: { type: String, enum: ['pending', 'active', 'done', 'skipped'], required: true },
+        }],
+        currentStep: { type: Number, default: null },
+        completedSteps: { type: Number, default: 0 },
+        totalSteps: { type: Number, default: 0 },
+      },
+      default: null,
+    },
+    // Why the session ended (null while running); stopDetail adds specifics such as the limit that was hit
+    stopReason: { type: String, enum: SESSION_STOP_REASONS, default: null },
+    stopDetail: { type: String, default: null },
+    // Failed sessions: the error class (lib/utils/error-classifier) decides whether the session is retried
+    errorClass: { type: String, default: null },
+    // Retries: every attempt points at the first session of the run, and each failed attempt at the one that replaced it
+    retryOf: { type: Schema.Types.ObjectId, ref: 'AgentSession', default: null },
+    attempt: { type: Number, default: 1 },
+    nextAttemptId: { type: Schema.Types.ObjectId, ref: 'AgentSession', default: null },
   },
   {
     timestamps: true,
@@ -43,6 +119,8 @@ const AgentSessionSchema = new Schema<IAgentSession>(
 // Indexes for performance
 AgentSessionSchema.index({ userId: 1, agentId: 1, startedAt: -1 });
 AgentSessionSchema.index({ userId: 1, status: 1 });
+AgentSessionSchema.index({ userId: 1, agentId: 1, stopReason: 1 });
+AgentSessionSchema.index({ retryOf: 1 });
 AgentSessionSchema.index({ browserSessionId: 1 });
 
 const AgentSession: Model<IAgentSession> = 
@@ -11,6 +11,8 @@ export interface IAgentTask extends Document {
   status: string;
   result?: Record<string, unknown> | null;
   scheduledFor?: Date | null;
+  lastRunAt?: Date | null;
+  lastSessionId?: mongoose.Types.ObjectId | null;
   completedAt?: Date | null;
   nextTaskId?: mongoose.Types.ObjectId | null;
   executionHistory?: Record<string, unknown> | null;
@@ -29,6 +31,8 @@ const AgentTaskSchema = new Schema<IAgentTask>(
     status: { type: String, required: true, default: 'pending' },
     result: { type: Schema.Types.Mixed, default: null },
     scheduledFor: { type: Date, default: null },
+    lastRunAt: { type: Date, default: null },
+    lastSessionId: { type: Schema.Types.ObjectId, ref: 'AgentSession', default: null },
     completedAt: { type: Date, default: null },
     nextTaskId: { type: Schema.Types.ObjectId, ref: 'AgentTask', default: null },
     executionHistory: { type: Schema.Types.Mixed, default: null },
@@ -43,6 +47,8 @@ const AgentTaskSchema = new Schema<IAgentTask>(
 AgentTaskSchema.index({ userId: 1, agentId: 1, status: 1 });
 AgentTaskSchema.index({ userId: 1, scheduledFor: 1 });
 AgentTaskSchema.index({ userId: 1, priority: -1 });
+// Scheduler looks up due tasks across all users
+AgentTaskSchema.index({ status: 1, scheduledFor: 1 });
 
 const AgentTask: Model<IAgentTask> = 
   mongoose.models.AgentTask || mongoose.model<IAgentTask>('AgentTask', AgentTaskSchema);
@@ -1,5 +1,18 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export interface IExtractionValidationError {
+  recordIndex: number;
+  field: string;
+  message: string;
+}
+
+export interface IExtractionPagination {
+  strategy: string;
+  pagesVisited: number;
+  stopReason: string;
+  duplicatesSkipped: number;
+}
+
 export interface IExtractedData extends Document {
   _id: mongoose.Types.ObjectId;
   userId: string;
@@ -8,6 +21,17 @@ export interface IExtractedData extends Document {
   dataType: string;
   records: Array<Record<string, unknown>>;
   totalCount: number;
+  schemaId?: mongoose.Types.ObjectId | null;
+  validCount?: number | null;
+  invalidCount?: number | null;
+  validationErrors: IExtractionValidationError[];
+  // Outcome of merging into the record store (extracted_records)
+  newRecordCount?: number | null;
+  mergedRecordCount?: number | null;
+  // Set when extract_data read several pages
+  pagination?: IExtractionPagination | null;
+  // How the records were read (structured, cached_selectors, inferred_selectors, model, keywords)
+  method?: string | null;
   extractedAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -21,6 +45,29 @@ const ExtractedDataSchema = new Schema<IExtractedData>(
     dataType: { type: String, required: true },
     records: { type: Schema.Types.Mixed, required: true },
     totalCount: { type: Number, required: true },
+    // Set when the records were checked against one of the agent's extraction schemas
+    schemaId: { type: Schema.Types.ObjectId, ref: 'ExtractionSchema', default: null },
+    validCount: { type: Number, default: null },
+    invalidCount: { type: Number, default: null },
+    validationErrors: [{
+      _id: false,
+      recordIndex: { type: Number, required: true },
+      field: { type: String, required: true },
+      message: { type: String, required: true },
+    }],
+    newRecordCount: { type: Number, default: null },
+    mergedRecordCount: { type: Number, default: null },
+    pagination: {
+      type: {
+        _id: false,
+        strategy: { type: String, required: true },
+        pagesVisited: { type: Number, required: true },
+        stopReason: { type: String, required: true },
+        duplicatesSkipped: { type: Number, default: 0 },
+      },
+      default: null,
+    },
+    method: { type: String, default: null },
     extractedAt: { type: Date, required: true },
   },
   {
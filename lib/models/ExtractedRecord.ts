@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Where a record was seen: the session, the extract_data step and the extraction it came from
+export interface IRecordSource {
+  sessionId: mongoose.Types.ObjectId;
+  sessionLogId?: mongoose.Types.ObjectId | null;
+  extractionId: mongoose.Types.ObjectId;
+  extractedAt: Date;
+}
+
+export interface IExtractedRecord extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  agentId: mongoose.Types.ObjectId;
+  dataType: string;
+  // Normalized identity keys (lib/utils/record-identity), e.g. "email=jane@acme.com"
+  identityKeys: string[];
+  // The record merged across every extraction that produced it
+  data: Record<string, unknown>;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  seenCount: number;
+  sources: IRecordSource[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExtractedRecordSchema = new Schema<IExtractedRecord>(
+  {
+    userId: { type: String, required: true },
+    agentId: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+    dataType: { type: String, required: true },
+    identityKeys: { type: [String], required: true },
+    data: { type: Schema.Types.Mixed, required: true },
+    firstSeenAt: { type: Date, required: true },
+    lastSeenAt: { type: Date, required: true },
+    seenCount: { type: Number, default: 1 },
+    sources: [{
+      _id: false,
+      sessionId: { type: Schema.Types.ObjectId, ref: 'AgentSession', required: true },
+      sessionLogId: { type: Schema.Types.ObjectId, ref: 'SessionLog', default: null },
+      extractionId: { type: Schema.Types.ObjectId, ref: 'ExtractedData', required: true },
+      extractedAt: { type: Date, required: true },
+    }],
+  },
+  {
+    timestamps: true,
+    collection: 'extracted_records',
+  }
+);
+
+// Matching an incoming record against the store; an identity key belongs to one record
+ExtractedRecordSchema.index({ userId: 1, agentId: 1, dataType: 1, identityKeys: 1 }, { unique: true });
+// Master list, most recently seen first
+ExtractedRecordSchema.index({ userId: 1, agentId: 1, lastSeenAt: -1 });
+ExtractedRecordSchema.index({ 'sources.sessionId': 1 });
+
+const ExtractedRecord: Model<IExtractedRecord> =
+  mongoose.models.ExtractedRecord || mongoose.model<IExtractedRecord>('ExtractedRecord', ExtractedRecordSchema);
+
+export default ExtractedRecord;
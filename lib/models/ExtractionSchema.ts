@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { EXTRACTION_FIELD_TYPES, type ExtractionFieldType } from '../utils/extraction-schema';
+
+export interface IExtractionSchemaField {
+  name: string;
+  type: ExtractionFieldType;
+  required: boolean;
+  pattern?: string | null;
+  description?: string | null;
+}
+
+export interface IExtractionSchema extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  agentId: mongoose.Types.ObjectId;
+  // Also the dataType of the records extracted with it
+  name: string;
+  description?: string | null;
+  fields: IExtractionSchemaField[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExtractionSchemaSchema = new Schema<IExtractionSchema>(
+  {
+    userId: { type: String, required: true },
+    agentId: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+    name: { type: String, required: true },
+    description: { type: String, default: null },
+    fields: [{
+      _id: false,
+      name: { type: String, required: true },
+      type: { type: String, enum: EXTRACTION_FIELD_TYPES, required: true },
+      required: { type: Boolean, default: false },
+      pattern: { type: String, default: null },
+      description: { type: String, default: null },
+    }],
+  },
+  {
+    timestamps: true,
+    collection: 'extraction_schemas',
+  }
+);
+
+// One schema per name and agent
+ExtractionSchemaSchema.index({ userId: 1, agentId: 1, name: 1 }, { unique: true });
+
+const ExtractionSchema: Model<IExtractionSchema> =
+  mongoose.models.ExtractionSchema || mongoose.model<IExtractionSchema>('ExtractionSchema', ExtractionSchemaSchema);
+
+export default ExtractionSchema;
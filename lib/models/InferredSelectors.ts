@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IInferredSelectors extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  agentId: mongoose.Types.ObjectId;
+  // Hostname the selectors were inferred on (without www.)
+  site: string;
+  dataType: string;
+  selectors: {
+    container?: string | null;
+    fields: Record<string, string>;
+  };
+  // Records the selectors found when they were inferred
+  recordCount: number;
+  // Extractions served from the cache since
+  hits: number;
+  lastUsedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InferredSelectorsSchema = new Schema<IInferredSelectors>(
+  {
+    userId: { type: String, required: true },
+    agentId: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+    site: { type: String, required: true },
+    dataType: { type: String, required: true },
+    selectors: {
+      container: { type: String, default: null },
+      fields: { type: Schema.Types.Mixed, required: true },
+    },
+    recordCount: { type: Number, default: 0 },
+    hits: { type: Number, default: 0 },
+    lastUsedAt: { type: Date, default: Date.now },
+  },
+  {
+    timestamps: true,
+    collection: 'inferred_selectors',
+  }
+);
+
+// One cached selector set per agent, site and data type
+InferredSelectorsSchema.index({ agentId: 1, site: 1, dataType: 1 }, { unique: true });
+InferredSelectorsSchema.index({ userId: 1, agentId: 1 });
+
+const InferredSelectors: Model<IInferredSelectors> =
+  mongoose.models.InferredSelectors || mongoose.model<IInferredSelectors>('InferredSelectors', InferredSelectorsSchema);
+
+export default InferredSelectors;
@@ -11,6 +11,8 @@ export interface ISessionLog extends Document {
   reasoning?: string | null;
   output?: Record<string, unknown> | null;
   screenshotUrl?: string | null;
+  screenshotThumbnailUrl?: string | null;
+  screenshotCapturedAt?: Date | null;
   extractedData?: {
     dataType: string;
     records: Array<Record<string, unknown>>;
@@ -31,7 +33,10 @@ const SessionLogSchema = new Schema<ISessionLog>(
     instruction: { type: String, required: true },
     reasoning: { type: String, default: null },
     output: { type: Schema.Types.Mixed, default: null },
+    // What the page looked like after this step (served from the screenshot blob store)
     screenshotUrl: { type: String, default: null },
+    screenshotThumbnailUrl: { type: String, default: null },
+    screenshotCapturedAt: { type: Date, default: null },
     extractedData: {
       type: {
         dataType: { type: String, required: true },
@@ -51,6 +56,7 @@ const SessionLogSchema = new Schema<ISessionLog>(
 // Indexes for performance
 SessionLogSchema.index({ userId: 1, sessionId: 1, stepNumber: 1 });
 SessionLogSchema.index({ userId: 1, timestamp: -1 });
+SessionLogSchema.index({ screenshotCapturedAt: 1 });
 
 const SessionLog: Model<ISessionLog> = 
   mongoose.models.SessionLog || mongoose.model<ISessionLog>('SessionLog', SessionLogSchema);
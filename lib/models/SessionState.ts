@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Working state of a running agent session (mission memory, action history), shared between processes
+export interface ISessionState extends Document {
+  _id: mongoose.Types.ObjectId;
+  sessionId: string;
+  state: Record<string, unknown>;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionStateSchema = new Schema<ISessionState>(
+  {
+    sessionId: { type: String, required: true, unique: true },
+    state: { type: Schema.Types.Mixed, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+    collection: 'session_states',
+  }
+);
+
+// TTL index: MongoDB removes state that has not been written for SESSION_STATE_TTL_MINUTES
+SessionStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const SessionState: Model<ISessionState> =
+  mongoose.models.SessionState || mongoose.model<ISessionState>('SessionState', SessionStateSchema);
+
+export default SessionState;
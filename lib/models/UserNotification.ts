@@ -5,6 +5,7 @@ export type NotificationTypeKey =
   | 'task_failed'
   | 'agent_deployed'
   | 'agent_paused'
+  | 'approval_required'
   | 'agent_created'
   | 'credits_low'
   | 'credits_exhausted'
@@ -49,6 +50,7 @@ const UserNotificationSchema = new Schema<IUserNotification>(
         'task_failed',
         'agent_deployed',
         'agent_paused',
+        'approval_required',
         'agent_created',
         'credits_low',
         'credits_exhausted',
@@ -1,6 +1,6 @@
 // Export all models for easy importing
 export { default as Agent } from './Agent';
-export { default as AgentSession } from './AgentSession';
+export { default as AgentSession, SESSION_STOP_REASONS } from './AgentSession';
 export { default as SessionLog } from './SessionLog';
 export { default as AgentContext } from './AgentContext';
 export { default as AgentTask } from './AgentTask';
@@ -11,10 +11,16 @@ export { default as CreditsHistory } from './CreditsHistory';
 export { default as UserNotification } from './UserNotification';
 export { default as UserPreferences } from './UserPreferences';
 export { default as ExtractedData } from './ExtractedData';
+export { default as AgentJob } from './AgentJob';
+export { default as ActionApproval } from './ActionApproval';
+export { default as SessionState } from './SessionState';
+export { default as ExtractionSchema } from './ExtractionSchema';
+export { default as ExtractedRecord } from './ExtractedRecord';
+export { default as InferredSelectors } from './InferredSelectors';
 
 // Export types
-export type { IAgent } from './Agent';
-export type { IAgentSession } from './AgentSession';
+export type { IAgent, IAgentSchedule, IAgentModelConfig, ModelProviderName, IAgentBrowserConfig, BrowserBackend, IAgentApprovalPolicy, IAgentNavigationPolicy, IAgentExecutionBudget, IAgentRetryPolicy, IAgentRecordStore } from './Agent';
+export type { IAgentSession, IPlanProgress, PlanStepStatus, SessionStopReason } from './AgentSession';
 export type { ISessionLog } from './SessionLog';
 export type { IAgentContext } from './AgentContext';
 export type { IAgentTask } from './AgentTask';
@@ -24,4 +30,10 @@ export type { IUserCredits } from './UserCredits';
 export type { ICreditsHistory } from './CreditsHistory';
 export type { IUserNotification } from './UserNotification';
 export type { IUserPreferences } from './UserPreferences';
-export type { IExtractedData } from './ExtractedData';
+export type { IExtractedData, IExtractionValidationError, IExtractionPagination } from './ExtractedData';
+export type { IAgentJob, AgentJobStatus } from './AgentJob';
+export type { IActionApproval, ApprovalReason, ApprovalStatus } from './ActionApproval';
+export type { ISessionState } from './SessionState';
+export type { IExtractionSchema, IExtractionSchemaField } from './ExtractionSchema';
+export type { IExtractedRecord, IRecordSource } from './ExtractedRecord';
+export type { IInferredSelectors } from './InferredSelectors';
@@ -0,0 +1,440 @@
+import mongoose from 'mongoose';
+import { CronExpressionParser } from 'cron-parser';
+import Agent, { IAgent } from '../models/Agent';
+import AgentSession from '../models/AgentSession';
+import AgentTask, { IAgentTask } from '../models/AgentTask';
+import NotificationService from './NotificationService';
+import { prepareExecutionPrompt, launchAgentSession } from './agent-launcher';
+import { checkSufficientCredits } from '@/app/lib/credits';
+import { CREDITS_CONFIG, SCHEDULER_CONFIG } from '@/app/lib/constants';
+
+type LaunchResult =
+  | { launched: true; sessionId: string }
+  | { launched: false; reason: string; retryAt: Date | null };
+
+export interface SchedulerTickResult {
+  launched: number;
+  skipped: number;
+  tasksReconciled: number;
+}
+
+export interface ScheduleOverview {
+  enabled: boolean;
+  cronExpression: string | null;
+  timezone: string;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  lastSkipReason: string | null;
+  upcomingRuns: Date[];
+  runtimePerDay: number;
+  runtimeUsedToday: number;
+  runtimeRemainingToday: number;
+  upcomingTasks: Array<{
+    id: string;
+    taskDescription: string;
+    frequency: string;
+    scheduledFor: Date | null;
+  }>;
+}
+
+/**
+ * Cron-style scheduler for agent runs.
+ *
+ * Two kinds of runs are due: agents whose schedule.nextRunAt has passed, and
+ * pending AgentTasks whose scheduledFor has passed. Each due item is claimed with
+ * a conditional update so several workers can tick side by side without double
+ * launching. Runs never start while the agent is already running and only get the
+ * part of the agent's runtimePerDay that is left for the day (in its timezone).
+ */
+class AgentScheduler {
+  /**
+   * Returns an error message for an invalid cron expression or timezone, null when valid.
+   */
+  validateSchedule(cronExpression: string, timezone: string): string | null {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      return `Unknown timezone: ${timezone}`;
+    }
+
+    try {
+      CronExpressionParser.parse(cronExpression, { tz: timezone });
+    } catch (error) {
+      return `Invalid cron expression: ${error instanceof Error ? error.message : cronExpression}`;
+    }
+
+    return null;
+  }
+
+  getNextRunAt(cronExpression: string, timezone: string, from: Date = new Date()): Date {
+    return CronExpressionParser.parse(cronExpression, { currentDate: from, tz: timezone })
+      .next()
+      .toDate();
+  }
+
+  getUpcomingRuns(cronExpression: string, timezone: string, count: number, from: Date = new Date()): Date[] {
+    return CronExpressionParser.parse(cronExpression, { currentDate: from, tz: timezone })
+      .take(count)
+      .map((date) => date.toDate());
+  }
+
+  /**
+   * Midnight of the current day in the given timezone.
+   */
+  getStartOfDay(timezone: string, now: Date = new Date()): Date {
+    return CronExpressionParser.parse('0 0 * * *', { currentDate: now, tz: timezone })
+      .prev()
+      .toDate();
+  }
+
+  getNextStartOfDay(timezone: string, now: Date = new Date()): Date {
+    return this.getNextRunAt('0 0 * * *', timezone, now);
+  }
+
+  /**
+   * Minutes of session time the agent has used since midnight in its timezone,
+   * counting running sessions up to now and sessions that started yesterday only from midnight.
+   */
+  async getRuntimeUsedToday(agentId: string, timezone: string, now: Date = new Date()): Promise<number> {
+    const dayStart = this.getStartOfDay(timezone, now);
+
+    const sessions = await AgentSession.find({
+      agentId: new mongoose.Types.ObjectId(agentId),
+      $or: [
+        { startedAt: { $gte: dayStart } },
+        { completedAt: { $gte: dayStart } },
+        { status: { $in: ['running', 'paused'] } },
+      ],
+    }).select('startedAt completedAt status').lean().exec();
+
+    const usedMs = sessions.reduce((total, session) => {
+      const start = Math.max(session.startedAt.getTime(), dayStart.getTime());
+      const end = session.completedAt ? session.completedAt.getTime() : now.getTime();
+      return total + Math.max(0, end - start);
+    }, 0);
+
+    return usedMs / (60 * 1000);
+  }
+
+  /**
+   * Next occurrence of a recurring task after `now`, skipping occurrences that were missed.
+   * Occurrences keep the wall-clock time of scheduledFor in the agent's timezone across DST
+   * changes (monthly tasks skip months without that day). Returns null for one-off tasks.
+   */
+  getNextTaskRunAt(frequency: string, scheduledFor: Date, timezone: string, now: Date = new Date()): Date | null {
+    if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly') {
+      return null;
+    }
+
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        weekday: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      })
+        .formatToParts(scheduledFor)
+        .map((part) => [part.type, part.value]),
+    );
+    const time = `${Number(parts.second)} ${Number(parts.minute)} ${Number(parts.hour)}`;
+    const cronExpression =
+      frequency === 'daily' ? `${time} * * *`
+      : frequency === 'weekly' ? `${time} * * ${parts.weekday.toUpperCase()}`
+      : `${time} ${Number(parts.day)} * *`;
+
+    return this.getNextRunAt(cronExpression, timezone, now);
+  }
+
+  async getScheduleOverview(agent: IAgent, now: Date = new Date()): Promise<ScheduleOverview> {
+    const schedule = agent.schedule;
+    const timezone = schedule?.timezone || 'UTC';
+    const cronExpression = schedule?.cronExpression ?? null;
+    const enabled = !!schedule?.enabled && !!cronExpression;
+
+    let upcomingRuns: Date[] = [];
+    if (enabled && cronExpression) {
+      try {
+        upcomingRuns = this.getUpcomingRuns(cronExpression, timezone, SCHEDULER_CONFIG.UPCOMING_RUNS_PREVIEW, now);
+      } catch (error) {
+        console.error(`Invalid schedule on agent ${agent._id}:`, error);
+      }
+    }
+
+    const runtimeUsedToday = await this.getRuntimeUsedToday(agent._id.toString(), timezone, now);
+
+    const tasks = await AgentTask.find({
+      agentId: agent._id,
+      status: 'pending',
+      scheduledFor: { $ne: null },
+    })
+      .sort({ scheduledFor: 1 })
+      .limit(SCHEDULER_CONFIG.UPCOMING_RUNS_PREVIEW)
+      .lean()
+      .exec();
+
+    return {
+      enabled,
+      cronExpression,
+      timezone,
+      lastRunAt: schedule?.lastRunAt ?? null,
+      nextRunAt: enabled ? schedule?.nextRunAt ?? null : null,
+      lastSkipReason: schedule?.lastSkipReason ?? null,
+      upcomingRuns,
+      runtimePerDay: agent.runtimePerDay,
+      runtimeUsedToday: Math.round(runtimeUsedToday * 10) / 10,
+      runtimeRemainingToday: Math.max(0, Math.round((agent.runtimePerDay - runtimeUsedToday) * 10) / 10),
+      upcomingTasks: tasks.map((task) => ({
+        id: task._id.toString(),
+        taskDescription: task.taskDescription,
+        frequency: task.frequency,
+        scheduledFor: task.scheduledFor ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Launch everything that is due. Called periodically by the worker.
+   */
+  async tick(now: Date = new Date()): Promise<SchedulerTickResult> {
+    const result: SchedulerTickResult = { launched: 0, skipped: 0, tasksReconciled: 0 };
+
+    result.tasksReconciled = await this.reconcileTasks();
+
+    const dueAgents = await Agent.find({
+      'schedule.enabled': true,
+      'schedule.nextRunAt': { $lte: now },
+    }).exec();
+
+    for (const agent of dueAgents) {
+      const schedule = agent.schedule!;
+      let nextRunAt: Date;
+      try {
+        nextRunAt = this.getNextRunAt(schedule.cronExpression!, schedule.timezone, now);
+      } catch (error) {
+        // An invalid schedule is disabled instead of run, with the reason shown on the agent page
+        console.error(`Invalid schedule on agent ${agent._id}, disabling:`, error);
+        await Agent.findOneAndUpdate(
+          { _id: agent._id, 'schedule.enabled': true, 'schedule.nextRunAt': schedule.nextRunAt },
+          {
+            $set: {
+              'schedule.enabled': false,
+              'schedule.nextRunAt': null,
+              'schedule.lastSkipReason': `Schedule disabled: invalid cron expression or timezone (${error instanceof Error ? error.message : schedule.cronExpression})`,
+            },
+          },
+        ).exec();
+        result.skipped++;
+        continue;
+      }
+
+      // Advance nextRunAt first - only the worker whose update matches launches this occurrence
+      const claimed = await Agent.findOneAndUpdate(
+        { _id: agent._id, 'schedule.enabled': true, 'schedule.nextRunAt': schedule.nextRunAt },
+        { $set: { 'schedule.nextRunAt': nextRunAt } },
+        { new: true }
+      ).exec();
+      if (!claimed) continue;
+
+      const launch = await this.launch(claimed, now);
+      if (launch.launched) {
+        result.launched++;
+        await Agent.findByIdAndUpdate(agent._id, {
+          $set: { 'schedule.lastRunAt': now, 'schedule.lastSkipReason': null },
+        }).exec();
+        console.log(`⏰ Scheduled run of agent ${agent._id} started (session ${launch.sessionId})`);
+      } else {
+        // Overlapping or over-budget occurrences are skipped, not queued up
+        result.skipped++;
+        await Agent.findByIdAndUpdate(agent._id, {
+          $set: { 'schedule.lastSkipReason': launch.reason },
+        }).exec();
+        console.log(`⏭️ Skipped scheduled run of agent ${agent._id}: ${launch.reason}`);
+      }
+    }
+
+    const dueTasks = await AgentTask.find({
+      status: 'pending',
+      scheduledFor: { $lte: now },
+    })
+      .sort({ priority: -1, scheduledFor: 1 })
+      .exec();
+
+    for (const task of dueTasks) {
+      const launched = await this.runTask(task, now);
+      if (launched) result.launched++;
+      else result.skipped++;
+    }
+
+    return result;
+  }
+
+  private async runTask(task: IAgentTask, now: Date): Promise<boolean> {
+    // Claim the task so a second worker doesn't launch it too
+    const claimed = await AgentTask.findOneAndUpdate(
+      { _id: task._id, status: 'pending', scheduledFor: task.scheduledFor },
+      { $set: { status: 'in_progress' } },
+      { new: true }
+    ).exec();
+    if (!claimed) return false;
+
+    const agent = await Agent.findOne({ _id: task.agentId, userId: task.userId }).exec();
+    if (!agent) {
+      await AgentTask.findByIdAndUpdate(task._id, {
+        status: 'failed',
+        result: { error: 'Agent no longer exists' },
+        completedAt: now,
+      }).exec();
+      return false;
+    }
+
+    const launch = await this.launch(agent, now, task.taskDescription);
+
+    if (!launch.launched) {
+      if (launch.retryAt) {
+        await AgentTask.findByIdAndUpdate(task._id, {
+          status: 'pending',
+          scheduledFor: launch.retryAt,
+        }).exec();
+        console.log(`⏭️ Deferred task ${task._id} to ${launch.retryAt.toISOString()}: ${launch.reason}`);
+      } else {
+        await AgentTask.findByIdAndUpdate(task._id, {
+          status: 'failed',
+          result: { error: launch.reason },
+          completedAt: now,
+        }).exec();
+        console.log(`❌ Task ${task._id} cannot run: ${launch.reason}`);
+      }
+      return false;
+    }
+
+    const nextRunAt = this.getNextTaskRunAt(task.frequency, task.scheduledFor!, agent.schedule?.timezone || 'UTC', now);
+    await AgentTask.findByIdAndUpdate(task._id, {
+      // Recurring tasks go straight back to pending for their next occurrence
+      status: nextRunAt ? 'pending' : 'in_progress',
+      scheduledFor: nextRunAt ?? task.scheduledFor,
+      lastRunAt: now,
+      lastSessionId: new mongoose.Types.ObjectId(launch.sessionId),
+    }).exec();
+
+    console.log(`⏰ Scheduled task ${task._id} started (session ${launch.sessionId})`);
+    return true;
+  }
+
+  /**
+   * Close out one-off tasks whose session has finished.
+   */
+  private async reconcileTasks(): Promise<number> {
+    const runningTasks = await AgentTask.find({
+      status: 'in_progress',
+      lastSessionId: { $ne: null },
+    }).exec();
+
+    let reconciled = 0;
+    for (const task of runningTasks) {
+      const session = await AgentSession.findById(task.lastSessionId).lean().exec();
+      if (session?.status === 'running' || session?.status === 'paused') continue;
+
+      await AgentTask.findByIdAndUpdate(task._id, {
+        status: session?.status === 'completed' ? 'completed' : 'failed',
+        completedAt: session?.completedAt ?? new Date(),
+        result: {
+          sessionId: task.lastSessionId!.toString(),
+          sessionStatus: session?.status ?? 'deleted',
+          summary: session?.summary ?? null,
+          sessionOutcome: session?.sessionOutcome ?? null,
+          errorMessage: session?.errorMessage ?? null,
+        },
+      }).exec();
+      reconciled++;
+    }
+
+    return reconciled;
+  }
+
+  /**
+   * Start a run of the agent if it is idle, has runtime left today and the user has credits.
+   * When taskDescription is given it is appended to the agent's execution prompt.
+   */
+  private async launch(agent: IAgent, now: Date, taskDescription?: string): Promise<LaunchResult> {
+    const agentId = agent._id.toString();
+    const timezone = agent.schedule?.timezone || 'UTC';
+
+    const running = await AgentSession.exists({ agentId: agent._id, status: { $in: ['running', 'paused'] } });
+    if (running) {
+      return {
+        launched: false,
+        reason: 'Agent already has a running session',
+        retryAt: new Date(now.getTime() + SCHEDULER_CONFIG.BUSY_RETRY_MS),
+      };
+    }
+
+    const runtimeUsed = await this.getRuntimeUsedToday(agentId, timezone, now);
+    const runtimeRemaining = agent.runtimePerDay - runtimeUsed;
+    if (runtimeRemaining < SCHEDULER_CONFIG.MIN_RUNTIME_MINUTES) {
+      return {
+        launched: false,
+        reason: `Daily runtime budget of ${agent.runtimePerDay} min is used up`,
+        retryAt: this.getNextStartOfDay(timezone, now),
+      };
+    }
+
+    const creditCheck = await checkSufficientCredits(agent.userId, CREDITS_CONFIG.MINIMUM_CREDITS_TO_RUN);
+    if (!creditCheck.sufficient) {
+      return {
+        launched: false,
+        reason: 'Insufficient credits',
+        retryAt: this.getNextStartOfDay(timezone, now),
+      };
+    }
+
+    // Task runs use the agent's own plan and leave multi-day campaign tasks alone
+    const prepared = await prepareExecutionPrompt(agent, agent.userId, {
+      useDailyTasks: !taskDescription,
+    });
+    if (!prepared.success) {
+      return { launched: false, reason: prepared.error, retryAt: null };
+    }
+
+    const executionPrompt = taskDescription
+      ? `${prepared.executionPrompt}\n\nCURRENT TASK: ${taskDescription}`
+      : prepared.executionPrompt;
+
+    try {
+      const { session } = await launchAgentSession({
+        agent,
+        userId: agent.userId,
+        executionPrompt,
+        dailyTaskId: prepared.dailyTaskId,
+        runtimeBudgetMinutes: Math.floor(runtimeRemaining),
+      });
+
+      try {
+        await NotificationService.createNotification({
+          userId: agent.userId,
+          typeKey: 'agent_deployed',
+          metadata: {
+            agentId,
+            agentName: agent.name,
+            scheduled: true,
+          },
+        });
+      } catch (notifError) {
+        console.error('Error creating agent_deployed notification:', notifError);
+      }
+
+      return { launched: true, sessionId: session._id.toString() };
+    } catch (error) {
+      return {
+        launched: false,
+        reason: error instanceof Error ? error.message : 'Failed to queue agent execution',
+        retryAt: new Date(now.getTime() + SCHEDULER_CONFIG.BUSY_RETRY_MS),
+      };
+    }
+  }
+}
+
+const agentSchedulerInstance = new AgentScheduler();
+export default agentSchedulerInstance;
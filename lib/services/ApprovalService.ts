@@ -0,0 +1,193 @@
+import mongoose from 'mongoose';
+import ActionApproval, { IActionApproval, ApprovalReason, ApprovalStatus } from '../models/ActionApproval';
+import AgentSession from '../models/AgentSession';
+import NotificationService from './NotificationService';
+import { APPROVAL_CONFIG } from '@/app/lib/constants';
+
+interface RequestApprovalParams {
+  userId: string;
+  agentId: string;
+  agentName: string;
+  sessionId: string;
+  reason: ApprovalReason;
+  message: string;
+  action: Record<string, unknown>;
+  pageUrl?: string | null;
+  timeoutMinutes?: number | null;
+}
+
+export interface ApprovalResult {
+  status: Exclude<ApprovalStatus, 'pending'>;
+  note: string | null;
+  // How long the session was paused waiting for the decision
+  pausedMs: number;
+}
+
+type ApprovalDecision = Omit<ApprovalResult, 'pausedMs'>;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Human-in-the-loop approvals for sensitive agent actions.
+ *
+ * The worker running a session records the action it is about to take, pauses the
+ * session (paused time is not billed) and waits, polling the action_approvals
+ * collection, until the user approves or rejects it in the UI, the request expires,
+ * or the session is stopped. The session is resumed once the wait ends.
+ */
+class ApprovalService {
+  async requestApproval({
+    userId,
+    agentId,
+    agentName,
+    sessionId,
+    reason,
+    message,
+    action,
+    pageUrl,
+    timeoutMinutes,
+  }: RequestApprovalParams): Promise<ApprovalResult> {
+    const minutes = Math.min(
+      timeoutMinutes || APPROVAL_CONFIG.DEFAULT_TIMEOUT_MINUTES,
+      APPROVAL_CONFIG.MAX_TIMEOUT_MINUTES,
+    );
+
+    const approval = await ActionApproval.create({
+      userId,
+      agentId: new mongoose.Types.ObjectId(agentId),
+      sessionId: new mongoose.Types.ObjectId(sessionId),
+      reason,
+      message,
+      action,
+      pageUrl: pageUrl ?? null,
+      status: 'pending',
+      expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+    });
+
+    // The session is paused for the wait unless the user already paused it
+    const pausedAt = new Date();
+    const paused = await AgentSession.findOneAndUpdate(
+      { _id: sessionId, status: 'running' },
+      { status: 'paused', pausedAt, pendingApprovalId: approval._id },
+    ).exec();
+    if (!paused) {
+      await AgentSession.findByIdAndUpdate(sessionId, { pendingApprovalId: approval._id }).exec();
+    }
+
+    try {
+      await NotificationService.createNotification({
+        userId,
+        typeKey: 'approval_required',
+        metadata: {
+          agentId,
+          agentName,
+          sessionId,
+          approvalId: approval._id.toString(),
+          approvalMessage: message,
+        },
+      });
+    } catch (notifError) {
+      console.error('Error creating approval_required notification:', notifError);
+    }
+
+    console.log(`✋ Waiting up to ${minutes} min for approval ${approval._id}: ${message}`);
+
+    let decision: ApprovalDecision;
+    let resumed = null;
+    try {
+      decision = await this.waitForDecision(approval);
+    } finally {
+      // Resume the pause this approval started; a stopped session stays stopped, and one an
+      // operator took over meanwhile stays paused until it is handed back
+      resumed = paused
+        ? await AgentSession.findOneAndUpdate(
+            { _id: sessionId, status: 'paused', pausedAt, pendingApprovalId: approval._id, controlledBy: { $ne: 'operator' } },
+            {
+              status: 'running',
+              pausedAt: null,
+              pendingApprovalId: null,
+              $inc: { totalPausedMs: Date.now() - pausedAt.getTime() },
+            },
+          ).exec()
+        : null;
+      if (!resumed) {
+        await AgentSession.findOneAndUpdate(
+          { _id: sessionId, pendingApprovalId: approval._id },
+          { pendingApprovalId: null },
+        ).exec();
+      }
+    }
+
+    // A pause that carries on under the operator is accounted for at handback
+    return { ...decision, pausedMs: resumed ? Date.now() - pausedAt.getTime() : 0 };
+  }
+
+  /**
+   * Record the user's decision. Only pending, unexpired approvals can be decided.
+   */
+  async decide(
+    approvalId: string,
+    sessionId: string,
+    userId: string,
+    status: 'approved' | 'rejected',
+    note?: string | null,
+  ): Promise<IActionApproval | null> {
+    return ActionApproval.findOneAndUpdate(
+      { _id: approvalId, sessionId, userId, status: 'pending', expiresAt: { $gt: new Date() } },
+      { status, decidedAt: new Date(), decisionNote: note || null },
+      { new: true },
+    ).exec();
+  }
+
+  async getPendingForSession(sessionId: string, userId: string) {
+    return ActionApproval.find({ sessionId, userId, status: 'pending' })
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+  }
+
+  private async waitForDecision(approval: IActionApproval): Promise<ApprovalDecision> {
+    while (true) {
+      const current = await ActionApproval.findById(approval._id).lean().exec();
+      if (current && current.status !== 'pending') {
+        console.log(`${current.status === 'approved' ? '✅' : '🛑'} Approval ${approval._id} ${current.status}`);
+        return { status: current.status, note: current.decisionNote ?? null };
+      }
+
+      if (Date.now() >= approval.expiresAt.getTime()) {
+        return this.close(approval, 'expired');
+      }
+
+      // A session stopped while waiting no longer needs the decision (a paused one still does)
+      const session = await AgentSession.findById(approval.sessionId).select('status').lean().exec();
+      if (!session || (session.status !== 'running' && session.status !== 'paused')) {
+        return this.close(approval, 'cancelled');
+      }
+
+      await sleep(APPROVAL_CONFIG.POLL_INTERVAL_MS);
+    }
+  }
+
+  private async close(approval: IActionApproval, status: 'expired' | 'cancelled'): Promise<ApprovalDecision> {
+    const closed = await ActionApproval.findOneAndUpdate(
+      { _id: approval._id, status: 'pending' },
+      { status, decidedAt: new Date() },
+      { new: true },
+    ).lean().exec();
+
+    // The user may have decided between the last check and now
+    if (!closed) {
+      const current = await ActionApproval.findById(approval._id).lean().exec();
+      const decided = (current?.status ?? status) as ApprovalDecision['status'];
+      return { status: decided, note: current?.decisionNote ?? null };
+    }
+
+    console.log(`⌛ Approval ${approval._id} ${status}`);
+    return { status, note: null };
+  }
+}
+
+const approvalServiceInstance = new ApprovalService();
+export default approvalServiceInstance;
@@ -0,0 +1,287 @@
+import mongoose from 'mongoose';
+import AgentJob, { IAgentJob } from '../models/AgentJob';
+import AgentSession from '../models/AgentSession';
+import DailyTask from '../models/DailyTask';
+import { JOB_QUEUE_CONFIG } from '@/app/lib/constants';
+
+interface EnqueueJobParams {
+  userId: string;
+  agentId: string;
+  sessionId: string;
+  executionPrompt: string;
+  dailyTaskId?: string | null;
+  runtimeBudgetMinutes?: number | null;
+  runAt?: Date;
+}
+
+export interface RecoveryResult {
+  requeued: number;
+  failed: number;
+  orphanedSessions: number;
+}
+
+/**
+ * Persistent job queue for agent executions, backed by the agent_jobs collection.
+ *
+ * Workers claim a job atomically and hold a lease on it (lockedUntil) that they
+ * renew with heartbeats. A job whose lease expires belongs to a dead worker and
+ * is requeued by recoverStaleJobs() until it runs out of attempts.
+ */
+class JobQueue {
+  private leaseExpiry(): Date {
+    return new Date(Date.now() + JOB_QUEUE_CONFIG.LEASE_DURATION_MS);
+  }
+
+  async enqueue({
+    userId,
+    agentId,
+    sessionId,
+    executionPrompt,
+    dailyTaskId,
+    runtimeBudgetMinutes,
+    runAt,
+  }: EnqueueJobParams) {
+    const job = await AgentJob.create({
+      userId,
+      agentId: new mongoose.Types.ObjectId(agentId),
+      sessionId: new mongoose.Types.ObjectId(sessionId),
+      type: 'agent_execution',
+      payload: {
+        executionPrompt,
+        dailyTaskId: dailyTaskId ?? null,
+        runtimeBudgetMinutes: runtimeBudgetMinutes ?? null,
+      },
+      status: 'queued',
+      maxAttempts: JOB_QUEUE_CONFIG.MAX_ATTEMPTS,
+      runAt: runAt ?? new Date(),
+    });
+
+    console.log(`📥 Enqueued job ${job._id} for session ${sessionId}`);
+    return job;
+  }
+
+  /**
+   * Atomically claim the oldest due job for a worker.
+   * Returns null when the queue is empty.
+   */
+  async claimNext(workerId: string): Promise<IAgentJob | null> {
+    const now = new Date();
+
+    return AgentJob.findOneAndUpdate(
+      { status: 'queued', runAt: { $lte: now } },
+      {
+        $set: {
+          status: 'running',
+          lockedBy: workerId,
+          lockedUntil: this.leaseExpiry(),
+          heartbeatAt: now,
+          startedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1, createdAt: 1 }, new: true }
+    ).exec();
+  }
+
+  /**
+   * Renew the lease on a running job.
+   * Returns false if the worker no longer owns the job (lease lost or job cancelled).
+   */
+  async heartbeat(jobId: mongoose.Types.ObjectId, workerId: string): Promise<boolean> {
+    const job = await AgentJob.findOneAndUpdate(
+      { _id: jobId, status: 'running', lockedBy: workerId },
+      { $set: { lockedUntil: this.leaseExpiry(), heartbeatAt: new Date() } },
+      { new: true }
+    ).exec();
+
+    return !!job;
+  }
+
+  async complete(jobId: mongoose.Types.ObjectId, workerId: string) {
+    return AgentJob.findOneAndUpdate(
+      { _id: jobId, lockedBy: workerId },
+      {
+        $set: {
+          status: 'completed',
+          completedAt: new Date(),
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      },
+      { new: true }
+    ).exec();
+  }
+
+  async fail(jobId: mongoose.Types.ObjectId, workerId: string, error: string) {
+    return AgentJob.findOneAndUpdate(
+      { _id: jobId, lockedBy: workerId },
+      {
+        $set: {
+          status: 'failed',
+          lastError: error,
+          completedAt: new Date(),
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      },
+      { new: true }
+    ).exec();
+  }
+
+  async cancel(jobId: mongoose.Types.ObjectId, reason: string) {
+    return AgentJob.findOneAndUpdate(
+      { _id: jobId, status: { $in: ['queued', 'running'] } },
+      {
+        $set: {
+          status: 'cancelled',
+          lastError: reason,
+          completedAt: new Date(),
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Cancel jobs that have not been picked up yet for a session.
+   * Running jobs are left alone - the worker notices the stopped session itself.
+   */
+  async cancelQueuedForSession(sessionId: string): Promise<number> {
+    const result = await AgentJob.updateMany(
+      { sessionId: new mongoose.Types.ObjectId(sessionId), status: 'queued' },
+      {
+        $set: {
+          status: 'cancelled',
+          lastError: 'Session stopped before execution started',
+          completedAt: new Date(),
+        },
+      }
+    ).exec();
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Requeue jobs whose worker stopped heartbeating and fail those out of attempts.
+   * Also fails running sessions whose jobs have all finished without closing them
+   * (e.g. a worker that crashed between finishing the loop and updating the session).
+   */
+  async recoverStaleJobs(): Promise<RecoveryResult> {
+    const now = new Date();
+    const result: RecoveryResult = { requeued: 0, failed: 0, orphanedSessions: 0 };
+
+    const expiredJobs = await AgentJob.find({
+      status: 'running',
+      lockedUntil: { $lt: now },
+    }).exec();
+
+    for (const job of expiredJobs) {
+      const leaseError = `Worker ${job.lockedBy || 'unknown'} stopped heartbeating (attempt ${job.attempts}/${job.maxAttempts})`;
+
+      if (job.attempts < job.maxAttempts) {
+        // Conditional on the lease still being expired so two sweepers can't both requeue
+        const requeued = await AgentJob.findOneAndUpdate(
+          { _id: job._id, status: 'running', lockedUntil: { $lt: now } },
+          {
+            $set: {
+              status: 'queued',
+              runAt: now,
+              lockedBy: null,
+              lockedUntil: null,
+              lastError: leaseError,
+            },
+          },
+          { new: true }
+        ).exec();
+
+        if (requeued) {
+          result.requeued++;
+          console.warn(`♻️ Requeued job ${job._id} for session ${job.sessionId}: ${leaseError}`);
+        }
+        continue;
+      }
+
+      const failedJob = await AgentJob.findOneAndUpdate(
+        { _id: job._id, status: 'running', lockedUntil: { $lt: now } },
+        {
+          $set: {
+            status: 'failed',
+            completedAt: now,
+            lockedBy: null,
+            lockedUntil: null,
+            lastError: leaseError,
+          },
+        },
+        { new: true }
+      ).exec();
+
+      if (failedJob) {
+        result.failed++;
+        await this.failSession(
+          failedJob.sessionId,
+          'Execution worker stopped unexpectedly and the retry limit was reached. Please try again.',
+          failedJob.payload?.dailyTaskId
+        );
+        console.error(`❌ Job ${job._id} failed permanently: ${leaseError}`);
+      }
+    }
+
+    const orphanCutoff = new Date(now.getTime() - JOB_QUEUE_CONFIG.ORPHANED_SESSION_GRACE_MS);
+    const staleSessions = await AgentSession.find({
+      status: 'running',
+      startedAt: { $lt: orphanCutoff },
+    }).select('_id').lean().exec();
+
+    for (const session of staleSessions) {
+      // Only job-backed sessions are ours to judge; others may be driven by an external executor
+      const jobs = await AgentJob.find({ sessionId: session._id }).select('status').lean().exec();
+      if (jobs.length === 0) continue;
+      if (jobs.some((job) => job.status === 'queued' || job.status === 'running')) continue;
+
+      const orphaned = await this.failSession(
+        session._id,
+        'Execution was interrupted (server restarted or worker stopped). Please try again.'
+      );
+      if (orphaned) {
+        result.orphanedSessions++;
+        console.warn(`🧹 Marked orphaned session ${session._id} as failed`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark a session failed (only if still running or paused) and put its daily task back to pending.
+   */
+  private async failSession(
+    sessionId: mongoose.Types.ObjectId,
+    errorMessage: string,
+    dailyTaskId?: string | null
+  ): Promise<boolean> {
+    const failedSession = await AgentSession.findOneAndUpdate(
+      { _id: sessionId, status: { $in: ['running', 'paused'] } },
+      {
+        status: 'failed',
+        errorMessage,
+        completedAt: new Date(),
+        stopReason: 'worker_lost',
+      },
+      { new: true }
+    ).exec();
+
+    if (failedSession && dailyTaskId) {
+      await DailyTask.findByIdAndUpdate(dailyTaskId, {
+        status: 'pending',
+        error: errorMessage,
+      }).exec();
+    }
+
+    return !!failedSession;
+  }
+}
+
+const jobQueueInstance = new JobQueue();
+export default jobQueueInstance;
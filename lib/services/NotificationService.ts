@@ -38,6 +38,13 @@ export const NOTIFICATION_TYPES: Record<NotificationTypeKey, NotificationTypeCon
     titleTemplate: 'Agent Paused',
     bodyTemplate: '{agentName} has been paused'
   },
+  approval_required: {
+    icon: 'ShieldAlert',
+    category: 'agent',
+    priority: 'critical',
+    titleTemplate: 'Approval Required',
+    bodyTemplate: '{agentName} is waiting for your approval: {approvalMessage}'
+  },
   agent_created: {
     icon: 'PlusCircle',
     category: 'agent',
@@ -0,0 +1,151 @@
+import mongoose from 'mongoose';
+import ExtractedRecord from '../models/ExtractedRecord';
+import type { IAgentRecordStore } from '../models/Agent';
+import { getIdentityKeys, mergeRecordData } from '../utils/record-identity';
+import { RECORD_STORE_CONFIG } from '@/app/lib/constants';
+
+// Attempts per record when another extraction stores or merges the same record at the same time
+const MAX_MERGE_ATTEMPTS = 5;
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+interface MergeExtractionParams {
+  userId: string;
+  agentId: string;
+  sessionId: string;
+  sessionLogId?: string | null;
+  extractionId: string;
+  dataType: string;
+  records: Array<Record<string, unknown>>;
+  extractedAt: Date;
+  policy?: IAgentRecordStore | null;
+}
+
+export interface MergeExtractionResult {
+  // Records seen for the first time
+  created: number;
+  // Records merged into one already in the store (seen in an earlier session or earlier in this extraction)
+  merged: number;
+  // Records without a value for any identity key, not stored
+  unkeyed: number;
+}
+
+/**
+ * The agent's master list of extracted records.
+ *
+ * Every extract_data call is stored as its own ExtractedData document; this service
+ * folds those records into one document per real-world entity, matched on the
+ * agent's identity keys, so a prospect extracted on day 1 and day 3 is one record
+ * seen twice, with links back to both sessions and steps. A unique index on the
+ * identity keys keeps concurrent extractions from storing the same record twice,
+ * and merges are written only against the version they were computed from.
+ */
+class RecordStore {
+  async mergeExtraction({
+    userId,
+    agentId,
+    sessionId,
+    sessionLogId,
+    extractionId,
+    dataType,
+    records,
+    extractedAt,
+    policy,
+  }: MergeExtractionParams): Promise<MergeExtractionResult> {
+    const identityKeys = policy?.identityKeys?.length ? policy.identityKeys : RECORD_STORE_CONFIG.DEFAULT_IDENTITY_KEYS;
+    const mergeStrategy = policy?.mergeStrategy ?? RECORD_STORE_CONFIG.DEFAULT_MERGE_STRATEGY;
+    const agentObjectId = new mongoose.Types.ObjectId(agentId);
+    const source = {
+      sessionId: new mongoose.Types.ObjectId(sessionId),
+      sessionLogId: sessionLogId ? new mongoose.Types.ObjectId(sessionLogId) : null,
+      extractionId: new mongoose.Types.ObjectId(extractionId),
+      extractedAt,
+    };
+    const result: MergeExtractionResult = { created: 0, merged: 0, unkeyed: 0 };
+
+    // One at a time: a record repeated within the extraction must find the one stored just before it
+    for (const record of records) {
+      const keys = getIdentityKeys(record, identityKeys);
+      if (keys.length === 0) {
+        result.unkeyed++;
+        continue;
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        const existing = await ExtractedRecord.findOne({
+          userId,
+          agentId: agentObjectId,
+          dataType,
+          identityKeys: { $in: keys },
+        })
+          .sort({ firstSeenAt: 1 })
+          .select('data sources __v')
+          .lean()
+          .exec();
+
+        if (!existing) {
+          try {
+            await ExtractedRecord.create({
+              userId,
+              agentId: agentObjectId,
+              dataType,
+              identityKeys: keys,
+              data: record,
+              firstSeenAt: extractedAt,
+              lastSeenAt: extractedAt,
+              seenCount: 1,
+              sources: [source],
+            });
+            result.created++;
+            break;
+          } catch (error) {
+            // Stored by a concurrent extraction since the lookup: merge into it instead
+            if (isDuplicateKeyError(error) && attempt < MAX_MERGE_ATTEMPTS) continue;
+            throw error;
+          }
+        }
+
+        // A record seen twice in one step is one sighting
+        const alreadySourced = existing.sources.some((entry) => entry.extractionId.equals(source.extractionId));
+        // The merge is based on the data read above, so it is only written if no other
+        // extraction merged into the record since; otherwise it is read and merged again
+        const unchanged = { _id: existing._id, __v: existing.__v ?? 0 };
+        const update = {
+          $set: {
+            data: mergeRecordData(existing.data, record, mergeStrategy, policy?.fieldStrategies ?? {}),
+          },
+          $max: { lastSeenAt: extractedAt },
+          $inc: { __v: 1, ...(!alreadySourced && { seenCount: 1 }) },
+          ...(!alreadySourced && {
+            $push: { sources: { $each: [source], $slice: -RECORD_STORE_CONFIG.MAX_SOURCES } },
+          }),
+        };
+
+        let written;
+        try {
+          written = await ExtractedRecord.updateOne(
+            unchanged,
+            { ...update, $addToSet: { identityKeys: { $each: keys } } },
+          ).exec();
+        } catch (error) {
+          if (!isDuplicateKeyError(error)) throw error;
+          // One of the keys already identifies another record: merge without taking it over
+          written = await ExtractedRecord.updateOne(unchanged, update).exec();
+        }
+        if (written.matchedCount === 0) {
+          if (attempt < MAX_MERGE_ATTEMPTS) continue;
+          throw new Error(`Record ${existing._id} kept changing while merging extraction ${extractionId}`);
+        }
+        result.merged++;
+        break;
+      }
+    }
+
+    return result;
+  }
+}
+
+const recordStoreInstance = new RecordStore();
+export default recordStoreInstance;
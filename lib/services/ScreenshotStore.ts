@@ -0,0 +1,117 @@
+import sharp from 'sharp';
+import SessionLog from '../models/SessionLog';
+import { getBlobStore } from '../storage/blob-store';
+import { SCREENSHOT_CONFIG } from '@/app/lib/constants';
+
+export interface StoredScreenshot {
+  screenshotUrl: string;
+  screenshotThumbnailUrl: string;
+}
+
+// File names the screenshots route accepts: "<logId>.jpg" and "<logId>-thumb.jpg"
+export const SCREENSHOT_FILE_PATTERN = /^[a-f0-9]{24}(-thumb)?\.jpg$/;
+
+function screenshotKey(sessionId: string, file: string) {
+  return `${sessionId}/${file}`;
+}
+
+function screenshotUrl(sessionId: string, file: string) {
+  return `/api/sessions/${sessionId}/screenshots/${file}`;
+}
+
+/**
+ * Step screenshots for auditing what the agent saw.
+ *
+ * Each screenshot is stored as a JPEG plus a thumbnail in the configured blob store
+ * and linked from its SessionLog. Screenshots past the retention period are removed
+ * by the worker's retention sweep.
+ */
+class ScreenshotStore {
+  /**
+   * Store a step's screenshot (base64 PNG from the browser) and link it from the given logs.
+   * Steps from one model response share the screenshot taken after they ran.
+   */
+  async saveStepScreenshot(sessionId: string, logIds: string[], base64Png: string): Promise<StoredScreenshot | null> {
+    if (!SCREENSHOT_CONFIG.ENABLED || logIds.length === 0) return null;
+
+    const png = Buffer.from(base64Png, 'base64');
+    const [full, thumbnail] = await Promise.all([
+      sharp(png).jpeg({ quality: SCREENSHOT_CONFIG.JPEG_QUALITY }).toBuffer(),
+      sharp(png)
+        .resize({ width: SCREENSHOT_CONFIG.THUMBNAIL_WIDTH, withoutEnlargement: true })
+        .jpeg({ quality: SCREENSHOT_CONFIG.JPEG_QUALITY })
+        .toBuffer(),
+    ]);
+
+    // Named after the first log; the others point at the same files
+    const baseName = logIds[0];
+    const store = getBlobStore();
+    await Promise.all([
+      store.put(screenshotKey(sessionId, `${baseName}.jpg`), full, 'image/jpeg'),
+      store.put(screenshotKey(sessionId, `${baseName}-thumb.jpg`), thumbnail, 'image/jpeg'),
+    ]);
+
+    const stored: StoredScreenshot = {
+      screenshotUrl: screenshotUrl(sessionId, `${baseName}.jpg`),
+      screenshotThumbnailUrl: screenshotUrl(sessionId, `${baseName}-thumb.jpg`),
+    };
+
+    await SessionLog.updateMany(
+      { _id: { $in: logIds } },
+      { $set: { ...stored, screenshotCapturedAt: new Date() } },
+    ).exec();
+
+    return stored;
+  }
+
+  async getScreenshot(sessionId: string, file: string) {
+    if (!SCREENSHOT_FILE_PATTERN.test(file)) return null;
+    return getBlobStore().get(screenshotKey(sessionId, file));
+  }
+
+  /**
+   * Delete screenshots older than the retention period and unlink them from their logs.
+   * Returns the number of logs cleared.
+   */
+  async purgeExpired(): Promise<number> {
+    if (SCREENSHOT_CONFIG.RETENTION_DAYS <= 0) return 0;
+
+    const cutoff = new Date(Date.now() - SCREENSHOT_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const store = getBlobStore();
+    let cleared = 0;
+
+    while (true) {
+      const logs = await SessionLog.find({ screenshotCapturedAt: { $lt: cutoff } })
+        .select('sessionId screenshotUrl screenshotThumbnailUrl')
+        .limit(SCREENSHOT_CONFIG.RETENTION_BATCH_SIZE)
+        .lean()
+        .exec();
+      if (logs.length === 0) break;
+
+      // Logs sharing a screenshot point at the same files
+      const keys = new Set<string>();
+      for (const log of logs) {
+        for (const url of [log.screenshotUrl, log.screenshotThumbnailUrl]) {
+          const file = url?.split('/').pop();
+          if (file && SCREENSHOT_FILE_PATTERN.test(file)) {
+            keys.add(screenshotKey(log.sessionId.toString(), file));
+          }
+        }
+      }
+
+      await store.delete(Array.from(keys));
+      await SessionLog.updateMany(
+        { _id: { $in: logs.map((log) => log._id) } },
+        { $set: { screenshotUrl: null, screenshotThumbnailUrl: null, screenshotCapturedAt: null } },
+      ).exec();
+
+      cleared += logs.length;
+      if (logs.length < SCREENSHOT_CONFIG.RETENTION_BATCH_SIZE) break;
+    }
+
+    return cleared;
+  }
+}
+
+const screenshotStoreInstance = new ScreenshotStore();
+export default screenshotStoreInstance;
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import InferredSelectors from '../models/InferredSelectors';
+import type { ExtractionSelectors, SelectorCache } from './playwright-extractor';
+
+/**
+ * Selectors the extraction model inferred, per agent, site and data type.
+ *
+ * A later smart-mode extraction on the same site replays them in structured mode
+ * instead of calling the model; selectors that stop finding records are dropped
+ * and inferred again.
+ */
+class SelectorCacheService {
+  forAgent(userId: string, agentId: string): SelectorCache {
+    const agentObjectId = new mongoose.Types.ObjectId(agentId);
+
+    return {
+      get: async (site, dataType) => {
+        const cached = await InferredSelectors.findOneAndUpdate(
+          { userId, agentId: agentObjectId, site, dataType },
+          { $inc: { hits: 1 }, $set: { lastUsedAt: new Date() } },
+          { new: true },
+        ).lean().exec();
+        if (!cached) return null;
+        return {
+          container: cached.selectors.container ?? undefined,
+          fields: cached.selectors.fields,
+        };
+      },
+
+      save: async (site, dataType, selectors: ExtractionSelectors, recordCount) => {
+        await InferredSelectors.findOneAndUpdate(
+          { userId, agentId: agentObjectId, site, dataType },
+          {
+            $set: {
+              selectors: { container: selectors.container ?? null, fields: selectors.fields },
+              recordCount,
+              hits: 0,
+              lastUsedAt: new Date(),
+            },
+          },
+          { upsert: true },
+        ).exec();
+      },
+
+      remove: async (site, dataType) => {
+        await InferredSelectors.deleteOne({ userId, agentId: agentObjectId, site, dataType }).exec();
+      },
+    };
+  }
+}
+
+const selectorCacheServiceInstance = new SelectorCacheService();
+export default selectorCacheServiceInstance;
@@ -0,0 +1,326 @@
+import mongoose from 'mongoose';
+import { EventEmitter } from 'events';
+import type { ChangeStream, ChangeStreamDocument, Document as MongoDocument } from 'mongodb';
+import AgentSession, { IAgentSession, IPlanProgress } from '../models/AgentSession';
+import SessionLog from '../models/SessionLog';
+import ExtractedData from '../models/ExtractedData';
+import CreditsHistory from '../models/CreditsHistory';
+import { SESSION_EVENTS_CONFIG } from '@/app/lib/constants';
+
+export interface SessionLogEvent {
+  id: string;
+  stepNumber: number;
+  tool: string;
+  instruction: string;
+  reasoning?: string | null;
+  screenshotUrl?: string | null;
+  screenshotThumbnailUrl?: string | null;
+  extractedData?: { dataType: string; totalCount: number } | null;
+  timestamp: Date;
+}
+
+export interface SessionStatusEvent {
+  status: IAgentSession['status'];
+  controlledBy: IAgentSession['controlledBy'];
+  pendingApprovalId: string | null;
+  totalSteps: number;
+  summary: string | null;
+  sessionOutcome: string | null;
+  errorMessage: string | null;
+  completedAt: Date | null;
+  planProgress: IPlanProgress | null;
+  stopReason: IAgentSession['stopReason'];
+}
+
+export interface SessionScreenshotEvent {
+  logId: string;
+  screenshotUrl: string;
+  screenshotThumbnailUrl: string | null;
+}
+
+export interface SessionExtractionEvent {
+  id: string;
+  dataType: string;
+  totalCount: number;
+  extractedAt: Date;
+}
+
+export interface SessionCreditsEvent {
+  id: string;
+  delta: number;
+  balanceAfter: number;
+  reason: string;
+  createdAt: Date;
+}
+
+export type SessionEvent =
+  | { type: 'log'; id: string; data: SessionLogEvent }
+  | { type: 'status'; data: SessionStatusEvent }
+  | { type: 'screenshot'; data: SessionScreenshotEvent }
+  | { type: 'extraction'; data: SessionExtractionEvent }
+  | { type: 'credits'; data: SessionCreditsEvent }
+  | { type: 'end'; data: { status: IAgentSession['status'] } };
+
+export interface StreamSessionParams {
+  sessionId: string;
+  userId: string;
+  // Resume after this log (the SSE Last-Event-ID)
+  afterLogId?: string | null;
+  // Resume from this step number (inclusive)
+  fromStep?: number | null;
+  signal: AbortSignal;
+}
+
+const ACTIVE_STATUSES: IAgentSession['status'][] = ['running', 'paused'];
+
+// Collections whose changes belong to a session, keyed to the field holding the session id
+const WATCHED_COLLECTIONS: Record<string, 'sessionId' | '_id'> = {
+  session_logs: 'sessionId',
+  agent_sessions: '_id',
+  extracted_data: 'sessionId',
+  credits_history: 'sessionId',
+};
+
+/**
+ * Live events for a session: step logs, status transitions, extractions and credit deductions.
+ *
+ * The worker writing a session is usually a different process, so events are read
+ * back from the database. Each stream keeps a cursor per collection and re-queries
+ * when a MongoDB change stream reports a change for its session. On a standalone
+ * MongoDB (no change streams) streams fall back to polling.
+ */
+class SessionEventService {
+  private bus = new EventEmitter();
+  private changeStream: ChangeStream | null = null;
+  private changeStreamsSupported = true;
+
+  constructor() {
+    // One listener per open stream
+    this.bus.setMaxListeners(0);
+  }
+
+  /**
+   * Send the session's events until it ends or the signal aborts.
+   */
+  async stream(
+    { sessionId, userId, afterLogId, fromStep, signal }: StreamSessionParams,
+    send: (event: SessionEvent) => void,
+  ): Promise<void> {
+    const sessionObjectId = new mongoose.Types.ObjectId(sessionId);
+    const seenExtractions = new Set<string>();
+    const seenCredits = new Set<string>();
+    let lastLogId: mongoose.Types.ObjectId | null =
+      afterLogId && mongoose.Types.ObjectId.isValid(afterLogId) ? new mongoose.Types.ObjectId(afterLogId) : null;
+    let lastStatusKey: string | null = null;
+    // Screenshots are attached to logs after the step runs
+    let lastScreenshotAt = new Date();
+    let endedAt: number | null = null;
+
+    this.ensureChangeStream();
+
+    let wake: (() => void) | null = null;
+    const onChange = () => wake?.();
+    const onAbort = () => wake?.();
+    this.bus.on(sessionId, onChange);
+    signal.addEventListener('abort', onAbort);
+
+    try {
+      while (!signal.aborted) {
+        const session = await AgentSession.findOne({ _id: sessionObjectId, userId })
+          .select('status controlledBy pendingApprovalId totalSteps summary sessionOutcome errorMessage completedAt planProgress stopReason')
+          .lean()
+          .exec();
+        if (!session) return;
+
+        const logQuery: Record<string, unknown> = { sessionId: sessionObjectId, userId };
+        if (lastLogId) {
+          logQuery._id = { $gt: lastLogId };
+        } else if (fromStep != null) {
+          logQuery.stepNumber = { $gte: fromStep };
+        }
+
+        const [logs, screenshots, extractions, credits] = await Promise.all([
+          SessionLog.find(logQuery).sort({ _id: 1 }).limit(SESSION_EVENTS_CONFIG.MAX_LOGS_PER_READ).lean().exec(),
+          SessionLog.find({ sessionId: sessionObjectId, userId, screenshotCapturedAt: { $gt: lastScreenshotAt } })
+            .select('screenshotUrl screenshotThumbnailUrl screenshotCapturedAt')
+            .sort({ screenshotCapturedAt: 1 })
+            .lean()
+            .exec(),
+          ExtractedData.find({ sessionId: sessionObjectId, userId })
+            .select('dataType totalCount extractedAt')
+            .sort({ _id: 1 })
+            .lean()
+            .exec(),
+          CreditsHistory.find({ sessionId: sessionObjectId, userId }).sort({ _id: 1 }).lean().exec(),
+        ]);
+
+        for (const log of logs) {
+          lastLogId = log._id;
+          send({
+            type: 'log',
+            id: log._id.toString(),
+            data: {
+              id: log._id.toString(),
+              stepNumber: log.stepNumber,
+              tool: log.tool,
+              instruction: log.instruction,
+              reasoning: log.reasoning ?? null,
+              screenshotUrl: log.screenshotUrl ?? null,
+              screenshotThumbnailUrl: log.screenshotThumbnailUrl ?? null,
+              extractedData: log.extractedData
+                ? { dataType: log.extractedData.dataType, totalCount: log.extractedData.totalCount }
+                : null,
+              timestamp: log.timestamp,
+            },
+          });
+        }
+
+        for (const log of screenshots) {
+          if (log.screenshotCapturedAt && log.screenshotCapturedAt > lastScreenshotAt) {
+            lastScreenshotAt = log.screenshotCapturedAt;
+          }
+          // Logs not sent yet carry their screenshot in the log event
+          if (!log.screenshotUrl || !lastLogId || log._id.toString() > lastLogId.toString()) continue;
+          send({
+            type: 'screenshot',
+            data: {
+              logId: log._id.toString(),
+              screenshotUrl: log.screenshotUrl,
+              screenshotThumbnailUrl: log.screenshotThumbnailUrl ?? null,
+            },
+          });
+        }
+
+        for (const extraction of extractions) {
+          const id = extraction._id.toString();
+          if (seenExtractions.has(id)) continue;
+          seenExtractions.add(id);
+          send({
+            type: 'extraction',
+            data: { id, dataType: extraction.dataType, totalCount: extraction.totalCount, extractedAt: extraction.extractedAt },
+          });
+        }
+
+        for (const entry of credits) {
+          const id = entry._id.toString();
+          if (seenCredits.has(id)) continue;
+          seenCredits.add(id);
+          send({
+            type: 'credits',
+            data: { id, delta: entry.delta, balanceAfter: entry.balanceAfter, reason: entry.reason, createdAt: entry.createdAt },
+          });
+        }
+
+        const status: SessionStatusEvent = {
+          status: session.status,
+          controlledBy: session.controlledBy ?? 'agent',
+          pendingApprovalId: session.pendingApprovalId?.toString() ?? null,
+          totalSteps: session.totalSteps,
+          summary: session.summary ?? null,
+          sessionOutcome: session.sessionOutcome ?? null,
+          errorMessage: session.errorMessage ?? null,
+          completedAt: session.completedAt ?? null,
+          planProgress: session.planProgress ?? null,
+          stopReason: session.stopReason ?? null,
+        };
+        const statusKey = JSON.stringify(status);
+        if (statusKey !== lastStatusKey) {
+          lastStatusKey = statusKey;
+          send({ type: 'status', data: status });
+        }
+
+        // A full page of logs means there are more to read right away
+        if (logs.length === SESSION_EVENTS_CONFIG.MAX_LOGS_PER_READ) continue;
+
+        // The worker writes the last logs and deducts credits just after the session ends
+        if (!ACTIVE_STATUSES.includes(session.status)) {
+          endedAt ??= Date.now();
+          if (Date.now() - endedAt >= SESSION_EVENTS_CONFIG.END_GRACE_MS) {
+            send({ type: 'end', data: { status: session.status } });
+            return;
+          }
+        }
+
+        const interval = endedAt
+          ? SESSION_EVENTS_CONFIG.END_GRACE_MS
+          : this.changeStreamsSupported
+            ? SESSION_EVENTS_CONFIG.WATCH_POLL_INTERVAL_MS
+            : SESSION_EVENTS_CONFIG.POLL_INTERVAL_MS;
+
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(done, interval);
+          function done() {
+            clearTimeout(timer);
+            wake = null;
+            resolve();
+          }
+          wake = done;
+        });
+      }
+    } finally {
+      this.bus.off(sessionId, onChange);
+      signal.removeEventListener('abort', onAbort);
+      this.releaseChangeStream();
+    }
+  }
+
+  /**
+   * Open the shared change stream on first use. Falls back to polling when the
+   * deployment does not support change streams.
+   */
+  private ensureChangeStream() {
+    if (this.changeStream || !this.changeStreamsSupported) return;
+
+    try {
+      this.changeStream = mongoose.connection.watch(
+        [{ $match: { 'ns.coll': { $in: Object.keys(WATCHED_COLLECTIONS) } } }],
+        { fullDocument: 'default' },
+      );
+    } catch (error) {
+      this.disableChangeStreams(error);
+      return;
+    }
+
+    this.changeStream.on('change', (change: ChangeStreamDocument<MongoDocument>) => {
+      const sessionId = this.getSessionId(change);
+      if (sessionId) this.bus.emit(sessionId);
+    });
+    this.changeStream.on('error', (error) => this.disableChangeStreams(error));
+  }
+
+  private getSessionId(change: ChangeStreamDocument<MongoDocument>): string | null {
+    if (!('ns' in change) || !change.ns || !('coll' in change.ns)) return null;
+    const field = WATCHED_COLLECTIONS[change.ns.coll as string];
+    if (!field) return null;
+
+    if (field === '_id') {
+      return 'documentKey' in change ? String(change.documentKey._id) : null;
+    }
+    // Only inserts carry the full document; logs, extractions and credit entries are never updated
+    if (change.operationType === 'insert') {
+      const sessionId = change.fullDocument?.sessionId;
+      return sessionId ? String(sessionId) : null;
+    }
+    return null;
+  }
+
+  private disableChangeStreams(error: unknown) {
+    if (this.changeStreamsSupported) {
+      console.warn('⚠️ MongoDB change streams unavailable, session events fall back to polling:', (error as Error)?.message ?? error);
+    }
+    this.changeStreamsSupported = false;
+    this.changeStream?.close().catch(() => {});
+    this.changeStream = null;
+  }
+
+  private releaseChangeStream() {
+    // Close the shared stream once the last listener is gone
+    if (this.changeStream && this.bus.eventNames().length === 0) {
+      this.changeStream.close().catch(() => {});
+      this.changeStream = null;
+    }
+  }
+}
+
+const sessionEventServiceInstance = new SessionEventService();
+export default sessionEventServiceInstance;
@@ -0,0 +1,1566 @@
+import mongoose from 'mongoose';
+import { Agent as AgentModel, AgentSession, SessionLog, DailyTask, ExtractedData, ExtractionSchema } from "@/server/db";
+import { Agent as CUAAgent, PLAN_PROGRESS_TOOL } from "@/app/api/cua/agent/agent";
+import { createModelProvider } from "@/app/api/cua/agent/providers";
+import { createBrowser, resolveBrowserBackend } from "@/app/api/cua/agent/browser_factory";
+import { evaluateApprovalPolicy } from "@/app/api/cua/agent/approval_policy";
+import { buildNavigationPolicy } from "@/app/api/cua/agent/navigation_policy";
+import type { ActionApprovalCallback } from "@/app/api/cua/agent/agent";
+import ApprovalService, { ApprovalResult } from "@/lib/services/ApprovalService";
+import ScreenshotStore from "@/lib/services/ScreenshotStore";
+import RecordStore from "@/lib/services/RecordStore";
+import SelectorCache from "@/lib/services/SelectorCache";
+import type { BasePlaywrightComputer } from "@/app/api/cua/agent/base_playwright";
+import { decryptCredentials } from "@/app/lib/encryption";
+import type { Item } from "@/app/api/cua/agent/types";
+import type { IAgent, IAgentApprovalPolicy, IAgentBrowserConfig, IAgentExecutionBudget, IAgentModelConfig, IAgentNavigationPolicy, IAgentRecordStore, IAgentRetryPolicy, SessionStopReason } from "@/lib/models";
+import {
+  formatActionText,
+  formatToolBadge,
+} from "@/app/lib/action-formatter";
+import { generateDetailedReasoning } from "@/app/utils/stepFormatter";
+import { extractReasoningForAction } from "@/lib/utils/reasoning-extractor";
+import { deductCredits, calculateSessionMinutes, getSessionPausedMs } from "@/app/lib/credits";
+import { CREDITS_CONFIG, PAUSE_CONFIG, SCREENSHOT_CONFIG } from "@/app/lib/constants";
+import { taskPlanner } from "@/app/api/cua/agent/task_planner";
+import { sessionStateManager } from "@/app/api/cua/agent/session_state";
+import { StallGuard, type StallCheckResult } from "@/app/api/cua/agent/stall_guard";
+import { HALLUCINATION_CONFIG, STALL_FAILURE_MESSAGES } from "@/app/api/cua/agent/config";
+import { compareScreenshots, fingerprintScreenshot } from "@/app/api/cua/agent/visual_diff";
+import { checkBudgets, describeBudget, getWindDownPrompt, resolveBudgetLimits, type BudgetKind, type BudgetUsage } from "@/app/api/cua/agent/execution_budget";
+import { getOptimalBrowserbaseRegion } from "@/lib/utils/region-selector";
+import { generateSessionOutcome } from "@/lib/utils/session-summarizer";
+import { classifyFailure } from "@/lib/utils/stop-reason";
+import { classifyError, withRetryNote } from "@/lib/utils/error-classifier";
+import { retryFailedSession } from "@/lib/services/agent-launcher";
+import type { ExtractionSchemaDefinition } from "@/lib/utils/extraction-schema";
+
+export interface AgentData {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  targetWebsite?: string | null;
+  authCredentials?: unknown;
+  knowledgeBase?: string | null;
+  userExpectations?: string | null;
+  isDeployed: boolean | null;
+  description?: string | null;
+  modelConfig?: IAgentModelConfig | null;
+  browserConfig?: IAgentBrowserConfig | null;
+  approvalPolicy?: IAgentApprovalPolicy | null;
+  platforms?: string[];
+  navigationPolicy?: IAgentNavigationPolicy | null;
+  executionBudget?: IAgentExecutionBudget | null;
+  retryPolicy?: IAgentRetryPolicy | null;
+  recordStore?: IAgentRecordStore | null;
+}
+
+type AgentFields = Pick<
+  IAgent,
+  | "_id"
+  | "name"
+  | "systemPrompt"
+  | "targetWebsite"
+  | "authCredentials"
+  | "knowledgeBase"
+  | "userExpectations"
+  | "isDeployed"
+  | "description"
+  | "modelConfig"
+  | "browserConfig"
+  | "approvalPolicy"
+  | "platforms"
+  | "navigationPolicy"
+  | "executionBudget"
+  | "retryPolicy"
+  | "recordStore"
+>;
+
+// Build the executor's view of an agent document (full or lean)
+export function toAgentData(agent: AgentFields): AgentData {
+  return {
+    id: agent._id.toString(),
+    name: agent.name,
+    systemPrompt: agent.systemPrompt,
+    targetWebsite: agent.targetWebsite,
+    authCredentials: agent.authCredentials,
+    knowledgeBase: agent.knowledgeBase,
+    userExpectations: agent.userExpectations,
+    isDeployed: agent.isDeployed,
+    description: agent.description,
+    modelConfig: agent.modelConfig,
+    browserConfig: agent.browserConfig,
+    approvalPolicy: agent.approvalPolicy,
+    platforms: agent.platforms,
+    navigationPolicy: agent.navigationPolicy,
+    executionBudget: agent.executionBudget,
+    retryPolicy: agent.retryPolicy,
+    recordStore: agent.recordStore,
+  };
+}
+
+interface Message {
+  role: "user" | "system" | "assistant" | "developer";
+  content: string;
+}
+
+// Helper function to extract platform name from agent configuration
+function extractPlatformName(agent: AgentData): string | null {
+  // Try to extract from targetWebsite first
+  if (agent.targetWebsite) {
+    const website = agent.targetWebsite.toLowerCase();
+    if (website.includes('linkedin')) return 'linkedin';
+    if (website.includes('twitter') || website.includes('x.com')) return 'twitter';
+    if (website.includes('google')) return 'google';
+    if (website.includes('facebook')) return 'facebook';
+    if (website.includes('reddit')) return 'reddit';
+    if (website.includes('instagram')) return 'instagram';
+    if (website.includes('salesforce')) return 'salesforce';
+    if (website.includes('slack')) return 'slack';
+  }
+
+  // Fallback: extract from authCredentials field names
+  const authCreds = agent.authCredentials as
+    | { customFields?: string | Record<string, string> }
+    | null
+    | undefined;
+  
+  if (authCreds?.customFields && typeof authCreds.customFields === 'object') {
+    const credKeys = Object.keys(authCreds.customFields);
+    for (const key of credKeys) {
+      const lowerKey = key.toLowerCase();
+      if (lowerKey.startsWith('linkedin_')) return 'linkedin';
+      if (lowerKey.startsWith('twitter_')) return 'twitter';
+      if (lowerKey.startsWith('google_')) return 'google';
+      if (lowerKey.startsWith('facebook_')) return 'facebook';
+      if (lowerKey.startsWith('reddit_')) return 'reddit';
+      if (lowerKey.startsWith('instagram_')) return 'instagram';
+      if (lowerKey.startsWith('salesforce_')) return 'salesforce';
+      if (lowerKey.startsWith('slack_')) return 'slack';
+    }
+  }
+
+  return null;
+}
+
+// Helper function to substitute credential placeholders in execution prompts
+function substituteCredentials(
+  prompt: string,
+  credentials: Record<string, string>,
+): string {
+  let substitutedPrompt = prompt;
+
+  // Common credential placeholder patterns to substitute
+  const placeholderPatterns = [
+    { regex: /\{linkedin_email\}/gi, key: "linkedin_email" },
+    { regex: /\{linkedin_password\}/gi, key: "linkedin_password" },
+    { regex: /\{twitter_username\}/gi, key: "twitter_username" },
+    { regex: /\{twitter_password\}/gi, key: "twitter_password" },
+    { regex: /\{google_email\}/gi, key: "google_email" },
+    { regex: /\{google_password\}/gi, key: "google_password" },
+    { regex: /\{email\}/gi, key: "email" },
+    { regex: /\{password\}/gi, key: "password" },
+    { regex: /\{username\}/gi, key: "username" },
+  ];
+
+  // Track which credentials were actually needed
+  const missingCredentials: string[] = [];
+
+  for (const pattern of placeholderPatterns) {
+    if (substitutedPrompt.match(pattern.regex)) {
+      const credentialValue = credentials[pattern.key];
+      if (!credentialValue) {
+        missingCredentials.push(pattern.key);
+      } else {
+        substitutedPrompt = substitutedPrompt.replace(
+          pattern.regex,
+          credentialValue,
+        );
+      }
+    }
+  }
+
+  // If critical credentials are missing, throw error
+  if (missingCredentials.length > 0) {
+    throw new Error(
+      `Missing required credentials for execution: ${missingCredentials.join(", ")}. ` +
+        `The execution prompt requires these credentials but they were not provided.`,
+    );
+  }
+
+  return substitutedPrompt;
+}
+
+interface ResumeResult {
+  // Session status once the pause ended ("running" when resumed, "expired" when paused too long)
+  status: string;
+  pausedMs: number;
+  instruction: string | null;
+  // Set when an operator had taken over the browser ("" = handed back without a note)
+  handbackNote: string | null;
+}
+
+// Hold a paused (or operator-controlled) session until it is resumed, stopped or paused for too long.
+// The caller keeps the browser, conversation cursor and mission memory in memory meanwhile.
+async function waitForResume(sessionId: string): Promise<ResumeResult> {
+  const pauseStarted = Date.now();
+
+  while (true) {
+    await new Promise((resolve) => setTimeout(resolve, PAUSE_CONFIG.POLL_INTERVAL_MS));
+
+    const session = await AgentSession.findById(sessionId).select("status pausedAt").lean().exec();
+    if (!session || session.status !== "paused") {
+      // Take the resume instruction / handback note so they are only delivered once
+      const resumed = session?.status === "running"
+        ? await AgentSession.findOneAndUpdate(
+            { _id: sessionId, $or: [{ resumeInstruction: { $ne: null } }, { handbackNote: { $ne: null } }] },
+            { resumeInstruction: null, handbackNote: null },
+          ).select("resumeInstruction handbackNote").lean().exec()
+        : null;
+
+      return {
+        status: session?.status || "deleted",
+        pausedMs: Date.now() - pauseStarted,
+        instruction: resumed?.resumeInstruction ?? null,
+        handbackNote: resumed?.handbackNote ?? null,
+      };
+    }
+
+    const pausedAt = session.pausedAt?.getTime() ?? pauseStarted;
+    if (Date.now() - pausedAt >= PAUSE_CONFIG.MAX_PAUSE_MINUTES * 60 * 1000) {
+      // Resume it ourselves so the session can be closed out like any other stop
+      // (operator time is billed, so only an actual pause is added to totalPausedMs)
+      await AgentSession.findOneAndUpdate(
+        { _id: sessionId, status: "paused" },
+        {
+          status: "running",
+          pausedAt: null,
+          controlledBy: "agent",
+          takeoverAt: null,
+          $inc: { totalPausedMs: session.pausedAt ? Date.now() - pausedAt : 0 },
+        },
+      ).exec();
+      return { status: "expired", pausedMs: Date.now() - pauseStarted, instruction: null, handbackNote: null };
+    }
+  }
+}
+
+export interface ExecutionOptions {
+  // Minutes this run may use before winding down (scheduled runs only - remaining daily runtime)
+  runtimeBudgetMinutes?: number | null;
+  // Computer to drive instead of a new Browserbase session (offline replay uses local Chromium)
+  computer?: BasePlaywrightComputer;
+  // Called when the session starts (true) and stops (false) waiting for an approval decision
+  onApprovalWait?: (waiting: boolean) => void;
+  // Aborted by the worker when it loses its lease on the job: another worker may be running the
+  // session by then, so the run stops without writing the session's outcome or charging credits
+  signal?: AbortSignal;
+  // Offline replay (npm run replay): runs whether or not the agent is deployed, and is neither billed nor retried
+  replay?: boolean;
+}
+
+const LEASE_LOST_MESSAGE = "Execution stopped: the worker lost its lease on the job";
+
+/**
+ * Execute agent using pre-generated execution prompt.
+ * Runs the full CUA loop for one AgentSession; called by the job worker, never inside a request.
+ */
+export async function executeWithExecutionPrompt(
+  agentId: string,
+  sessionId: string,
+  executionPrompt: string,
+  agent: AgentData,
+  dailyTaskId: string | undefined,
+  userId: string,
+  options: ExecutionOptions = {},
+) {
+  let browser: BasePlaywrightComputer | null = null;
+  let runtimeDeadline = options.runtimeBudgetMinutes
+    ? Date.now() + options.runtimeBudgetMinutes * 60 * 1000
+    : null;
+  // Recorded on the session when it ends (null at the end of the loop = the model finished)
+  let stopReason: SessionStopReason | null = null;
+  let stopDetail: string | null = null;
+
+  try {
+    // Auto-select optimal Browserbase region based on timezone
+    const optimalRegion = getOptimalBrowserbaseRegion();
+    
+    // Extract platform for context persistence
+    const platform = extractPlatformName(agent);
+    if (platform) {
+      console.log(`🔐 Platform detected: ${platform} - context persistence enabled`);
+    }
+    
+    // Initialize the agent's browser (Browserbase or local Chromium) with context persistence support
+    const backend = options.computer ? "provided" : resolveBrowserBackend(agent.browserConfig);
+    browser = options.computer ?? createBrowser({
+      agentId,
+      userId,
+      platform,
+      region: optimalRegion,
+      browserConfig: agent.browserConfig,
+    });
+
+    console.log(`🌐 Connecting to browser (${backend})...`);
+    console.log("🧠 Generating browser steps in parallel (no latency penalty)...");
+    
+    // A job re-run after its worker died continues with the mission memory it left in the state store
+    const restoredPlan = await sessionStateManager.load(sessionId)
+      ? (await sessionStateManager.getMissionMemory(sessionId))?.currentPlan ?? null
+      : null;
+    if (restoredPlan?.length) {
+      console.log(`♻️ Restored mission memory for session ${sessionId} (${restoredPlan.length} plan steps)`);
+    }
+
+    // === MISSION MEMORY: PARALLEL EXECUTION ===
+    // Generate browser steps in parallel with browser connection
+    // This adds ZERO latency to session startup
+    const [, browserSteps] = await Promise.all([
+      browser.connect(),
+      restoredPlan?.length
+        ? Promise.resolve(restoredPlan)
+        : taskPlanner.generateBrowserSteps(executionPrompt, agentId, platform, userId)
+    ]);
+    
+    console.log("✅ Browser connection initiated");
+    console.log(`✅ Generated ${browserSteps.length} browser steps`);
+
+    // CRITICAL: Verify browser is fully ready before proceeding
+    // Browserbase can take 30-60+ seconds to provision a session
+    const browserSessionId = browser.browserSessionId;
+
+    if (!browserSessionId) {
+      throw new Error(
+        "Failed to establish browser session - no session ID returned",
+      );
+    }
+
+    // Store browser session ID in database
+    await AgentSession.findByIdAndUpdate(new mongoose.Types.ObjectId(sessionId), { browserSessionId });
+
+    // Wait for browser to be fully ready by taking a test screenshot
+    console.log("⏳ Verifying browser readiness...");
+    const maxReadinessWait = 90000; // 90 seconds max wait (Browserbase can take 60+ seconds)
+    const readinessStart = Date.now();
+    let browserReady = false;
+    let retryDelay = 2000; // Start with 2 second delays
+
+    while (Date.now() - readinessStart < maxReadinessWait) {
+      try {
+        // Attempt a screenshot to verify browser is responsive
+        await browser.screenshot();
+        browserReady = true;
+        const elapsedSeconds = Math.floor((Date.now() - readinessStart) / 1000);
+        console.log(
+          `✅ Browser is ready and responsive (took ${elapsedSeconds}s)`,
+        );
+        break;
+      } catch {
+        // Browser not ready yet, wait and retry with progressive backoff
+        const elapsedSeconds = Math.floor((Date.now() - readinessStart) / 1000);
+        console.log(
+          `⏳ Browser not ready yet, waiting... (${elapsedSeconds}s elapsed)`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, retryDelay));
+
+        // Progressive backoff: increase delay after 30 seconds
+        if (elapsedSeconds > 30 && retryDelay < 5000) {
+          retryDelay = 5000; // Increase to 5 seconds after 30s
+          console.log("⏱️ Switching to 5-second check interval");
+        }
+      }
+    }
+
+    if (!browserReady) {
+      throw new Error(
+        "Browser failed to become ready within 90 seconds. Browserbase may be experiencing delays. Please try again.",
+      );
+    }
+
+    // Restrict where the browser may go (allowlist, deny patterns, downloads)
+    const navigationPolicy = buildNavigationPolicy(agent);
+    await browser.setNavigationPolicy(navigationPolicy);
+    if (navigationPolicy?.allowedDomains) {
+      console.log(`🧭 Navigation limited to: ${navigationPolicy.allowedDomains.join(", ")}`);
+    }
+
+    // Selectors inferred by smart extraction are reused on this agent's later runs
+    browser.setSelectorCache(SelectorCache.forAgent(userId, agentId));
+
+    // Initialize CUA agent with sessionId for mission memory, driven by the agent's chosen model provider
+    const modelProvider = createModelProvider(agent.modelConfig, userId);
+    console.log(`🤖 Model provider: ${modelProvider.name} (${modelProvider.model})`);
+    // Sensitive actions wait for the user's decision when the agent has an approval policy
+    const connectedBrowser = browser;
+    const approvalCallback: ActionApprovalCallback = async (item, previousAction) => {
+      const check = evaluateApprovalPolicy(agent.approvalPolicy, item, {
+        currentUrl: connectedBrowser.currentUrl,
+        previousAction,
+      });
+      if (!check) return { approved: true };
+
+      // The session is paused while it waits, so the worker can run other jobs meanwhile
+      options.onApprovalWait?.(true);
+      let result: ApprovalResult;
+      try {
+        result = await ApprovalService.requestApproval({
+          userId,
+          agentId,
+          agentName: agent.name,
+          sessionId,
+          reason: check.reason,
+          message: check.message,
+          // Typed text may be a password or card number and is not stored with the request
+          action: item.type === "computer_call"
+            ? { ...item.action, ...(item.action.type === "type" && { text: "[redacted]" }), pendingSafetyChecks: item.pending_safety_checks }
+            : { name: item.name, args: item.arguments },
+          pageUrl: connectedBrowser.currentUrl,
+          timeoutMinutes: agent.approvalPolicy?.timeoutMinutes,
+        });
+      } finally {
+        options.onApprovalWait?.(false);
+      }
+
+      // Paused time counts against neither budget
+      budgetPausedMs += result.pausedMs;
+      if (runtimeDeadline) runtimeDeadline += result.pausedMs;
+
+      if (result.status === "approved") return { approved: true };
+      return {
+        approved: false,
+        message: `Action ${result.status === "rejected" ? "rejected by user" : result.status === "expired" ? "not approved in time" : "cancelled"}: ${check.message}${result.note ? ` (${result.note})` : ""}`,
+      };
+    };
+
+    // Typed schemas extract_data can validate records against
+    const extractionSchemas: ExtractionSchemaDefinition[] = (
+      await ExtractionSchema.find({ agentId, userId }).lean().exec()
+    ).map((schema) => ({
+      id: schema._id.toString(),
+      name: schema.name,
+      description: schema.description,
+      fields: schema.fields,
+    }));
+
+    const cuaAgent = new CUAAgent(
+      modelProvider.model,
+      browser,
+      () => true,
+      sessionId,
+      modelProvider,
+      approvalCallback,
+      extractionSchemas,
+    );
+    
+    // === MISSION MEMORY: INITIALIZE ===
+    // Set up mission memory with original goal and generated plan
+    const originalGoal = executionPrompt.substring(0, 300); // Use first 300 chars as goal summary
+    if (!restoredPlan?.length) {
+      await sessionStateManager.setMissionMemory(sessionId, originalGoal, browserSteps);
+    }
+
+    // Persist the plan checklist so the UI can follow progress (the model reports it via update_plan_progress)
+    let lastPlanProgressKey: string | null = null;
+    const persistPlanProgress = async () => {
+      const planProgress = await sessionStateManager.getPlanProgress(sessionId);
+      const progressKey = JSON.stringify(planProgress);
+      if (progressKey === lastPlanProgressKey) return;
+      lastPlanProgressKey = progressKey;
+      try {
+        await AgentSession.findByIdAndUpdate(sessionId, { $set: { planProgress } });
+      } catch (progressError) {
+        console.warn("Failed to persist plan progress:", progressError);
+      }
+    };
+    await persistPlanProgress();
+    
+    console.log('\n' + '='.repeat(80));
+    console.log('📋 MISSION MEMORY INITIALIZED');
+    console.log('='.repeat(80));
+    console.log(`Session: ${sessionId}`);
+    console.log(`Goal: ${originalGoal}`);
+    console.log(`\n📝 TASK PLAN (${browserSteps.length} steps):`);
+    browserSteps.forEach((step, idx) => {
+      console.log(`   ${idx + 1}. ${step}`);
+    });
+    console.log('='.repeat(80) + '\n');
+
+    // Fetch previous day's outcomes for context (if this is a daily task)
+    let previousDaysContext = "";
+    if (dailyTaskId) {
+      const completedTasks = await DailyTask.find({
+        agentId,
+        userId,
+        status: "completed"
+      }).sort({ dayNumber: 1 });
+
+      if (completedTasks.length > 0) {
+        previousDaysContext =
+          "\n\n📊 PREVIOUS DAYS OUTCOMES (use this context to inform today's actions):\n\n";
+        completedTasks.forEach((task) => {
+          previousDaysContext += `Day ${task.dayNumber} Results:\n`;
+          if (task.outcomes) {
+            const outcomes = task.outcomes as Record<string, unknown>;
+            previousDaysContext += `- Actions taken: ${(outcomes.actions as string[] | undefined)?.join(", ") || "N/A"}\n`;
+            previousDaysContext += `- URLs visited: ${(outcomes.urlsVisited as string[] | undefined)?.join(", ") || "N/A"}\n`;
+            previousDaysContext += `- Summary: ${(outcomes.summary as string) || "N/A"}\n`;
+          }
+          previousDaysContext += "\n";
+        });
+      }
+    }
+
+    // Decrypt credentials if they exist
+    let credentialsText = "No credentials provided";
+    let decryptedCreds: Record<string, string> = {};
+
+    const authCreds = agent.authCredentials as
+      | { customFields?: string | Record<string, string> }
+      | null
+      | undefined;
+    if (authCreds?.customFields) {
+      try {
+        const encryptedFields = authCreds.customFields;
+        if (typeof encryptedFields === "string") {
+          decryptedCreds = decryptCredentials(encryptedFields);
+          credentialsText = Object.entries(decryptedCreds)
+            .map(([key, value]) => `${key}: ${value}`)
+            .join("\n");
+        } else {
+          decryptedCreds = encryptedFields as Record<string, string>;
+          credentialsText = Object.entries(encryptedFields)
+            .map(([key, value]) => `${key}: ${value}`)
+            .join("\n");
+        }
+      } catch {
+        console.error("Error decrypting credentials");
+        throw new Error(
+          "Failed to decrypt authentication credentials. Please check your credentials and try again.",
+        );
+      }
+    }
+
+    // Substitute credential placeholders in execution prompt
+    let substitutedPrompt = executionPrompt;
+    try {
+      substitutedPrompt = substituteCredentials(
+        executionPrompt,
+        decryptedCreds,
+      );
+      console.log(
+        "✅ Credentials substituted successfully in execution prompt",
+      );
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes("Missing required credentials")
+      ) {
+        // Re-throw credential errors immediately - these are fatal
+        console.error("❌ Credential substitution failed:", error.message);
+        throw error;
+      }
+      // If no placeholders found, that's fine - continue with original prompt
+      console.log("ℹ️ No credential placeholders found in prompt");
+    }
+
+    // Set up messages with substituted execution prompt and previous days' context
+    const messages: Message[] = [
+      {
+        role: "developer",
+        content: `${substitutedPrompt}\n\nAVAILABLE CREDENTIALS:\n${credentialsText}${previousDaysContext}`,
+      },
+      {
+        role: "user",
+        content: `Begin autonomous execution now.
+
+⚠️ CRITICAL INSTRUCTIONS:
+- You MUST complete EVERY item in the WORKFLOW section above
+- Do NOT stop after completing just one step
+- Continue executing until ALL workflow items (1, 2, 3, 4, 5...) are finished
+- Only stop when you have achieved ALL the success criteria listed
+- If you encounter errors, retry or find workarounds - do not give up early
+
+Start with the AUTHENTICATION (if specified), then systematically work through each WORKFLOW item until the entire task is complete.`,
+      },
+    ];
+
+    // 1️⃣ LOG FINAL PROMPT SENT TO CUA
+    console.log('\n' + '='.repeat(80));
+    console.log('🚀 FINAL PROMPT SENT TO CUA AGENT');
+    console.log('='.repeat(80));
+    console.log('\n📋 DEVELOPER MESSAGE (System Prompt):');
+    console.log(messages[0].content);
+    console.log('\n👤 USER MESSAGE (Execution Trigger):');
+    console.log(messages[1].content);
+    console.log('\n' + '='.repeat(80) + '\n');
+
+    let actionCount = 0;
+    // Monotonic counter for each individual action (not per AI call)
+    // Continues from existing logs when a job is re-run after its worker died
+    const lastLog = await SessionLog.findOne({ sessionId }).sort({ stepNumber: -1 }).lean().exec();
+    let totalStepCount = lastLog?.stepNumber ?? 0;
+    // Per-session limits from the agent's execution budget
+    const budgetLimits = resolveBudgetLimits(agent.executionBudget);
+    const maxActions = budgetLimits.maxActions;
+    const budgetSession = await AgentSession.findById(sessionId).select("startedAt totalPausedMs").lean().exec();
+    const budgetStartedAt = budgetSession?.startedAt ?? new Date();
+    let budgetPausedMs = budgetSession?.totalPausedMs ?? 0;
+    let tokensUsed = 0;
+    const windDownSent = new Set<BudgetKind>();
+    let previousResponseId: string | undefined = undefined;
+    const performanceMetrics = {
+      aiCallTimes: [] as number[],
+      actionExecutionTimes: [] as number[],
+      totalStartTime: Date.now(),
+    };
+
+    // Run agent loop
+    console.log(`\n🔄 Starting CUA execution loop (max ${maxActions} actions)\n`);
+    
+    // Map function call_id -> { logId, name } to correlate outputs after execution
+    const functionCallLogMap = new Map<string, { logId: string; name: string }>();
+
+    // === ADAPTIVE REPLANNING ===
+    // Ask the planner for a new remaining plan from the page the agent is actually on
+    let consecutiveActionErrors = 0;
+    let lastReplanAction = -HALLUCINATION_CONFIG.REPLAN_COOLDOWN_ACTIONS;
+    const canReplan = async () =>
+      HALLUCINATION_CONFIG.ENABLE_REPLANNING &&
+      actionCount - lastReplanAction >= HALLUCINATION_CONFIG.REPLAN_COOLDOWN_ACTIONS &&
+      ((await sessionStateManager.getMissionMemory(sessionId))?.replanCount ?? 0) < HALLUCINATION_CONFIG.MAX_REPLANS_PER_SESSION;
+    const replanMission = async (reason: string): Promise<boolean> => {
+      const memory = await sessionStateManager.getMissionMemory(sessionId);
+      if (!memory) return false;
+      lastReplanAction = actionCount;
+
+      const completedSteps = memory.currentPlan.filter((_, idx) => memory.stepStatuses[idx] === 'done');
+      const remainingSteps = memory.currentPlan.filter((_, idx) =>
+        memory.stepStatuses[idx] === 'active' || memory.stepStatuses[idx] === 'pending'
+      );
+      const currentUrl = browser?.currentUrl ?? null;
+      let screenshot = cuaAgent.lastScreenshot;
+      if (!screenshot && browser) {
+        try {
+          screenshot = await browser.screenshot();
+        } catch (screenshotError) {
+          console.warn("Failed to capture screenshot for replanning:", screenshotError);
+        }
+      }
+
+      const revision = await taskPlanner.replanRemainingSteps({
+        goal: memory.originalGoal,
+        completedSteps,
+        remainingSteps,
+        reason,
+        currentUrl,
+        screenshot,
+      });
+      if (!revision) return false;
+
+      const planProgress = await sessionStateManager.replaceRemainingPlan(sessionId, revision.remainingSteps);
+      // The new plan is the remedy for whatever was repeating
+      await sessionStateManager.clearActionHistory(sessionId);
+      consecutiveActionErrors = 0;
+
+      try {
+        await SessionLog.create({
+          userId,
+          sessionId: sessionId,
+          stepNumber: totalStepCount,
+          tool: "Plan Revised",
+          instruction: `Plan revised (${reason}): ${revision.remainingSteps.length} steps remaining`,
+          reasoning: revision.pageDescription || null,
+          output: {
+            replan: {
+              reason,
+              url: currentUrl,
+              pageDescription: revision.pageDescription,
+              previousSteps: remainingSteps,
+              revisedSteps: revision.remainingSteps,
+            },
+          },
+        });
+      } catch (logError) {
+        console.warn("Failed to log plan revision:", logError);
+      }
+
+      messages.push({
+        role: "developer",
+        content: `Your plan has been revised because ${reason}. ${revision.pageDescription ? `Current page: ${revision.pageDescription} ` : ""}Do not repeat what was not working - continue with step ${planProgress?.currentStep ?? 1} of the updated plan in the mission context.`,
+      });
+      await persistPlanProgress();
+      return true;
+    };
+
+    // === STALL GUARD ===
+    // Each stall detected without progress in between climbs one rung:
+    // 1. recovery prompt, 2. fresh screenshot and a revised plan, 3. fail the session.
+    // A high-severity stall starts at rung 2, so it is replanned right away.
+    let stallLevel = 0;
+    let lastStallAction = 0;
+    const logStallIntervention = async (stall: StallCheckResult, intervention: string, instruction: string) => {
+      try {
+        await SessionLog.create({
+          userId,
+          sessionId: sessionId,
+          stepNumber: totalStepCount,
+          tool: "Stall Recovery",
+          instruction,
+          reasoning: stall.reason,
+          output: { stall: { level: stallLevel, pattern: stall.pattern, severity: stall.severity, reason: stall.reason, intervention } },
+        });
+      } catch (logError) {
+        console.warn("Failed to log stall intervention:", logError);
+      }
+    };
+    const escalateStall = async (stall: StallCheckResult) => {
+      const goal = (await sessionStateManager.getMissionMemory(sessionId))?.originalGoal ?? agent.description ?? "";
+      const reason = stall.reason.charAt(0).toLowerCase() + stall.reason.slice(1);
+      console.log(`\n🛡️ STALL DETECTED (level ${stallLevel}): ${stall.reason} [${stall.pattern}, ${stall.severity}]`);
+
+      // Detection starts over so the next rung needs fresh evidence
+      await sessionStateManager.clearActionHistory(sessionId);
+
+      if (stallLevel >= 3) {
+        await logStallIntervention(stall, "abort", `Stopped: still stuck after a recovery prompt and a revised plan (${reason})`);
+        throw new Error(STALL_FAILURE_MESSAGES[stall.pattern ?? "general_stuck"] ?? STALL_FAILURE_MESSAGES.general_stuck);
+      }
+
+      if (stallLevel === 2) {
+        // The model may be acting on a stale picture of the page
+        browser?.invalidateScreenshotCache();
+        cuaAgent.lastScreenshot = null;
+        const replanned = (await canReplan()) && await replanMission(reason);
+        await logStallIntervention(
+          stall,
+          replanned ? "replan" : "fresh_screenshot",
+          replanned
+            ? `Still stuck (${reason}) - took a fresh screenshot and revised the plan`
+            : `Still stuck (${reason}) - asked the agent to take a fresh screenshot`
+        );
+        if (!replanned) {
+          messages.push({
+            role: "developer",
+            content: `${StallGuard.getRecoveryPrompt(stall.pattern, goal) || `You are still stuck: ${reason}.`} Take a screenshot before your next action and try a completely different approach - if this continues the session will be stopped.`,
+          });
+        }
+        return;
+      }
+
+      const recoveryPrompt = StallGuard.getRecoveryPrompt(stall.pattern, goal);
+      if (recoveryPrompt) {
+        messages.push({ role: "developer", content: recoveryPrompt });
+      }
+      await logStallIntervention(stall, "recovery_prompt", `Stall detected (${reason}) - ${recoveryPrompt ? "sent a recovery prompt" : "continuing"}`);
+    };
+
+    while (true) {
+      actionCount++;
+
+      // 2️⃣ LOG ACTION COUNT
+      console.log(`\n📍 ACTION ${actionCount}/${maxActions} - Starting...`);
+
+      if (options.signal?.aborted) {
+        console.log(`\n🛑 STOP REASON: ${LEASE_LOST_MESSAGE} at action ${actionCount}\n`);
+        break;
+      }
+
+      // Check if agent has been paused
+      const currentAgent = await AgentModel.findById(agentId);
+
+      if (!currentAgent || (!currentAgent.isDeployed && !options.replay)) {
+        console.log(`\n❌ STOP REASON: Agent paused by user at action ${actionCount}`);
+        console.log(`   isDeployed = ${currentAgent?.isDeployed || 'agent not found'}\n`);
+        stopReason = "user_paused";
+        break;
+      }
+
+      // Sessions stopped from the UI end here too (a local browser is not released remotely)
+      let currentStatus: string | undefined = (await AgentSession.findById(sessionId).select("status").lean().exec())?.status;
+
+      // Paused sessions wait here with the browser, conversation and mission memory intact
+      if (currentStatus === "paused") {
+        console.log(`\n⏸️ Session paused before action ${actionCount} - waiting for resume or handback`);
+        const resume = await waitForResume(sessionId);
+
+        if (resume.status === "expired") {
+          cuaAgent.abortReason = `Paused for longer than ${PAUSE_CONFIG.MAX_PAUSE_MINUTES} minutes`;
+          stopReason = "pause_expired";
+          console.log(`\n⏰ STOP REASON: ${cuaAgent.abortReason} at action ${actionCount}\n`);
+          break;
+        }
+
+        currentStatus = resume.status;
+        // Paused time does not count against the execution budget either
+        budgetPausedMs += resume.pausedMs;
+        if (currentStatus === "running" && resume.handbackNote !== null) {
+          // An operator drove the browser meanwhile, so the last screenshot the model saw is stale
+          console.log(`🤖 Control handed back after ${Math.round(resume.pausedMs / 1000)}s${resume.handbackNote ? ` with note: ${resume.handbackNote}` : ""}`);
+          browser.invalidateScreenshotCache();
+          messages.push({
+            role: "developer",
+            content: `A human operator took control of the browser and has handed it back to you. The page may have changed since your last screenshot - take a screenshot before your next action.${resume.handbackNote ? `\n\nOperator note: ${resume.handbackNote}` : ""}`,
+          });
+        } else if (currentStatus === "running") {
+          console.log(`▶️ Session resumed after ${Math.round(resume.pausedMs / 1000)}s${resume.instruction ? ` with instruction: ${resume.instruction}` : ""}`);
+          // Paused time does not count against the runtime budget
+          if (runtimeDeadline) runtimeDeadline += resume.pausedMs;
+          messages.push({
+            role: "user",
+            content: resume.instruction
+              ? `The session was paused and has been resumed. New instruction from the user: ${resume.instruction}`
+              : "The session was paused and has been resumed. Continue the task from where you left off.",
+          });
+        }
+      }
+
+      if (currentStatus !== "running") {
+        console.log(`\n❌ STOP REASON: Session ${currentStatus || 'deleted'} at action ${actionCount}\n`);
+        break;
+      }
+
+      // Scheduled runs stop once the agent's daily runtime budget is used up
+      if (runtimeDeadline && Date.now() >= runtimeDeadline) {
+        console.log(`\n⏰ STOP REASON: Daily runtime budget (${options.runtimeBudgetMinutes} min) used up at action ${actionCount}\n`);
+        stopReason = "budget_exhausted";
+        stopDetail = `${options.runtimeBudgetMinutes} min daily runtime`;
+        break;
+      }
+
+      // Execution budget: ask the model to wrap up near a limit, stop at the limit
+      const billableMinutes = calculateSessionMinutes(budgetStartedAt, new Date(), budgetPausedMs);
+      const budgetUsage: BudgetUsage = {
+        actions: actionCount - 1,
+        minutes: billableMinutes,
+        credits: Math.ceil(billableMinutes * CREDITS_CONFIG.CREDITS_PER_MINUTE),
+        tokens: tokensUsed,
+      };
+      const budgetCheck = checkBudgets(budgetLimits, budgetUsage);
+
+      if (budgetCheck.exhausted) {
+        stopReason = budgetCheck.exhausted === "actions" ? "max_actions" : "budget_exhausted";
+        stopDetail = describeBudget(budgetCheck.exhausted, budgetLimits, budgetUsage);
+        console.log(`\n⏰ STOP REASON: Execution budget used up (${stopDetail}) at action ${actionCount}\n`);
+        // This iteration did not run an action
+        actionCount--;
+        break;
+      }
+
+      for (const kind of budgetCheck.windingDown) {
+        if (windDownSent.has(kind)) continue;
+        windDownSent.add(kind);
+        console.log(`⏳ Execution budget nearly used up (${describeBudget(kind, budgetLimits, budgetUsage)}) - asking the agent to wrap up`);
+        messages.push({ role: "developer", content: getWindDownPrompt(kind, budgetLimits, budgetUsage) });
+      }
+
+      // Get action from AI (track performance)
+      const aiStartTime = Date.now();
+      const response = await cuaAgent.getAction(messages, previousResponseId);
+      const aiDuration = Date.now() - aiStartTime;
+      performanceMetrics.aiCallTimes.push(aiDuration);
+      tokensUsed += (response?.usage?.inputTokens ?? 0) + (response?.usage?.outputTokens ?? 0);
+
+      // 3️⃣ LOG CUA RESPONSE DETAILS
+      console.log(`   ⏱️  AI call took ${aiDuration}ms`);
+      console.log(`   📤 Response ID: ${response?.responseId || 'none'}`);
+      console.log(`   🔧 Output items: ${response?.output?.length || 0}`);
+
+      // 🔍 DETAILED RESPONSE INSPECTION (for debugging reasoning extraction)
+      if (response?.output && response.output.length > 0) {
+        console.log('\n' + '='.repeat(80));
+        console.log('🔍 DETAILED OPENAI RESPONSE.OUTPUT INSPECTION');
+        console.log('='.repeat(80));
+        
+        response.output.forEach((item: Item, index: number) => {
+          console.log(`\n📦 Item ${index + 1}/${response.output.length}:`);
+          console.log(`   Type: ${item.type}`);
+          
+          if (item.type === 'message') {
+            console.log('   💭 MESSAGE ITEM (CUA REASONING) FOUND!');
+            console.log('   Role:', item.role || 'unknown');
+            if (item.content && Array.isArray(item.content)) {
+              console.log('   Content:');
+              item.content.forEach((contentItem: { type?: string; text?: string }, idx: number) => {
+                if (contentItem.text) {
+                  console.log(`      [${idx}] ${contentItem.type || 'text'}: "${contentItem.text}"`);
+                }
+              });
+            }
+          } else if (item.type === 'reasoning') {
+            console.log('   ✨ REASONING ITEM FOUND!');
+            console.log('   Content:', JSON.stringify(item.content || item, null, 2));
+          } else if (item.type === 'computer_call') {
+            console.log(`   Action: ${item.action?.type || 'unknown'}`);
+            console.log('   Raw:', JSON.stringify(item, null, 2).substring(0, 200) + '...');
+          } else if (item.type === 'function_call') {
+            console.log(`   Function: ${item.name || 'unknown'}`);
+          } else {
+            console.log('   Full Item:', JSON.stringify(item, null, 2).substring(0, 200) + '...');
+          }
+        });
+        
+        // Count different item types
+        const messageCount = response.output.filter((item: Item) => item.type === 'message').length;
+        const reasoningCount = response.output.filter((item: Item) => item.type === 'reasoning').length;
+        const actionCount = response.output.filter((item: Item) => 
+          item.type === 'computer_call' || item.type === 'function_call'
+        ).length;
+        
+        console.log(`\n📊 Summary:`);
+        console.log(`   Total items: ${response.output.length}`);
+        console.log(`   Message items (CUA reasoning): ${messageCount}`);
+        console.log(`   Reasoning items: ${reasoningCount}`);
+        console.log(`   Action items: ${actionCount}`);
+        console.log('='.repeat(80) + '\n');
+      }
+
+      if (!response || !response.output || response.output.length === 0 || response.finished) {
+        // Task completed or no actions to take
+        console.log(`\n✅ STOP REASON: CUA returned ${response?.finished ? "a final answer without actions" : "empty output"} at action ${actionCount}`);
+        console.log(`   This means the AI has decided the task is complete.`);
+        console.log(`   Response exists: ${!!response}`);
+        console.log(`   Output exists: ${!!response?.output}`);
+        console.log(`   Output length: ${response?.output?.length || 0}\n`);
+        stopReason = "model_finished";
+        break;
+      }
+
+      // The lease may have been lost during the model call; the actions are not run or logged then
+      if (options.signal?.aborted) {
+        console.log(`\n🛑 STOP REASON: ${LEASE_LOST_MESSAGE} at action ${actionCount}\n`);
+        break;
+      }
+
+      // Store responseId for next iteration
+      previousResponseId = response.responseId;
+
+      // 4️⃣ LOG ACTIONS TO DATABASE FIRST (before execution)
+      // This ensures steps appear in live preview BEFORE CUA executes them
+      console.log(`   📝 Logging ${response.output.length} action(s) to database...`);
+      const stepLogIds: string[] = [];
+      for (const item of response.output) {
+        const itemType = (item as Item).type;
+
+        if (itemType === "computer_call") {
+          totalStepCount++; // Increment for each action
+          
+          const computerCall = item as unknown as {
+            action: {
+              type: string;
+              [key: string]: unknown;
+            };
+          };
+
+          // Extract the tool type from action.type (not action.tool)
+          const rawTool = computerCall.action?.type || "";
+
+          // Format the action into user-friendly text
+          const formattedText = formatActionText(computerCall.action);
+          const formattedTool = formatToolBadge(rawTool);
+          
+          // Extract actual AI reasoning from OpenAI response (not template)
+          const actualReasoning = extractReasoningForAction(item, response.output);
+          const formattedReasoning = actualReasoning || generateDetailedReasoning(
+            computerCall.action,
+            rawTool,
+            agent.description || ''
+          );
+
+          const createdLog = await SessionLog.create({
+            userId,
+            sessionId: sessionId,
+            stepNumber: totalStepCount, // Use monotonic counter
+            tool: formattedTool,
+            instruction: formattedText, // User-friendly text instead of JSON
+            reasoning: formattedReasoning || null,
+            output: computerCall.action, // Keep raw data for debugging
+          });
+          stepLogIds.push(createdLog._id.toString());
+        }
+
+        if (itemType === "function_call") {
+          totalStepCount++; // Increment for each action
+          
+          const functionCall = item as unknown as {
+            name: string;
+            arguments: string;
+            call_id?: string;
+          };
+
+          // Parse and format function arguments
+          let formattedArgs = functionCall.arguments;
+          try {
+            const args = JSON.parse(functionCall.arguments);
+            // Create user-friendly description based on function name
+            if (functionCall.name === "goto") {
+              formattedArgs = `Navigating to ${args.url || "webpage"}`;
+            } else if (functionCall.name === PLAN_PROGRESS_TOOL) {
+              const done = Array.isArray(args.completed_steps) && args.completed_steps.length > 0
+                ? `finished step${args.completed_steps.length > 1 ? "s" : ""} ${args.completed_steps.join(", ")}`
+                : null;
+              const next = typeof args.current_step === "number" ? `working on step ${args.current_step}` : null;
+              formattedArgs = `Plan progress: ${[done, next].filter(Boolean).join(", now ") || "updated"}`;
+            } else {
+              formattedArgs = `Executing ${functionCall.name} with parameters`;
+            }
+          } catch {
+            formattedArgs = `Executing ${functionCall.name}`;
+          }
+
+          // Extract actual AI reasoning from OpenAI response (not template)
+          const actualFunctionReasoning = extractReasoningForAction(item, response.output);
+          const functionReasoning = actualFunctionReasoning || generateDetailedReasoning(
+            { name: functionCall.name, args: functionCall.arguments },
+            functionCall.name,
+            agent.description || ''
+          );
+
+          const createdLog = await SessionLog.create({
+            userId,
+            sessionId: sessionId,
+            stepNumber: totalStepCount, // Use monotonic counter
+            tool: formatToolBadge(functionCall.name),
+            instruction: formattedArgs,
+            reasoning: functionReasoning,
+            output: { name: functionCall.name, args: functionCall.arguments },
+          });
+          stepLogIds.push(createdLog._id.toString());
+          if (functionCall.call_id && createdLog?._id) {
+            functionCallLogMap.set(functionCall.call_id, { logId: createdLog._id.toString(), name: functionCall.name });
+          }
+        }
+      }
+
+      // 5️⃣ NOW EXECUTE THE ACTIONS (after logging) with error boundaries
+      const actionStartTime = Date.now();
+      
+      console.log(`   🎬 Executing ${response.output.length} action(s)...`);
+      response.output.forEach((item: Item, idx: number) => {
+        const itemType = item.type;
+        if (itemType === 'computer_call') {
+          const computerCall = item as unknown as { action?: { type?: string } };
+          console.log(`      ${idx + 1}. ${computerCall.action?.type || 'unknown'}`);
+        } else if (itemType === 'function_call') {
+          const funcCall = item as unknown as { name?: string };
+          console.log(`      ${idx + 1}. Function: ${funcCall.name || 'unknown'}`);
+        }
+      });
+      
+      // Wrap action execution in error boundary to prevent single action failures from killing session
+      let actionOutputs: unknown[] = [];
+      cuaAgent.lastScreenshot = null;
+      try {
+        actionOutputs = await cuaAgent.takeAction(response.output);
+        const actionDuration = Date.now() - actionStartTime;
+        performanceMetrics.actionExecutionTimes.push(actionDuration);
+        console.log(`   ✅ Actions executed in ${actionDuration}ms`);
+        consecutiveActionErrors = 0;
+      } catch (actionError) {
+        const actionDuration = Date.now() - actionStartTime;
+        performanceMetrics.actionExecutionTimes.push(actionDuration);
+        consecutiveActionErrors++;
+        
+        // Log error but continue execution - don't let single action failure crash entire session
+        console.error(`   ⚠️ Action execution error (action ${actionCount}):`, actionError);
+        console.log(`   🔄 Continuing session despite action error - resilient execution mode`);
+        
+        // Answer every tool call of the turn (failed ones as errors) and tell the AI so it can recover
+        const errorMessage = `Action execution encountered an error: ${actionError instanceof Error ? actionError.message : 'Unknown error'}`;
+        actionOutputs = await cuaAgent.failedActionOutputs(response.output, errorMessage, actionError);
+        actionOutputs.push({
+          role: 'developer',
+          type: "message",
+          content: `${errorMessage}. Please try a different approach or skip this action if not critical.`
+        });
+      }
+
+      // What the page looked like after these steps (the screenshot the model gets next)
+      let stepScreenshot: string | null = null;
+      if ((SCREENSHOT_CONFIG.ENABLED && stepLogIds.length > 0) || HALLUCINATION_CONFIG.ENABLE_VISUAL_STALL_DETECTION) {
+        try {
+          stepScreenshot = cuaAgent.lastScreenshot ?? await browser.screenshot();
+        } catch (screenshotError) {
+          console.warn("Failed to capture step screenshot:", screenshotError);
+        }
+      }
+
+      if (stepScreenshot && SCREENSHOT_CONFIG.ENABLED && stepLogIds.length > 0) {
+        try {
+          await ScreenshotStore.saveStepScreenshot(sessionId, stepLogIds, stepScreenshot);
+        } catch (screenshotError) {
+          console.warn("Failed to store step screenshot:", screenshotError);
+        }
+      }
+
+      // Compare with the previous step to catch actions that leave the page unchanged
+      if (stepScreenshot && HALLUCINATION_CONFIG.ENABLE_VISUAL_STALL_DETECTION) {
+        try {
+          const fingerprint = await fingerprintScreenshot(stepScreenshot);
+          const previousFrame = sessionStateManager.getVisualHistory(sessionId).slice(-1)[0];
+          const comparison = previousFrame ? compareScreenshots(previousFrame.fingerprint, fingerprint) : null;
+          const hadAction = response.output.some((item: Item) => {
+            if (item.type === "computer_call") {
+              return StallGuard.changesPage((item as unknown as { action?: { type?: string } }).action?.type);
+            }
+            return item.type === "function_call" && StallGuard.changesPage((item as unknown as { name?: string }).name);
+          });
+
+          sessionStateManager.recordVisualFrame(sessionId, {
+            timestamp: Date.now(),
+            fingerprint,
+            unchanged: comparison?.unchanged ?? false,
+            hadAction,
+          });
+          if (comparison?.unchanged && hadAction) {
+            console.log(`   👁️ Page unchanged after action (hash distance ${comparison.hashDistance}, ${(comparison.changedRatio * 100).toFixed(2)}% pixels changed)`);
+          }
+        } catch (fingerprintError) {
+          console.warn("Failed to compare step screenshot:", fingerprintError);
+        }
+      }
+
+      // Record navigations the policy refused; goto already reports them in its function output
+      const navigationViolations = browser.takeNavigationViolations();
+      for (const violation of navigationViolations) {
+        try {
+          await SessionLog.create({
+            userId,
+            sessionId: sessionId,
+            stepNumber: totalStepCount,
+            tool: "Navigation Blocked",
+            instruction: violation.message,
+            reasoning: null,
+            output: { navigationViolation: violation },
+          });
+        } catch (logError) {
+          console.warn("Failed to log navigation violation:", logError);
+        }
+
+        if (violation.source !== "goto") {
+          actionOutputs.push({
+            role: 'developer',
+            type: "message",
+            content: violation.source === "download"
+              ? `${violation.message} - downloads are disabled for this agent.`
+              : `Navigation blocked: ${violation.message}. Stay on the allowed sites and continue the task there.`,
+          });
+        }
+      }
+
+      // An action the user did not approve ends the session
+      if (cuaAgent.abortReason) {
+        console.log(`\n🛑 STOP REASON: ${cuaAgent.abortReason} at action ${actionCount}\n`);
+        stopReason = "approval_rejected";
+        stopDetail = cuaAgent.abortReason;
+      }
+
+      // Post-execution: persist extraction results and update logs
+      try {
+        for (const out of actionOutputs as any[]) {
+          if (out && out.type === 'function_call_output' && out.call_id) {
+            const mapping = functionCallLogMap.get(out.call_id);
+            if (mapping && mapping.name === 'extract_data') {
+              let parsed: any = null;
+              try { parsed = typeof out.output === 'string' ? JSON.parse(out.output) : out.output; } catch { parsed = null; }
+
+              if (parsed && parsed.dataType) {
+                try {
+                  const extractionDoc = await ExtractedData.create({
+                    userId,
+                    agentId: new mongoose.Types.ObjectId(agentId),
+                    sessionId: new mongoose.Types.ObjectId(sessionId),
+                    dataType: parsed.dataType,
+                    records: Array.isArray(parsed.records) ? parsed.records : [],
+                    totalCount: typeof parsed.totalCount === 'number' ? parsed.totalCount : (Array.isArray(parsed.records) ? parsed.records.length : 0),
+                    ...(parsed.schemaId && {
+                      schemaId: new mongoose.Types.ObjectId(parsed.schemaId),
+                      validCount: parsed.validation?.validCount ?? null,
+                      invalidCount: parsed.validation?.invalidCount ?? null,
+                      validationErrors: parsed.validation?.errors ?? [],
+                    }),
+                    pagination: parsed.pagination ?? null,
+                    method: parsed.method ?? null,
+                    extractedAt: parsed.extractedAt ? new Date(parsed.extractedAt) : new Date(),
+                  });
+
+                  if (extractionDoc.invalidCount) {
+                    console.warn(`⚠️ ${extractionDoc.invalidCount}/${extractionDoc.totalCount} ${extractionDoc.dataType} records failed schema validation`);
+                  }
+
+                  // Fold the records into the agent's de-duplicated master list
+                  try {
+                    const merge = await RecordStore.mergeExtraction({
+                      userId,
+                      agentId,
+                      sessionId,
+                      sessionLogId: mapping.logId,
+                      extractionId: extractionDoc._id.toString(),
+                      dataType: extractionDoc.dataType,
+                      records: extractionDoc.records,
+                      extractedAt: extractionDoc.extractedAt,
+                      policy: agent.recordStore,
+                    });
+                    await ExtractedData.updateOne(
+                      { _id: extractionDoc._id },
+                      { $set: { newRecordCount: merge.created, mergedRecordCount: merge.merged } },
+                    );
+                    console.log(`🗂️ Record store: ${merge.created} new, ${merge.merged} merged, ${merge.unkeyed} without identity (${extractionDoc.dataType})`);
+                  } catch (e) {
+                    console.warn('Failed to merge extraction into record store:', e);
+                  }
+
+                  try {
+                    await SessionLog.findByIdAndUpdate(mapping.logId, {
+                      $set: {
+                        extractedData: {
+                          dataType: extractionDoc.dataType,
+                          records: (extractionDoc.records || []).slice(0, 5),
+                          totalCount: extractionDoc.totalCount,
+                          extractedAt: extractionDoc.extractedAt,
+                        },
+                      },
+                    });
+                  } catch (e) {
+                    console.warn('Failed to update SessionLog with extractedData:', e);
+                  }
+                } catch (e) {
+                  console.error('Failed to persist extraction result:', e);
+                }
+              }
+            }
+          }
+        }
+      } catch (persistErr) {
+        console.error('Error handling function outputs:', persistErr);
+      }
+
+      await persistPlanProgress();
+
+      // Add outputs to messages for next iteration
+      messages.push(...(actionOutputs as unknown as Message[]));
+
+      if (HALLUCINATION_CONFIG.ENABLE_STALL_DETECTION && !cuaAgent.abortReason) {
+        const stall = StallGuard.checkForStall(
+          await sessionStateManager.getActionHistory(sessionId),
+          Date.now(),
+          sessionStateManager.getVisualHistory(sessionId)
+        );
+        if (stall.isStuck) {
+          stallLevel = stall.severity === "high" ? Math.max(stallLevel + 1, 2) : stallLevel + 1;
+          lastStallAction = actionCount;
+          await escalateStall(stall);
+        } else if (stallLevel > 0 && actionCount - lastStallAction >= HALLUCINATION_CONFIG.STALL_ESCALATION_RESET_ACTIONS) {
+          console.log(`🛡️ No stall for ${actionCount - lastStallAction} actions - escalation reset`);
+          stallLevel = 0;
+        }
+      }
+
+      // Repeated action errors mean the plan no longer fits the page
+      if (
+        !cuaAgent.abortReason &&
+        consecutiveActionErrors >= HALLUCINATION_CONFIG.REPLAN_AFTER_CONSECUTIVE_ERRORS &&
+        (await canReplan())
+      ) {
+        await replanMission(`${consecutiveActionErrors} actions in a row failed`);
+      }
+      
+      // === MISSION MEMORY: UPDATE ACTION COUNT ===
+      await sessionStateManager.incrementActionCount(sessionId);
+
+      if (cuaAgent.abortReason) {
+        break;
+      }
+    }
+
+    // The worker that holds the job now closes the session out
+    if (options.signal?.aborted) {
+      return { success: false, error: LEASE_LOST_MESSAGE };
+    }
+
+    // Every change to the mission memory has reached the state store
+    await sessionStateManager.flush(sessionId);
+
+    // 5️⃣ LOG FINAL EXECUTION SUMMARY
+    const finalMemory = await sessionStateManager.getMissionMemory(sessionId);
+    const totalMissionSteps = finalMemory?.currentPlan.length ?? 0;
+    const completedMissionSteps = (await sessionStateManager.getPlanProgress(sessionId))?.completedSteps ?? 0;
+    
+    console.log('\n' + '='.repeat(80));
+    console.log('🏁 CUA EXECUTION LOOP ENDED');
+    console.log('='.repeat(80));
+    console.log(`📊 Total actions executed: ${actionCount}/${maxActions}`);
+    console.log(`📊 Total mission steps in plan: ${totalMissionSteps}`);
+    
+    if (stopReason === "max_actions" || stopReason === "budget_exhausted") {
+      console.log(`⚠️  Reason: Execution budget used up (${stopDetail})`);
+    } else if (actionCount === 0) {
+      console.log(`⚠️  Reason: No actions executed - check if agent was immediately paused`);
+    } else {
+      console.log(`✅ Reason: CUA completed task or returned empty output`);
+    }
+    console.log('='.repeat(80) + '\n');
+
+    // Calculate and log performance metrics
+    const totalDuration = Date.now() - performanceMetrics.totalStartTime;
+    const avgAiCallTime =
+      performanceMetrics.aiCallTimes.length > 0
+        ? performanceMetrics.aiCallTimes.reduce((a, b) => a + b, 0) /
+          performanceMetrics.aiCallTimes.length
+        : 0;
+    const avgActionTime =
+      performanceMetrics.actionExecutionTimes.length > 0
+        ? performanceMetrics.actionExecutionTimes.reduce((a, b) => a + b, 0) /
+          performanceMetrics.actionExecutionTimes.length
+        : 0;
+
+    console.log("📊 PERFORMANCE METRICS:");
+    console.log(
+      `  Total execution time: ${(totalDuration / 1000).toFixed(2)}s`,
+    );
+    console.log(`  Total actions: ${actionCount}`);
+    console.log(`  Mission steps in plan: ${totalMissionSteps}`);
+    console.log(`  Model tokens: ${tokensUsed}`);
+    console.log(`  Avg AI call time: ${(avgAiCallTime / 1000).toFixed(2)}s`);
+    console.log(
+      `  Avg action execution time: ${(avgActionTime / 1000).toFixed(2)}s`,
+    );
+    console.log(
+      `  Actions per second: ${(actionCount / (totalDuration / 1000)).toFixed(2)}`,
+    );
+
+    // Mark session as completed ONLY if it was running (stopped if an action was not approved or it was paused too long)
+    // This prevents double-deductions if manual stop occurred during execution
+    const session = await AgentSession.findOneAndUpdate(
+      { _id: new mongoose.Types.ObjectId(sessionId), status: "running" },
+      cuaAgent.abortReason
+        ? {
+            status: "stopped",
+            completedAt: new Date(),
+            totalSteps: actionCount,
+            summary: `Stopped after ${actionCount} actions: ${cuaAgent.abortReason}`,
+            stopReason: stopReason ?? "approval_rejected",
+            stopDetail: stopDetail ?? cuaAgent.abortReason,
+          }
+        : {
+            status: "completed",
+            completedAt: new Date(),
+            totalSteps: actionCount,
+            summary: stopReason === "max_actions" || stopReason === "budget_exhausted"
+              ? `Stopped at the execution budget (${stopDetail}) after ${actionCount} actions, ${completedMissionSteps}/${totalMissionSteps} mission steps`
+              : `Autonomous execution completed successfully (${actionCount} actions, ${completedMissionSteps}/${totalMissionSteps} mission steps in ${(totalDuration / 1000).toFixed(1)}s)`,
+            stopReason: stopReason ?? "model_finished",
+            stopDetail,
+          },
+      { new: true }
+    );
+
+    // Generate AI-powered session outcome summary
+    if (session) {
+      try {
+        const sessionOutcome = await generateSessionOutcome(new mongoose.Types.ObjectId(sessionId));
+        await AgentSession.findByIdAndUpdate(new mongoose.Types.ObjectId(sessionId), { sessionOutcome });
+        console.log(`✅ Session outcome generated and saved`);
+      } catch (outcomeError) {
+        console.error('⚠️ Failed to generate session outcome:', outcomeError);
+        // Don't fail the entire deployment if outcome generation fails
+      }
+    }
+
+    // Deduct credits ONLY if we successfully transitioned from running to completed
+    if (session && options.replay) {
+      console.log(`ℹ️ Session ${sessionId} is a replay - no credits deducted`);
+    } else if (session && session.startedAt) {
+      const completedAt = session.completedAt || new Date();
+      const sessionMinutes = calculateSessionMinutes(session.startedAt, completedAt, getSessionPausedMs(session, completedAt));
+      const creditResult = await deductCredits(
+        userId,
+        sessionMinutes,
+        'agent_run',
+        {
+          agentId: agentId,
+          sessionId: sessionId,
+          totalSteps: actionCount,
+          missionSteps: completedMissionSteps,
+          duration: sessionMinutes,
+        }
+      );
+      
+      if (creditResult.success) {
+        console.log(`✅ Deducted ${Math.ceil(sessionMinutes)} credits for session (${sessionMinutes.toFixed(2)} minutes). New balance: ${creditResult.newBalance}`);
+      } else {
+        console.error(`⚠️ Failed to deduct credits: ${creditResult.error}`);
+      }
+    } else if (!session) {
+      console.log(`ℹ️ Session ${sessionId} was not running when completion tried - likely stopped manually. Skipping credit deduction to prevent double-charge.`);
+    }
+
+    // Update daily task if this was a daily task execution AND session was successfully completed
+    // Only update if session was not manually stopped (session !== null)
+    if (dailyTaskId && session && !cuaAgent.abortReason) {
+      // Extract detailed outcomes from session logs
+      const logs = await SessionLog.find({ sessionId, userId }).sort({ stepNumber: 1 });
+
+      // Parse outcomes from execution logs
+      const urls: string[] = [];
+      const actions: string[] = [];
+
+      logs.forEach((log) => {
+        if (log.instruction) {
+          actions.push(log.instruction);
+
+          // Extract URLs from navigation actions
+          if (log.instruction.toLowerCase().includes("navigating to")) {
+            const urlMatch = log.instruction.match(
+              /(?:https?:\/\/)?(?:www\.)?([^\s]+)/,
+            );
+            if (urlMatch) urls.push(urlMatch[0]);
+          }
+        }
+      });
+
+      const outcomes = {
+        totalSteps: actionCount,
+        missionStepsCompleted: completedMissionSteps,
+        completedAt: new Date().toISOString(),
+        summary: `Completed with ${actionCount} actions (${completedMissionSteps}/${totalMissionSteps} mission steps)`,
+        actions: actions.slice(0, 10), // Store first 10 actions for context
+        urlsVisited: [...new Set(urls)], // Unique URLs
+        executionTime: new Date().toISOString(),
+      };
+
+      await DailyTask.findByIdAndUpdate(dailyTaskId, {
+        status: "completed",
+        completedAt: new Date(),
+        outcomes: outcomes,
+      });
+
+      console.log(`✅ Day task ${dailyTaskId} completed with outcomes:`, {
+        totalActions: actionCount,
+        missionSteps: `${completedMissionSteps}/${totalMissionSteps}`,
+        actionsCount: actions.length,
+        urlsCount: urls.length,
+      });
+    } else if (dailyTaskId && session) {
+      // Stopped because an action was not approved or the pause ran out - leave the task to be run again
+      await DailyTask.findByIdAndUpdate(dailyTaskId, {
+        status: "pending",
+        error: cuaAgent.abortReason,
+      });
+      console.log(`⚠️ Day task ${dailyTaskId} stopped - status reset to pending: ${cuaAgent.abortReason}`);
+    } else if (dailyTaskId && !session) {
+      console.log(`ℹ️ Day task ${dailyTaskId} not marked complete - session was stopped manually`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error during autonomous execution:", error);
+
+    if (options.signal?.aborted) {
+      return { success: false, error: LEASE_LOST_MESSAGE };
+    }
+
+    // Classify the failure: user-friendly message, and whether a retry could succeed
+    const classified = classifyError(error);
+    const errorMessage = classified.message;
+    console.log(`   Error class: ${classified.errorClass} (${classified.transient ? "transient" : "permanent"})`);
+
+    // Mark session as failed ONLY if it was running
+    // This prevents issues if manual stop occurred during execution
+    const failedSession = await AgentSession.findOneAndUpdate(
+      { _id: new mongoose.Types.ObjectId(sessionId), status: "running" },
+      {
+        status: "failed",
+        errorMessage: errorMessage,
+        completedAt: new Date(),
+        stopReason: classifyFailure(error),
+        errorClass: classified.errorClass,
+      },
+      { new: true }
+    );
+
+    // Generate AI-powered session outcome summary (even for failed sessions to capture partial progress)
+    if (failedSession) {
+      try {
+        const sessionOutcome = await generateSessionOutcome(new mongoose.Types.ObjectId(sessionId));
+        await AgentSession.findByIdAndUpdate(new mongoose.Types.ObjectId(sessionId), { sessionOutcome });
+        console.log(`✅ Session outcome generated for failed session (captures partial progress)`);
+      } catch (outcomeError) {
+        console.error('⚠️ Failed to generate session outcome:', outcomeError);
+        // Don't fail the entire error handling if outcome generation fails
+      }
+    }
+
+    // NO CREDIT DEDUCTION FOR FAILED SESSIONS
+    // Credits are only deducted when user manually stops or task completes successfully
+    if (failedSession) {
+      console.log(`ℹ️ Session ${sessionId} failed - no credits deducted (failures are free)`);
+    } else {
+      console.log(`ℹ️ Session ${sessionId} was not running when failure occurred - likely stopped manually.`);
+    }
+
+    // Re-run transient failures with a fresh browser when the agent's retry policy allows it
+    const retrySession = failedSession && !options.replay
+      ? await retryFailedSession({
+          failedSessionId: sessionId,
+          retryPolicy: agent.retryPolicy,
+          errorClass: classified.errorClass,
+          executionPrompt,
+          dailyTaskId,
+          runtimeBudgetMinutes: options.runtimeBudgetMinutes,
+        }).catch((retryError) => {
+          console.error("⚠️ Failed to schedule session retry:", retryError);
+          return null;
+        })
+      : null;
+    if (retrySession) {
+      await AgentSession.findByIdAndUpdate(sessionId, { errorMessage: withRetryNote(errorMessage, retrySession) });
+    }
+
+    // Update daily task if this was a daily task execution AND session was actually failed
+    // Set to 'pending' instead of 'failed' so it can be re-run
+    // Only update if session wasn't manually stopped (failedSession !== null)
+    if (dailyTaskId && retrySession) {
+      // The retry carries on with the same daily task
+      console.log(`🔁 Day task ${dailyTaskId} continues in retry session ${retrySession._id}`);
+    } else if (dailyTaskId && failedSession) {
+      await DailyTask.findByIdAndUpdate(dailyTaskId, {
+        status: "pending",
+        error: errorMessage,
+      });
+
+      console.log(
+        `⚠️ Day task ${dailyTaskId} stopped/failed - status reset to pending for retry: ${errorMessage}`,
+      );
+    } else if (dailyTaskId && !failedSession) {
+      console.log(`ℹ️ Day task ${dailyTaskId} not updated - session was stopped manually before failure could be recorded`);
+    }
+
+    // Stop the Browserbase session
+    if (browser) {
+      try {
+        await browser.disconnect();
+        browser = null; // Prevent double cleanup in finally block
+      } catch (err) {
+        console.error("Error stopping browser session:", err);
+      }
+    }
+
+    return { success: false, error: errorMessage };
+  } finally {
+    // Clean up browser if not already cleaned up
+    if (browser) {
+      try {
+        await browser.disconnect();
+      } catch (err) {
+        console.error("Error disconnecting browser:", err);
+      }
+    }
+    
+    // === MISSION MEMORY: CLEANUP ===
+    // Clear session state to free memory (the worker that took over the job still needs it)
+    if (!options.signal?.aborted) {
+      await sessionStateManager.clearSession(sessionId);
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import mongoose from "mongoose";
+import { connectDB, Agent as AgentModel, AgentSession, DailyTask } from "@/server/db";
+import type { IAgent, IAgentRetryPolicy, IAgentSession } from "@/lib/models";
+import JobQueue from "@/lib/services/JobQueue";
+import { TRANSIENT_ERROR_CLASSES, type ErrorClass } from "@/lib/utils/error-classifier";
+import { SESSION_RETRY_CONFIG } from "@/app/lib/constants";
+
+export type PreparedExecution =
+  | { success: true; executionPrompt: string; dailyTaskId?: string }
+  | { success: false; error: string };
+
+interface LaunchAgentSessionParams {
+  agent: IAgent;
+  userId: string;
+  executionPrompt: string;
+  dailyTaskId?: string;
+  runtimeBudgetMinutes?: number | null;
+}
+
+/**
+ * Pick the prompt for the next run of an agent.
+ * Uses the next pending daily task (multi-day campaign mode) when there is one,
+ * otherwise the agent's own executionPrompt. Marks the chosen daily task running.
+ * Pass useDailyTasks: false to always run the agent's own executionPrompt.
+ */
+export async function prepareExecutionPrompt(
+  agent: IAgent,
+  userId: string,
+  { useDailyTasks = true }: { useDailyTasks?: boolean } = {},
+): Promise<PreparedExecution> {
+  await connectDB();
+
+  const agentId = agent._id.toString();
+
+  // Check for daily tasks first (multi-day campaign mode) with userId filtering
+  const nextPendingTask = useDailyTasks
+    ? await DailyTask.find({
+        agentId,
+        userId,
+        status: "pending"
+      }).sort({ dayNumber: 1 }).limit(1)
+    : [];
+
+  let executionPrompt = agent.executionPrompt;
+  let currentDailyTaskId: string | undefined;
+  console.log(`@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@ ${executionPrompt}`);
+
+  if (nextPendingTask.length > 0) {
+    // Use daily task prompt for multi-day campaigns
+    const task = nextPendingTask[0];
+    executionPrompt = task.taskPrompt;
+    currentDailyTaskId = task._id.toString();
+    console.log(`$$$$$$$$$$$$$$$$$$$$$$$$$$$$$$$$ ${task.taskPrompt}`);
+
+    console.log(`🎯 Executing Day ${task.dayNumber} task (ID: ${task._id})`);
+
+    console.log(`################################# ${executionPrompt}`);
+    // Update task status to running
+    await DailyTask.findByIdAndUpdate(task._id, { status: "running" });
+  } else if (!agent.executionPrompt) {
+    // No daily tasks and no executionPrompt - cannot execute
+    return {
+      success: false,
+      error: "Agent does not have an execution plan. Please recreate the agent.",
+    };
+  }
+
+  // PROGRAMMATIC FAILSAFE: Ensure browser capabilities are present in the execution prompt
+  // If GPT-4o forgot to include them, we add them here
+  // Case-insensitive check to handle "BROWSER CAPABILITIES", "Browser Capabilities", etc.
+  if (executionPrompt && !/browser capabilities/i.test(executionPrompt)) {
+    const { generateBrowserCapabilitiesHeader } = await import('@/app/lib/master-agent');
+    const browserCapabilitiesHeader = generateBrowserCapabilitiesHeader(
+      agent.platforms,
+      agent.targetWebsite ?? undefined
+    );
+
+    // Insert browser capabilities after AUTHENTICATION section or after OBJECTIVE if no AUTH
+    const authIndex = executionPrompt.indexOf('AUTHENTICATION:');
+    const objectiveIndex = executionPrompt.indexOf('OBJECTIVE:');
+
+    if (authIndex !== -1) {
+      // Find the end of the AUTHENTICATION section (next section starts with all caps word followed by :)
+      const afterAuth = executionPrompt.substring(authIndex);
+      const nextSectionMatch = afterAuth.match(/\n\n([A-Z\s]+):/);
+      if (nextSectionMatch) {
+        const insertPosition = authIndex + afterAuth.indexOf(nextSectionMatch[0]);
+        executionPrompt = executionPrompt.slice(0, insertPosition) + '\n\n' + browserCapabilitiesHeader + '\n' + executionPrompt.slice(insertPosition);
+      } else {
+        executionPrompt = executionPrompt + '\n\n' + browserCapabilitiesHeader;
+      }
+    } else if (objectiveIndex !== -1) {
+      // Find the end of the OBJECTIVE section
+      const afterObjective = executionPrompt.substring(objectiveIndex);
+      const nextSectionMatch = afterObjective.match(/\n\n([A-Z\s]+):/);
+      if (nextSectionMatch) {
+        const insertPosition = objectiveIndex + afterObjective.indexOf(nextSectionMatch[0]);
+        executionPrompt = executionPrompt.slice(0, insertPosition) + '\n\n' + browserCapabilitiesHeader + '\n' + executionPrompt.slice(insertPosition);
+      } else {
+        executionPrompt = executionPrompt + '\n\n' + browserCapabilitiesHeader;
+      }
+    } else {
+      // If no AUTHENTICATION or OBJECTIVE sections found, prepend to the entire prompt
+      executionPrompt = browserCapabilitiesHeader + '\n\n' + executionPrompt;
+    }
+
+    console.log('✅ Programmatic failsafe: Browser capabilities added to execution prompt');
+  }
+
+  return { success: true, executionPrompt: executionPrompt!, dailyTaskId: currentDailyTaskId };
+}
+
+/**
+ * Mark the agent deployed, create a running AgentSession and queue it for the worker.
+ * If the job can't be queued everything is rolled back and the error is rethrown.
+ */
+export async function launchAgentSession({
+  agent,
+  userId,
+  executionPrompt,
+  dailyTaskId,
+  runtimeBudgetMinutes,
+}: LaunchAgentSessionParams): Promise<{ session: IAgentSession; deployedAgent: IAgent | null }> {
+  await connectDB();
+
+  const agentId = agent._id.toString();
+
+  // Set isDeployed to true BEFORE starting execution to prevent race condition
+  const deployedAgent = await AgentModel.findByIdAndUpdate(
+    agentId,
+    {
+      isDeployed: true,
+      updatedAt: new Date(),
+    },
+    { new: true }
+  );
+
+  // Create a new session with userId
+  const session = await AgentSession.create({
+    userId,
+    agentId: agentId,
+    status: "running",
+    // Reset by the worker when it claims the job, so queue time is not billed
+    startedAt: new Date(),
+  });
+
+  // Hand execution to the background worker - the CUA loop never runs inside a request
+  try {
+    const job = await JobQueue.enqueue({
+      userId,
+      agentId,
+      sessionId: session._id.toString(),
+      executionPrompt,
+      dailyTaskId,
+      runtimeBudgetMinutes,
+    });
+    console.log(`🚀 Session ${session._id} queued as job ${job._id}`);
+  } catch (error) {
+    console.error("Error queueing execution:", error);
+    // If the job can't be queued, roll back everything created above
+    await AgentModel.findByIdAndUpdate(agentId, { isDeployed: false });
+    await AgentSession.findByIdAndUpdate(session._id, {
+      status: "failed",
+      errorMessage: "Failed to queue agent execution",
+      completedAt: new Date(),
+      stopReason: "error",
+    });
+    if (dailyTaskId) {
+      await DailyTask.findByIdAndUpdate(dailyTaskId, { status: "pending" });
+    }
+    throw error;
+  }
+
+  return { session, deployedAgent };
+}
+
+interface RetryFailedSessionParams {
+  failedSessionId: string;
+  retryPolicy?: IAgentRetryPolicy | null;
+  errorClass: ErrorClass;
+  executionPrompt: string;
+  dailyTaskId?: string;
+  runtimeBudgetMinutes?: number | null;
+}
+
+/**
+ * Re-run a failed session with a fresh browser when the agent's retry policy covers its error class.
+ * The retry is a new AgentSession linked to the first attempt and queued after the policy's backoff.
+ * Returns null when the session is not retried.
+ */
+export async function retryFailedSession({
+  failedSessionId,
+  retryPolicy,
+  errorClass,
+  executionPrompt,
+  dailyTaskId,
+  runtimeBudgetMinutes,
+}: RetryFailedSessionParams): Promise<IAgentSession | null> {
+  await connectDB();
+
+  const retryOn = retryPolicy?.retryOn ?? TRANSIENT_ERROR_CLASSES;
+  if (!retryOn.includes(errorClass)) return null;
+
+  const failedSession = await AgentSession.findById(failedSessionId).exec();
+  if (!failedSession || failedSession.status !== "failed") return null;
+
+  const attempt = failedSession.attempt ?? 1;
+  const maxRetries = retryPolicy?.maxRetries ?? SESSION_RETRY_CONFIG.DEFAULT_MAX_RETRIES;
+  if (attempt > maxRetries) {
+    console.log(`🔁 Session ${failedSessionId} not retried: ${maxRetries} retries used`);
+    return null;
+  }
+
+  // An agent paused by the user since the failure stays paused
+  const agent = await AgentModel.findById(failedSession.agentId).select("isDeployed").lean().exec();
+  if (!agent?.isDeployed) return null;
+
+  const backoffSeconds = Math.min(
+    (retryPolicy?.backoffSeconds ?? SESSION_RETRY_CONFIG.DEFAULT_BACKOFF_SECONDS) *
+      (retryPolicy?.backoffMultiplier ?? SESSION_RETRY_CONFIG.DEFAULT_BACKOFF_MULTIPLIER) ** (attempt - 1),
+    SESSION_RETRY_CONFIG.MAX_BACKOFF_SECONDS,
+  );
+  const runAt = new Date(Date.now() + backoffSeconds * 1000);
+
+  // Claim the failed session so a second failure report cannot queue another retry
+  const retryId = new mongoose.Types.ObjectId();
+  const claimed = await AgentSession.findOneAndUpdate(
+    { _id: failedSession._id, nextAttemptId: null },
+    { nextAttemptId: retryId },
+  ).exec();
+  if (!claimed) return null;
+
+  // Billing and budgets start when the retry runs, not while it waits out the backoff
+  const retrySession = await AgentSession.create({
+    _id: retryId,
+    userId: failedSession.userId,
+    agentId: failedSession.agentId,
+    status: "running",
+    startedAt: runAt,
+    retryOf: failedSession.retryOf ?? failedSession._id,
+    attempt: attempt + 1,
+  });
+
+  try {
+    await JobQueue.enqueue({
+      userId: failedSession.userId,
+      agentId: failedSession.agentId.toString(),
+      sessionId: retryId.toString(),
+      executionPrompt,
+      dailyTaskId,
+      runtimeBudgetMinutes,
+      runAt,
+    });
+  } catch (error) {
+    console.error("Error queueing session retry:", error);
+    await AgentSession.findByIdAndUpdate(retryId, {
+      status: "failed",
+      errorMessage: "Failed to queue session retry",
+      completedAt: new Date(),
+      stopReason: "error",
+    });
+    return null;
+  }
+
+  console.log(`🔁 Session ${failedSessionId} failed with ${errorClass} - retry ${attempt}/${maxRetries} queued as session ${retryId} in ${backoffSeconds}s`);
+  return retrySession;
+}
@@ -1,19 +1,82 @@
 import { Page } from 'playwright';
+import { EXTRACTION_PAGINATION_CONFIG } from '@/app/lib/constants';
+
+export interface ExtractionSelectors {
+  container?: string;
+  fields: Record<string, string>;
+}
 
 export interface ExtractionConfig {
   dataType: string;
-  selectors: {
-    container?: string;
-    fields: Record<string, string>;
-  };
+  selectors: ExtractionSelectors;
   maxRecords?: number;
 }
 
+/**
+ * Selectors inferred for a site and data type, kept so later runs can extract
+ * in structured mode without asking the model again.
+ */
+export interface SelectorCache {
+  get(site: string, dataType: string): Promise<ExtractionSelectors | null>;
+  save(site: string, dataType: string, selectors: ExtractionSelectors, recordCount: number): Promise<void>;
+  remove(site: string, dataType: string): Promise<void>;
+}
+
+export type PaginationStrategy = 'next_button' | 'url_param' | 'infinite_scroll';
+
+export interface PaginationConfig {
+  strategy: PaginationStrategy;
+  // next_button: the link or button that loads the next page
+  nextSelector?: string;
+  // url_param: the query parameter holding the page number (e.g. "page")
+  pageParam?: string;
+  // url_param: the number of the current page and the increment per page (offset-style params use e.g. 20)
+  startPage?: number;
+  pageStep?: number;
+  // infinite_scroll: stop once this element is visible (e.g. an "end of results" marker)
+  stopSelector?: string;
+  // Pages read including the current one (scrolls, for infinite_scroll)
+  maxPages?: number;
+}
+
+export type PaginationStopReason =
+  | 'max_pages'
+  | 'max_records'
+  | 'no_next_page'
+  | 'no_new_records'
+  | 'stop_selector'
+  | 'navigation_failed';
+
+export interface PaginationSummary {
+  strategy: PaginationStrategy;
+  pagesVisited: number;
+  stopReason: PaginationStopReason;
+  // Rows seen again on a later page (or still in the DOM after a scroll)
+  duplicatesSkipped: number;
+}
+
+// How smart mode read the records: replayed cached selectors, selectors the model
+// inferred (and checked), the model's own records, or keyword matching
+export type ExtractionMethod = 'structured' | 'cached_selectors' | 'inferred_selectors' | 'model' | 'keywords';
+
 export interface ExtractionResult {
   dataType: string;
   records: Array<Record<string, unknown>>;
   totalCount: number;
   extractedAt: Date;
+  pagination?: PaginationSummary;
+  method?: ExtractionMethod;
+  // Selectors that reproduce the extraction in structured mode
+  selectors?: ExtractionSelectors;
+}
+
+// Smart mode numbers rows by their position, which shifts as rows load
+function recordKey(record: Record<string, unknown>): string {
+  return JSON.stringify(Object.keys(record).filter((key) => key !== 'index').sort().map((key) => [key, record[key]]));
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 export class PlaywrightExtractor {
@@ -126,6 +189,186 @@ export class PlaywrightExtractor {
     }
   }
 
+  /**
+   * Run an extraction on every page of a paginated list.
+   *
+   * extractPage reads the current page (given how many records it may return);
+   * between pages the extractor clicks the next button, bumps the page number in
+   * the URL or scrolls to the bottom. Rows already collected are skipped, and the
+   * loop stops at maxPages, at maxRecords, or when a page brings nothing new.
+   */
+  async extractWithPagination(
+    pagination: PaginationConfig,
+    maxRecords: number | undefined,
+    extractPage: (maxRecords: number) => Promise<ExtractionResult>,
+  ): Promise<ExtractionResult> {
+    const maxPages = Math.min(
+      Math.max(1, pagination.maxPages || EXTRACTION_PAGINATION_CONFIG.DEFAULT_MAX_PAGES),
+      EXTRACTION_PAGINATION_CONFIG.MAX_PAGES_LIMIT,
+    );
+    const recordLimit = maxRecords || EXTRACTION_PAGINATION_CONFIG.DEFAULT_MAX_RECORDS;
+    console.log(`\n📄 Paginated extraction (${pagination.strategy}, up to ${maxPages} pages, ${recordLimit} records)`);
+
+    const extractedAt = new Date();
+    const records: Array<Record<string, unknown>> = [];
+    const seen = new Set<string>();
+    let lastPage: ExtractionResult | null = null;
+    let duplicatesSkipped = 0;
+    let pagesVisited = 0;
+    let stopReason: PaginationStopReason = 'max_pages';
+    let pageNumber = pagination.startPage ?? 1;
+
+    while (pagesVisited < maxPages) {
+      // An infinite-scroll page still holds every row loaded so far
+      const pageLimit = pagination.strategy === 'infinite_scroll' ? recordLimit : recordLimit - records.length;
+      const page = await extractPage(pageLimit);
+      lastPage = page;
+      pagesVisited++;
+
+      let added = 0;
+      for (const record of page.records) {
+        const key = recordKey(record);
+        if (seen.has(key)) {
+          duplicatesSkipped++;
+          continue;
+        }
+        seen.add(key);
+        records.push(record);
+        added++;
+        if (records.length >= recordLimit) break;
+      }
+      console.log(`   Page ${pagesVisited}: ${added} new of ${page.records.length} records`);
+
+      if (records.length >= recordLimit) {
+        stopReason = 'max_records';
+        break;
+      }
+      // Nothing new: the list is exhausted or the page did not change
+      if (added === 0) {
+        stopReason = 'no_new_records';
+        break;
+      }
+      if (pagesVisited >= maxPages) break;
+
+      const next = await this.goToNextPage(pagination, pageNumber);
+      if (next !== 'ok') {
+        stopReason = next;
+        break;
+      }
+      pageNumber += pagination.pageStep ?? 1;
+    }
+
+    console.log(`   ✅ ${records.length} records from ${pagesVisited} pages (stopped: ${stopReason})`);
+
+    return {
+      dataType: lastPage?.dataType ?? '',
+      records,
+      totalCount: records.length,
+      extractedAt,
+      pagination: { strategy: pagination.strategy, pagesVisited, stopReason, duplicatesSkipped },
+      method: lastPage?.method,
+      selectors: lastPage?.selectors,
+    };
+  }
+
+  private async goToNextPage(
+    pagination: PaginationConfig,
+    pageNumber: number,
+  ): Promise<'ok' | 'no_next_page' | 'stop_selector' | 'navigation_failed'> {
+    try {
+      switch (pagination.strategy) {
+        case 'next_button': {
+          if (!pagination.nextSelector) return 'no_next_page';
+          const next = this.page.locator(pagination.nextSelector).first();
+          if (!(await next.isVisible()) || (await next.isDisabled()) || (await next.getAttribute('aria-disabled')) === 'true') {
+            return 'no_next_page';
+          }
+          const previousUrl = this.page.url();
+          await next.click({ timeout: 5000 });
+          // Server-rendered lists navigate; client-rendered ones only re-render
+          if (this.page.url() !== previousUrl) {
+            await this.page.waitForLoadState('domcontentloaded', { timeout: 15000 }).catch(() => {});
+          }
+          break;
+        }
+
+        case 'url_param': {
+          if (!pagination.pageParam) return 'no_next_page';
+          const url = new URL(this.page.url());
+          url.searchParams.set(pagination.pageParam, String(pageNumber + (pagination.pageStep ?? 1)));
+          const response = await this.page.goto(url.toString(), { waitUntil: 'domcontentloaded', timeout: 30000 });
+          if (response && response.status() >= 400) return 'no_next_page';
+          break;
+        }
+
+        case 'infinite_scroll': {
+          if (pagination.stopSelector && (await this.page.locator(pagination.stopSelector).first().isVisible())) {
+            return 'stop_selector';
+          }
+          await this.page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+          break;
+        }
+      }
+
+      await sleep(EXTRACTION_PAGINATION_CONFIG.PAGE_SETTLE_MS);
+      return 'ok';
+    } catch (error) {
+      console.warn(`   ⚠️ Could not load the next page (${pagination.strategy}): ${error}`);
+      return 'navigation_failed';
+    }
+  }
+
+  /**
+   * A compact HTML rendering of the page for the extraction model: scripts, styles,
+   * SVG and hidden elements are dropped, attributes are cut down to the ones useful
+   * for building selectors, and long text is shortened.
+   */
+  async getDomSnapshot(maxChars: number): Promise<string> {
+    return this.page.evaluate((limit) => {
+      const skipTags = new Set(['script', 'style', 'noscript', 'svg', 'iframe', 'canvas', 'template', 'link', 'meta', 'head']);
+      const keptAttributes = ['id', 'class', 'href', 'role', 'aria-label', 'data-testid', 'name', 'type', 'title', 'datetime'];
+      let html = '';
+
+      // Walked with a stack rather than recursion: closing tags are pushed ahead of the children
+      const stack: Array<Node | string> = [document.body];
+      while (stack.length > 0 && html.length < limit) {
+        const item = stack.pop()!;
+        if (typeof item === 'string') {
+          html += item;
+          continue;
+        }
+        if (item.nodeType === Node.TEXT_NODE) {
+          const text = (item.textContent || '').replace(/\s+/g, ' ').trim();
+          if (text) html += text.length > 200 ? `${text.slice(0, 200)}...` : text;
+          continue;
+        }
+        if (item.nodeType !== Node.ELEMENT_NODE) continue;
+
+        const element = item as Element;
+        const tag = element.tagName.toLowerCase();
+        if (skipTags.has(tag) || element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') continue;
+
+        const attributes = keptAttributes
+          .map((name) => {
+            let value = element.getAttribute(name);
+            if (!value) return '';
+            // Long utility-class lists add nothing a selector can use
+            if (name === 'class') value = value.split(/\s+/).slice(0, 3).join(' ');
+            return ` ${name}="${value.slice(0, 150).replace(/"/g, "'")}"`;
+          })
+          .join('');
+
+        html += `<${tag}${attributes}>`;
+        stack.push(`</${tag}>`);
+        for (let i = element.childNodes.length - 1; i >= 0; i--) {
+          stack.push(element.childNodes[i]);
+        }
+      }
+
+      return html.slice(0, limit);
+    }, maxChars);
+  }
+
   async smartExtract(dataType: string, keywords: string[]): Promise<ExtractionResult> {
     console.log(`\n🧠 Smart extraction for: ${dataType}`);
     console.log(`   Keywords:`, keywords.join(', '));
@@ -0,0 +1,39 @@
+import { SCREENSHOT_CONFIG } from '@/app/lib/constants';
+import { LocalBlobStore } from './local-blob-store';
+import { S3BlobStore } from './s3-blob-store';
+
+/**
+ * Minimal object storage used for session artifacts (step screenshots).
+ * Keys are "/"-separated paths such as "<sessionId>/<logId>.jpg".
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Null when the object does not exist
+  get(key: string): Promise<{ data: Buffer; contentType: string } | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+let store: BlobStore | null = null;
+
+/**
+ * The configured store, created on first use: SCREENSHOT_STORAGE=local (default) or s3.
+ */
+export function getBlobStore(): BlobStore {
+  if (store) return store;
+
+  if (SCREENSHOT_CONFIG.STORAGE === 's3') {
+    if (!SCREENSHOT_CONFIG.S3_BUCKET) {
+      throw new Error('SCREENSHOT_S3_BUCKET is required when SCREENSHOT_STORAGE=s3');
+    }
+    store = new S3BlobStore({
+      bucket: SCREENSHOT_CONFIG.S3_BUCKET,
+      region: SCREENSHOT_CONFIG.S3_REGION,
+      endpoint: SCREENSHOT_CONFIG.S3_ENDPOINT || null,
+      prefix: SCREENSHOT_CONFIG.S3_PREFIX,
+    });
+  } else {
+    store = new LocalBlobStore(SCREENSHOT_CONFIG.LOCAL_DIR);
+  }
+
+  return store;
+}
@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { BlobStore } from './blob-store';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Blob store on the local filesystem. Only suitable when the worker and the web
+ * server share a disk (single host or a mounted volume).
+ */
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<{ data: Buffer; contentType: string } | null> {
+    try {
+      const data = await fs.readFile(this.resolve(key));
+      return { data, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map((key) => fs.rm(this.resolve(key), { force: true })),
+    );
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    // Keys come from our own ids, but never let one escape the storage directory
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+}
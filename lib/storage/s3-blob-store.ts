@@ -0,0 +1,76 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectsCommand,
+  NoSuchKey,
+} from '@aws-sdk/client-s3';
+import type { BlobStore } from './blob-store';
+
+interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible providers (Cloudflare R2, MinIO, ...)
+  endpoint?: string | null;
+  prefix?: string;
+}
+
+// DeleteObjects accepts at most 1000 keys per request
+const MAX_DELETE_BATCH = 1000;
+
+/**
+ * Blob store on an S3-compatible bucket. Objects stay private; they are served
+ * through the app's authenticated routes.
+ */
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor({ bucket, region, endpoint, prefix = '' }: S3BlobStoreOptions) {
+    this.bucket = bucket;
+    this.prefix = prefix;
+    this.client = new S3Client({
+      region,
+      ...(endpoint ? { endpoint, forcePathStyle: true } : {}),
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.prefix + key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<{ data: Buffer; contentType: string } | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+      }));
+      if (!result.Body) return null;
+
+      const bytes = await result.Body.transformToByteArray();
+      return { data: Buffer.from(bytes), contentType: result.ContentType || 'application/octet-stream' };
+    } catch (error) {
+      if (error instanceof NoSuchKey) return null;
+      throw error;
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += MAX_DELETE_BATCH) {
+      const batch = keys.slice(i, i + MAX_DELETE_BATCH);
+      await this.client.send(new DeleteObjectsCommand({
+        Bucket: this.bucket,
+        Delete: {
+          Objects: batch.map((key) => ({ Key: this.prefix + key })),
+          Quiet: true,
+        },
+      }));
+    }
+  }
+}
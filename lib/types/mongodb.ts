@@ -1,5 +1,9 @@
 // MongoDB types for client components (serialized DTOs)
 
+import type { SessionStopReason } from '../models/AgentSession';
+
+export type { SessionStopReason };
+
 export interface Agent {
   id: string;
   name: string;
@@ -28,6 +32,18 @@ export interface AgentSession {
   totalSteps: number | null;
   errorMessage: string | null;
   sessionOutcome: string | null;  // AI-generated summary of session accomplishments
+  controlledBy?: 'agent' | 'operator';  // 'operator' while a person has taken over the browser
+  planProgress?: {  // Mission plan checklist, reported by the agent as it works
+    steps: Array<{ description: string; status: 'pending' | 'active' | 'done' | 'skipped' }>;
+    currentStep: number | null;
+    completedSteps: number;
+    totalSteps: number;
+  } | null;
+  stopReason?: SessionStopReason | null;  // Why the session ended (null while running)
+  stopDetail?: string | null;
+  errorClass?: string | null;  // Failed sessions: browser_crashed, rate_limited, auth_failed, ...
+  retryOf?: string | null;  // Retries: the first session of the run
+  attempt?: number;
 }
 
 export interface AgentTask {
@@ -45,6 +61,25 @@ export interface AgentTask {
   updatedAt: string;  // Serialized as string from API
 }
 
+export interface AgentSchedule {
+  enabled: boolean;
+  cronExpression: string | null;
+  timezone: string;
+  lastRunAt: string | null;  // Serialized as string from API
+  nextRunAt: string | null;  // Serialized as string from API
+  lastSkipReason: string | null;
+  upcomingRuns: string[];
+  runtimePerDay: number;
+  runtimeUsedToday: number;  // Minutes since midnight in the schedule's timezone
+  runtimeRemainingToday: number;
+  upcomingTasks: Array<{
+    id: string;
+    taskDescription: string;
+    frequency: string;
+    scheduledFor: string | null;
+  }>;
+}
+
 export interface AgentContext {
   id: string;
   agentId: string;
@@ -62,6 +97,7 @@ export interface SessionLog {
   reasoning: string | null;
   output: unknown;
   screenshotUrl?: string | null;  // Optional screenshot URL
+  screenshotThumbnailUrl?: string | null;
   extractedData?: {
     dataType: string;
     records: Array<Record<string, unknown>>;
@@ -87,6 +123,7 @@ export type NotificationTypeKey =
   | 'task_failed'
   | 'agent_deployed'
   | 'agent_paused'
+  | 'approval_required'
   | 'credits_low'
   | 'credits_exhausted'
   | 'daily_digest'
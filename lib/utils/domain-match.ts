@@ -0,0 +1,44 @@
+/**
+ * Domain matching for agent policies
+ *
+ * Patterns are bare domains ("example.com"), which also cover subdomains,
+ * or wildcards ("*.example.com"), which cover subdomains only.
+ */
+
+/**
+ * Normalize a domain pattern entered by a user ("https://www.example.com/path" -> "example.com")
+ */
+export function normalizeDomainPattern(pattern: string): string {
+  let normalized = pattern.trim().toLowerCase();
+  normalized = normalized.replace(/^[a-z]+:\/\//, '');
+  normalized = normalized.split('/')[0].split(':')[0];
+  return normalized.replace(/^www\./, '');
+}
+
+/**
+ * Hostname of a URL (without "www."), or null when it cannot be parsed
+ */
+export function getHostname(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const withProtocol = /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`;
+    const hostname = new URL(withProtocol).hostname.toLowerCase();
+    return hostname ? hostname.replace(/^www\./, '') : null;
+  } catch {
+    return null;
+  }
+}
+
+export function matchesDomain(hostname: string, patterns: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+
+  return patterns.some((rawPattern) => {
+    const pattern = normalizeDomainPattern(rawPattern);
+    if (!pattern) return false;
+
+    if (pattern.startsWith('*.')) {
+      return host.endsWith(pattern.slice(1));
+    }
+    return host === pattern || host.endsWith(`.${pattern}`);
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Execution error classification
+ *
+ * Labels the error that ended a session with a class, whether it is worth retrying
+ * and a message for the user. Transient failures (a dropped browser, a rate limit,
+ * a model outage) can be retried with a fresh browser; permanent ones (bad
+ * credentials, no browser minutes left, a stalled agent) would fail the same way again.
+ */
+
+import { STALL_FAILURE_MESSAGES } from '@/app/api/cua/agent/config';
+
+export const ERROR_CLASSES = [
+  'browser_crashed',
+  'rate_limited',
+  'model_unavailable',
+  'network',
+  'auth_failed',
+  'billing',
+  'invalid_url',
+  'invalid_request',
+  'policy_violation',
+  'stalled',
+  'unknown',
+] as const;
+
+export type ErrorClass = (typeof ERROR_CLASSES)[number];
+
+// Retried by default when an agent has no retryOn list of its own
+export const TRANSIENT_ERROR_CLASSES: ErrorClass[] = ['browser_crashed', 'rate_limited', 'model_unavailable', 'network'];
+
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  transient: boolean;
+  // User-facing message stored on the session
+  message: string;
+}
+
+// Checked in order: the first match wins
+const ERROR_RULES: Array<{ errorClass: ErrorClass; pattern: RegExp; message?: string }> = [
+  {
+    errorClass: 'policy_violation',
+    pattern: /content[ _]policy|safety system|invalid_prompt|flagged as potentially violating/i,
+  },
+  {
+    errorClass: 'billing',
+    pattern: /\b402\b|free plan browser minutes limit|insufficient_quota/i,
+    message: '402 Free plan browser minutes limit reached. Please upgrade your account at https://browserbase.com/plans',
+  },
+  {
+    // The target site refused the agent's login, not the model provider
+    errorClass: 'auth_failed',
+    pattern: /login failed|invalid credentials/i,
+    message: 'Login failed: The website rejected the credentials the agent used. Please check the credentials saved for this agent.',
+  },
+  {
+    errorClass: 'auth_failed',
+    pattern: /\b401\b|unauthorized|invalid api key|authentication (error|failed)/i,
+    message: 'Authentication error (401): The model provider API key is invalid or expired. Please verify your API key configuration.',
+  },
+  {
+    errorClass: 'rate_limited',
+    pattern: /\b429\b|rate limit/i,
+    message: 'Rate limit exceeded (429): Too many API requests.',
+  },
+  {
+    errorClass: 'browser_crashed',
+    pattern: /browser has been closed|target (page, context or browser )?(has been )?closed|browser.*disconnected|page crashed|session closed|failed to create or retrieve session|page not initialized/i,
+    message: 'Browser session error: The browser was closed unexpectedly. This may happen if the session was manually paused. Please try again.',
+  },
+  {
+    errorClass: 'model_unavailable',
+    pattern: /\b(status( code)?|HTTP) ?(500|502|503|504|529)\b|\b(500|502|503|504|529) (Internal Server Error|Bad Gateway|Service Unavailable|Gateway Time-?out)|overloaded|server_error|service unavailable|bad gateway/i,
+    message: 'Model provider error: The AI service is temporarily unavailable. Please try again.',
+  },
+  {
+    errorClass: 'invalid_url',
+    pattern: /cannot navigate to invalid url|invalid url/i,
+    message: 'Navigation error: Invalid URL provided. Please ensure URLs include the full protocol (https://). The system has been updated with automatic URL correction.',
+  },
+  {
+    errorClass: 'network',
+    pattern: /ERR_ABORTED|net::ERR_|ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up|fetch failed|timeout/i,
+    message: 'Navigation error: Page navigation was aborted or timed out. This can happen when multiple navigation requests conflict or the site is slow.',
+  },
+  {
+    errorClass: 'invalid_request',
+    pattern: /\b400\b|no tool output found/i,
+    message: 'Browser automation error: Tool execution failed. This may be due to temporary API issues. Please try again.',
+  },
+];
+
+/**
+ * Classify an error thrown by the execution loop
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+
+  // The executor gives up on a stalled agent by throwing one of these messages
+  if (Object.values(STALL_FAILURE_MESSAGES).includes(message)) {
+    return { errorClass: 'stalled', transient: false, message };
+  }
+
+  for (const rule of ERROR_RULES) {
+    if (rule.pattern.test(message)) {
+      return {
+        errorClass: rule.errorClass,
+        transient: TRANSIENT_ERROR_CLASSES.includes(rule.errorClass),
+        message: rule.message ?? message,
+      };
+    }
+  }
+
+  return { errorClass: 'unknown', transient: false, message: message || 'Unknown error occurred' };
+}
+
+/**
+ * The session's error message once retryFailedSession has decided: says when the retry runs, if there is one
+ */
+export function withRetryNote(message: string, retry: { startedAt: Date; attempt?: number } | null): string {
+  if (!retry) return message;
+  const delaySeconds = Math.max(Math.round((retry.startedAt.getTime() - Date.now()) / 1000), 0);
+  return `${message} Retrying as attempt ${retry.attempt ?? 2} in ${delaySeconds}s.`;
+}
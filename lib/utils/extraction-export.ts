@@ -0,0 +1,165 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * Export formats for extracted data
+ *
+ * NDJSON writes one line per record, so exports can be streamed extraction by
+ * extraction. XLSX needs the whole workbook in memory: records are grouped into one
+ * sheet per dataType, and each column is written with the type its values share
+ * (numbers, booleans and dates stay numbers, booleans and dates in the sheet;
+ * digit strings a number would alter, such as "02134", stay text).
+ */
+
+export const EXPORT_CONTENT_TYPES = {
+  ndjson: 'application/x-ndjson',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// The fields of an extraction each exported record carries
+export interface ExportExtraction {
+  _id: { toString(): string };
+  sessionId: { toString(): string };
+  dataType: string;
+  extractedAt: Date;
+  records: Array<Record<string, unknown>>;
+}
+
+type ColumnType = 'number' | 'boolean' | 'date' | 'string';
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+// Beyond this many digits a number loses precision in Excel
+const MAX_NUMBER_DIGITS = 15;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+// Characters Excel does not allow in sheet names
+const SHEET_NAME_INVALID = /[\\/?*[\]:]/g;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * NDJSON lines for an extraction: one JSON object per record, with the extraction it came from.
+ */
+export function toNdjsonLines(extraction: ExportExtraction): string {
+  return (extraction.records || [])
+    .map((record) => JSON.stringify({
+      extractionId: extraction._id.toString(),
+      sessionId: extraction.sessionId.toString(),
+      dataType: extraction.dataType,
+      extractedAt: extraction.extractedAt,
+      record,
+    }) + '\n')
+    .join('');
+}
+
+/**
+ * Whether scraped text can be written as a number without changing it: zip codes,
+ * phone digits and IDs with a leading zero or more than 15 digits stay text.
+ */
+function isNumericText(value: string): boolean {
+  const text = value.trim();
+  if (!NUMBER_PATTERN.test(text)) return false;
+  const mantissa = text.split(/[eE]/)[0];
+  return !/^-?0\d/.test(mantissa) && mantissa.replace(/\D/g, '').length <= MAX_NUMBER_DIGITS;
+}
+
+function columnType(values: unknown[]): ColumnType {
+  const present = values.filter((value) => !isEmpty(value));
+  if (present.length === 0) return 'string';
+
+  const every = (test: (value: unknown) => boolean) => present.every(test);
+  if (every((value) => typeof value === 'number' || (typeof value === 'string' && isNumericText(value)))) {
+    return 'number';
+  }
+  if (every((value) => typeof value === 'boolean' || value === 'true' || value === 'false')) {
+    return 'boolean';
+  }
+  if (every((value) => value instanceof Date || (typeof value === 'string' && DATE_PATTERN.test(value.trim()) && !isNaN(Date.parse(value))))) {
+    return 'date';
+  }
+  return 'string';
+}
+
+function toCell(value: unknown, type: ColumnType): unknown {
+  if (isEmpty(value)) return null;
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' ? value : Number(String(value).trim());
+    case 'boolean':
+      return value === true || value === 'true';
+    case 'date':
+      return value instanceof Date ? value : new Date(String(value));
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Collects extractions into an XLSX workbook with one sheet per dataType.
+ */
+export class ExtractionWorkbook {
+  private sheets = new Map<string, Array<Record<string, unknown>>>();
+  private rowCount = 0;
+
+  get rows(): number {
+    return this.rowCount;
+  }
+
+  add(extraction: ExportExtraction): void {
+    const rows = this.sheets.get(extraction.dataType) ?? [];
+    for (const record of extraction.records || []) {
+      rows.push({
+        'Extracted At': extraction.extractedAt,
+        'Extraction ID': extraction._id.toString(),
+        ...record,
+      });
+    }
+    this.sheets.set(extraction.dataType, rows);
+    this.rowCount += (extraction.records || []).length;
+  }
+
+  toBuffer(): Buffer {
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+
+    for (const [dataType, rows] of this.sheets) {
+      // Union of the records' fields, in the order they first appear
+      const columns: string[] = [];
+      const seen = new Set<string>();
+      for (const row of rows) {
+        for (const key of Object.keys(row)) {
+          if (!seen.has(key)) {
+            seen.add(key);
+            columns.push(key);
+          }
+        }
+      }
+
+      const types = columns.map((column) => columnType(rows.map((row) => row[column])));
+      const sheet = XLSX.utils.aoa_to_sheet(
+        [columns, ...rows.map((row) => columns.map((column, index) => toCell(row[column], types[index])))],
+        { cellDates: true, dateNF: DATE_FORMAT },
+      );
+      sheet['!cols'] = columns.map((column) => ({ wch: Math.min(Math.max(column.length + 2, 12), 50) }));
+      if (rows.length > 0) {
+        sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: columns.length - 1 } }) };
+      }
+
+      const baseName = dataType.replace(SHEET_NAME_INVALID, '_').trim() || 'data';
+      let name = baseName.slice(0, MAX_SHEET_NAME_LENGTH);
+      for (let suffix = 2; usedNames.has(name.toLowerCase()); suffix++) {
+        name = `${baseName.slice(0, MAX_SHEET_NAME_LENGTH - String(suffix).length - 1)}_${suffix}`;
+      }
+      usedNames.add(name.toLowerCase());
+      XLSX.utils.book_append_sheet(workbook, sheet, name);
+    }
+
+    if (this.sheets.size === 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['No records']]), 'data');
+    }
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', cellDates: true });
+  }
+}
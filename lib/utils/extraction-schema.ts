@@ -0,0 +1,318 @@
+/**
+ * Typed extraction schemas
+ *
+ * An agent's extraction schemas describe the records extract_data should produce:
+ * the fields, their types and whether they are required. Extracted values are scraped
+ * text, so each one is coerced to its field's type ("$1,299" -> 1299, a relative href
+ * -> an absolute URL) and every problem is reported per record and field.
+ */
+
+import vm from 'vm';
+import type { IExtractionSchema } from '../models/ExtractionSchema';
+
+export const EXTRACTION_FIELD_TYPES = ['string', 'number', 'email', 'url', 'phone', 'date', 'boolean'] as const;
+
+export type ExtractionFieldType = (typeof EXTRACTION_FIELD_TYPES)[number];
+
+export interface ExtractionFieldDefinition {
+  name: string;
+  type: ExtractionFieldType;
+  required?: boolean;
+  // Regular expression the (coerced) value must match
+  pattern?: string | null;
+  description?: string | null;
+}
+
+export interface ExtractionSchemaDefinition {
+  id: string;
+  name: string;
+  description?: string | null;
+  fields: ExtractionFieldDefinition[];
+}
+
+export interface RecordValidationError {
+  recordIndex: number;
+  field: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  records: Array<Record<string, unknown>>;
+  errors: RecordValidationError[];
+  validCount: number;
+  invalidCount: number;
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+// Longer values are not run against a field pattern
+const MAX_PATTERN_INPUT_LENGTH = 200;
+const PATTERN_TIMEOUT_MS = 50;
+const patternContext = vm.createContext({});
+const PATTERN_TEST = new vm.Script('new RegExp(pattern).test(text)');
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on', '✓'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off'];
+
+// Characters tried when checking whether two repeated atoms can match the same text
+const OVERLAP_SAMPLES = ['a', 'Z', '0', ' ', '\t', '\n', '_', '-', '.', '@', '/', 'é'];
+
+// Whether two single-character atoms can match the same character (a group may match anything)
+function atomsOverlap(first: string | null, second: string | null): boolean {
+  if (first === null || second === null) return true;
+  const a = new RegExp(`^(?:${first})$`);
+  const b = new RegExp(`^(?:${second})$`);
+  return [...OVERLAP_SAMPLES, ...first, ...second].some((sample) => a.test(sample) && b.test(sample));
+}
+
+/**
+ * Whether a field pattern is safe to run on scraped text. Rejects backreferences,
+ * repeated groups that contain a quantifier or an alternation (e.g. "(a+)+" or
+ * "(a|ab)*") and unbounded repetitions in a row that can match the same characters
+ * (e.g. "\d*\d*" or ".*.*"), the shapes that make a backtracking match slow.
+ */
+export function isSafePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+  } catch {
+    return false;
+  }
+
+  // For each open group: whether it contains a quantifier or an alternation
+  const openGroups: boolean[] = [];
+  // Unbounded repetitions since the last required character
+  let repeated: Array<string | null> = [];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    // The atom starting at i: a single-character pattern, or null for a group
+    let atom: string | null | undefined;
+    let groupIsRisky = false;
+
+    if (char === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (/[1-9k]/.test(next)) return false;
+      i++;
+      // Word boundaries match no character
+      if (next !== 'b' && next !== 'B') atom = `\\${next}`;
+    } else if (char === '[') {
+      const start = i;
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+      atom = pattern.slice(start, i + 1);
+    } else if (char === '(') {
+      openGroups.push(false);
+      // Skip the group's modifier: (?: (?= (?! (?<= (?<! (?<name>
+      if (pattern[i + 1] === '?') {
+        const modifier = /^\?(:|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/.exec(pattern.slice(i + 1));
+        i += modifier ? modifier[0].length : 1;
+      }
+    } else if (char === ')') {
+      groupIsRisky = openGroups.pop() ?? false;
+      atom = null;
+    } else if (char === '|') {
+      if (openGroups.length > 0) openGroups[openGroups.length - 1] = true;
+      repeated = [];
+    } else if (char !== '^' && char !== '$') {
+      atom = char === '.' ? '.' : char.replace(/[\\^$*+?()[\]{}|/]/, '\\$&');
+    }
+    if (atom === undefined) continue;
+
+    const quantifier = /^([*+?]|\{\d+(,\d*)?\})/.exec(pattern.slice(i + 1))?.[0] ?? '';
+    i += quantifier.length;
+    // Lazy quantifier
+    if (quantifier && pattern[i + 1] === '?') i++;
+    const unbounded = quantifier === '*' || quantifier === '+' || quantifier.endsWith(',}');
+    const optional = quantifier === '*' || quantifier === '?' || /^\{0[,}]/.test(quantifier);
+
+    if (quantifier) {
+      if (groupIsRisky && quantifier !== '?' && quantifier !== '{0,1}') return false;
+      openGroups.fill(true);
+    }
+    if (unbounded) {
+      if (repeated.some((earlier) => atomsOverlap(earlier, atom))) return false;
+      repeated.push(atom);
+    } else if (!optional && atom !== null) {
+      repeated = [];
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Run a field pattern in its own V8 context so a slow match is cut off after
+ * PATTERN_TIMEOUT_MS instead of blocking the worker. Null when it timed out.
+ */
+function testPattern(pattern: string, text: string): boolean | null {
+  patternContext.pattern = pattern;
+  patternContext.text = text;
+  try {
+    return PATTERN_TEST.runInContext(patternContext, { timeout: PATTERN_TIMEOUT_MS }) === true;
+  } catch {
+    return null;
+  }
+}
+
+type Coercion = { ok: true; value: unknown } | { ok: false; message: string };
+
+function coerceValue(value: unknown, type: ExtractionFieldType, baseUrl?: string): Coercion {
+  const text = typeof value === 'string' ? value.trim() : String(value);
+
+  switch (type) {
+    case 'string':
+      return { ok: true, value: text };
+
+    case 'number': {
+      if (typeof value === 'number' && Number.isFinite(value)) return { ok: true, value };
+      // Drop currency symbols, thousands separators and units
+      const cleaned = text.replace(/[^\d.\-eE]/g, '');
+      const parsed = cleaned ? Number(cleaned) : NaN;
+      return Number.isFinite(parsed) ? { ok: true, value: parsed } : { ok: false, message: `"${text}" is not a number` };
+    }
+
+    case 'email': {
+      const match = text.match(EMAIL_PATTERN);
+      return match ? { ok: true, value: match[0].toLowerCase() } : { ok: false, message: `"${text}" is not an email address` };
+    }
+
+    case 'url': {
+      try {
+        const url = new URL(text, baseUrl);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return { ok: false, message: `"${text}" is not a web URL` };
+        }
+        return { ok: true, value: url.toString() };
+      } catch {
+        return { ok: false, message: `"${text}" is not a URL` };
+      }
+    }
+
+    case 'phone': {
+      const digits = text.replace(/\D/g, '');
+      if (digits.length < 7 || digits.length > 15) {
+        return { ok: false, message: `"${text}" is not a phone number` };
+      }
+      return { ok: true, value: text.trim().startsWith('+') ? `+${digits}` : digits };
+    }
+
+    case 'date': {
+      const time = value instanceof Date ? value.getTime() : Date.parse(text);
+      return Number.isFinite(time) ? { ok: true, value: new Date(time).toISOString() } : { ok: false, message: `"${text}" is not a date` };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { ok: true, value };
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { ok: true, value: true };
+      if (FALSE_VALUES.includes(lower)) return { ok: true, value: false };
+      return { ok: false, message: `"${text}" is not a yes/no value` };
+    }
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Coerce every record to the schema and collect per-field errors.
+ * Values that fail coercion are kept as extracted so nothing is lost; fields not
+ * in the schema are dropped. A record with any error counts as invalid.
+ */
+export function validateRecords(
+  schema: Pick<ExtractionSchemaDefinition, 'fields'>,
+  records: Array<Record<string, unknown>>,
+  baseUrl?: string,
+): SchemaValidationResult {
+  const errors: RecordValidationError[] = [];
+  const invalidRecords = new Set<number>();
+  const skippedPatterns = new Set<string>();
+  const timedOutPatterns = new Set<string>();
+
+  const coerced = records.map((record, recordIndex) => {
+    const result: Record<string, unknown> = {};
+    const fail = (field: string, message: string) => {
+      errors.push({ recordIndex, field, message });
+      invalidRecords.add(recordIndex);
+    };
+
+    for (const field of schema.fields) {
+      const raw = record[field.name];
+
+      if (isEmpty(raw)) {
+        if (field.required) fail(field.name, 'Required field is missing');
+        continue;
+      }
+
+      // Page-level extraction returns a list of values for a field matched more than once
+      const values = Array.isArray(raw) ? raw : [raw];
+      const output: unknown[] = [];
+      for (const value of values) {
+        const coercion = coerceValue(value, field.type, baseUrl);
+        if (!coercion.ok) {
+          fail(field.name, coercion.message);
+          output.push(value);
+          continue;
+        }
+        if (field.pattern) {
+          const text = String(coercion.value);
+          // Schemas saved before patterns were checked may hold an unsafe one
+          if (!isSafePattern(field.pattern)) {
+            if (!skippedPatterns.has(field.pattern)) {
+              skippedPatterns.add(field.pattern);
+              console.warn(`⚠️ Skipping unsafe pattern on field ${field.name}: ${field.pattern}`);
+            }
+          } else if (text.length > MAX_PATTERN_INPUT_LENGTH) {
+            fail(field.name, `Value is too long to check against ${field.pattern} (over ${MAX_PATTERN_INPUT_LENGTH} characters)`);
+          } else if (timedOutPatterns.has(field.pattern)) {
+            fail(field.name, `Pattern ${field.pattern} took too long to check`);
+          } else {
+            const matched = testPattern(field.pattern, text);
+            if (matched === null) {
+              // Not tried again on the other records
+              timedOutPatterns.add(field.pattern);
+              fail(field.name, `Pattern ${field.pattern} took too long to check`);
+            } else if (!matched) {
+              fail(field.name, `"${coercion.value}" does not match ${field.pattern}`);
+            }
+          }
+        }
+        output.push(coercion.value);
+      }
+      result[field.name] = Array.isArray(raw) ? output : output[0];
+    }
+
+    return result;
+  });
+
+  return {
+    records: coerced,
+    errors,
+    validCount: records.length - invalidRecords.size,
+    invalidCount: invalidRecords.size,
+  };
+}
+
+/**
+ * Field list for the extract_data tool description ("email (email, required)")
+ */
+export function describeSchemaFields(schema: ExtractionSchemaDefinition): string {
+  return schema.fields
+    .map((field) => `${field.name} (${field.type}${field.required ? ', required' : ''})${field.description ? ` - ${field.description}` : ''}`)
+    .join('; ');
+}
+
+/**
+ * API shape of a stored extraction schema
+ */
+export function toExtractionSchemaResponse(schema: Pick<IExtractionSchema, '_id' | 'agentId' | 'name' | 'description' | 'fields' | 'createdAt' | 'updatedAt'>) {
+  return {
+    id: schema._id.toString(),
+    agentId: schema.agentId.toString(),
+    name: schema.name,
+    description: schema.description ?? null,
+    fields: schema.fields,
+    createdAt: schema.createdAt,
+    updatedAt: schema.updatedAt,
+  };
+}
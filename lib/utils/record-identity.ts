@@ -0,0 +1,103 @@
+/**
+ * Record identity and merging for the cross-session record store
+ *
+ * A record's identity is one or more keys built from its identity fields. Each entry
+ * of an agent's identityKeys is a group of fields that together identify a record
+ * (["profileUrl"], ["email"], ["company", "name"]); two records are the same when
+ * any of their keys match. Values are normalized first so "https://www.linkedin.com/in/jane/"
+ * and "linkedin.com/in/jane?trk=x" are one person.
+ */
+
+export const MERGE_STRATEGIES = ['fill_missing', 'latest', 'first'] as const;
+
+export type MergeStrategy = (typeof MERGE_STRATEGIES)[number];
+
+// Field names are matched loosely: profile_url, profileURL and "Profile URL" are one field
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findField(record: Record<string, unknown>, field: string): unknown {
+  if (field in record) return record[field];
+  const wanted = normalizeFieldName(field);
+  const key = Object.keys(record).find((candidate) => normalizeFieldName(candidate) === wanted);
+  return key ? record[key] : undefined;
+}
+
+function normalizeUrl(text: string): string | null {
+  try {
+    const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const path = url.pathname.replace(/\/+$/, '');
+    return `${host}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize an identity value: URLs lose scheme, www, query, hash and trailing slash;
+ * everything else is trimmed, lowercased and has its whitespace collapsed.
+ */
+export function normalizeIdentityValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  // Lists (a field matched more than once) identify by their first value
+  if (Array.isArray(value)) return value.length > 0 ? normalizeIdentityValue(value[0]) : null;
+  if (typeof value === 'object') return null;
+
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const looksLikeUrl = /^https?:\/\//i.test(text) || /^(www\.)?[\w-]+(\.[\w-]+)+\/\S*$/i.test(text);
+  if (looksLikeUrl && !text.includes('@')) {
+    const url = normalizeUrl(text);
+    if (url) return url;
+  }
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * The record's identity keys ("email=jane@acme.com", "company+name=acme|jane doe").
+ * A group only yields a key when all of its fields have a value.
+ */
+export function getIdentityKeys(record: Record<string, unknown>, identityKeys: string[][]): string[] {
+  const keys: string[] = [];
+  for (const group of identityKeys) {
+    if (group.length === 0) continue;
+    const values = group.map((field) => normalizeIdentityValue(findField(record, field)));
+    if (values.some((value) => value === null)) continue;
+    keys.push(`${group.map(normalizeFieldName).join('+')}=${values.join('|')}`);
+  }
+  return Array.from(new Set(keys));
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Merge a newly extracted record into the stored one.
+ * - fill_missing: keep stored values, only fill fields that are empty
+ * - latest: newer non-empty values replace stored ones
+ * - first: keep the record as first seen, newer values never change it (not even empty fields)
+ * fieldStrategies overrides the strategy per field.
+ */
+export function mergeRecordData(
+  existing: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  strategy: MergeStrategy,
+  fieldStrategies: Record<string, MergeStrategy> = {},
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...existing };
+
+  for (const [field, value] of Object.entries(incoming)) {
+    const fieldStrategy = fieldStrategies[field] ?? strategy;
+    if (isEmpty(value) || fieldStrategy === 'first') continue;
+
+    if (isEmpty(merged[field]) || fieldStrategy === 'latest') {
+      merged[field] = value;
+    }
+  }
+
+  return merged;
+}
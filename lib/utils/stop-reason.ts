@@ -0,0 +1,25 @@
+/**
+ * Stop reason classification
+ *
+ * Maps the error that ended a session to the stop reason stored on AgentSession,
+ * so failures can be grouped (browser crashes, login problems, policy refusals)
+ * without parsing error messages in the UI.
+ */
+
+import type { SessionStopReason } from '@/lib/models/AgentSession';
+import { classifyError, type ErrorClass } from './error-classifier';
+
+// Error classes with a stop reason of their own; the rest are 'error'
+const STOP_REASON_BY_CLASS: Partial<Record<ErrorClass, SessionStopReason>> = {
+  browser_crashed: 'browser_crashed',
+  auth_failed: 'auth_failed',
+  policy_violation: 'policy_violation',
+  stalled: 'stalled',
+};
+
+/**
+ * Stop reason for a session that ended with an error
+ */
+export function classifyFailure(error: unknown): SessionStopReason {
+  return STOP_REASON_BY_CLASS[classifyError(error).errorClass] ?? 'error';
+}
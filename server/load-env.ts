@@ -0,0 +1,6 @@
+// Load environment variables for standalone processes (the worker) that run outside Next.js.
+// Must be imported before anything that reads process.env at module load (e.g. lib/mongodb).
+import * as dotenv from "dotenv";
+
+dotenv.config({ path: ".env.local" });
+dotenv.config();
@@ -0,0 +1,214 @@
+// Offline replay of a recorded agent session.
+// Feeds the model responses stored in a session's SessionLog outputs back through
+// executeWithExecutionPrompt against a local Chromium instead of Browserbase + OpenAI,
+// so logging and extraction persistence can be checked end-to-end.
+//
+// Usage:
+//   npm run replay -- <recordedSessionId> [--headed] [--save-fixture <file.json>]
+//   npm run replay -- --fixture <file.json> [--agent <agentId>] [--headed]
+//
+// Point MONGODB_URI at a test database: the replay creates a new session for the recorded
+// agent and user. It runs whether or not the agent is deployed, and is neither billed nor retried.
+// Requires Playwright's Chromium (`npx playwright install chromium`).
+import "./load-env";
+import fs from "fs";
+import mongoose from "mongoose";
+import {
+  connectDB,
+  Agent as AgentModel,
+  AgentJob,
+  AgentSession,
+  SessionLog,
+  ExtractedData,
+} from "./db";
+import type { ScriptedStep } from "../app/api/cua/agent/providers";
+
+type ReplayFixture = {
+  sessionId: string | null;
+  agentId: string;
+  userId: string;
+  executionPrompt: string;
+  steps: ScriptedStep[];
+};
+
+type ReplayArgs = {
+  sessionId: string | null;
+  fixturePath: string | null;
+  saveFixturePath: string | null;
+  agentId: string | null;
+  headless: boolean;
+};
+
+function parseArgs(argv: string[]): ReplayArgs {
+  const args: ReplayArgs = {
+    sessionId: null,
+    fixturePath: null,
+    saveFixturePath: null,
+    agentId: null,
+    headless: true,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--headed") args.headless = false;
+    else if (arg === "--fixture") args.fixturePath = argv[++i] ?? null;
+    else if (arg === "--save-fixture") args.saveFixturePath = argv[++i] ?? null;
+    else if (arg === "--agent") args.agentId = argv[++i] ?? null;
+    else if (!arg.startsWith("--")) args.sessionId = arg;
+  }
+
+  return args;
+}
+
+// Steps the loop logs besides the model's actions
+const INTERVENTION_TOOLS = ["Stall Recovery", "Plan Revised", "Navigation Blocked"];
+
+// The model's actions among a session's logs, for comparing the two runs
+function actionLogs<T extends { tool: string; output?: unknown }>(logs: T[]): T[] {
+  return logs.filter((log) => log.output != null && !INTERVENTION_TOOLS.includes(log.tool));
+}
+
+function toolSequence(logs: { tool: string }[]): string[] {
+  return logs.map((log) => log.tool);
+}
+
+async function loadRecordedFixture(sessionId: string): Promise<ReplayFixture> {
+  const session = await AgentSession.findById(sessionId).lean().exec();
+  if (!session) {
+    throw new Error(`Recorded session ${sessionId} not found`);
+  }
+
+  // The execution prompt lives on the job that ran the session; older sessions predate the queue
+  const job = await AgentJob.findOne({ sessionId: session._id }).lean().exec();
+  const agent = await AgentModel.findById(session.agentId).lean().exec();
+  if (!agent) {
+    throw new Error(`Agent ${session.agentId} of recorded session ${sessionId} no longer exists`);
+  }
+
+  const { ReplayProvider } = await import("../app/api/cua/agent/providers");
+
+  return {
+    sessionId,
+    agentId: agent._id.toString(),
+    userId: session.userId,
+    executionPrompt: job?.payload.executionPrompt || agent.systemPrompt,
+    steps: await ReplayProvider.loadScript(sessionId, session.userId),
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.sessionId && !args.fixturePath) {
+    console.error("Usage: npm run replay -- <recordedSessionId> [--headed] [--save-fixture <file.json>]");
+    console.error("       npm run replay -- --fixture <file.json> [--agent <agentId>] [--headed]");
+    process.exit(2);
+  }
+
+  // The planner and summarizer fall back to defaults when OpenAI is unreachable;
+  // they only need a key to be set in order to load
+  if (!process.env.OPENAI_API_KEY) {
+    process.env.OPENAI_API_KEY = "replay-offline";
+  }
+
+  const { executeWithExecutionPrompt, toAgentData } = await import("../lib/services/agent-executor");
+  const { LocalPlaywrightBrowser } = await import("../app/api/cua/agent/local_playwright");
+
+  await connectDB();
+
+  const fixture: ReplayFixture = args.fixturePath
+    ? JSON.parse(fs.readFileSync(args.fixturePath, "utf8"))
+    : await loadRecordedFixture(args.sessionId!);
+
+  if (args.agentId) {
+    fixture.agentId = args.agentId;
+  }
+
+  if (args.saveFixturePath) {
+    fs.writeFileSync(args.saveFixturePath, JSON.stringify(fixture, null, 2));
+    console.log(`💾 Saved replay fixture (${fixture.steps.length} steps) to ${args.saveFixturePath}`);
+  }
+
+  const agent = await AgentModel.findOne({ _id: fixture.agentId, userId: fixture.userId }).exec();
+  if (!agent) {
+    throw new Error(`Agent ${fixture.agentId} not found for user ${fixture.userId}`);
+  }
+
+  // Only logged actions are replayed, so compare against those
+  const recordedLogs = fixture.sessionId
+    ? actionLogs(await SessionLog.find({ sessionId: fixture.sessionId }).sort({ stepNumber: 1 }).lean().exec())
+    : [];
+  const expectedActions = fixture.steps.flat().filter((item) => item.type !== "message").length;
+
+  const session = await AgentSession.create({
+    userId: fixture.userId,
+    agentId: agent._id,
+    status: "running",
+    startedAt: new Date(),
+    summary: fixture.sessionId ? `Replay of session ${fixture.sessionId}` : "Replay of fixture",
+  });
+  const sessionId = session._id.toString();
+
+  console.log(`📼 Replaying ${fixture.steps.length} step(s) for agent ${agent.name} as session ${sessionId}`);
+
+  const agentData = toAgentData(agent);
+  agentData.modelConfig = {
+    provider: "replay",
+    model: "replay",
+    options: { script: fixture.steps },
+  };
+
+  const result = await executeWithExecutionPrompt(
+    agentData.id,
+    sessionId,
+    fixture.executionPrompt,
+    agentData,
+    undefined,
+    fixture.userId,
+    { computer: new LocalPlaywrightBrowser(1024, 768, args.headless), replay: true },
+  );
+
+  const [replayedSession, loggedSteps, extractedCount] = await Promise.all([
+    AgentSession.findById(sessionId).lean().exec(),
+    SessionLog.find({ sessionId }).sort({ stepNumber: 1 }).lean().exec(),
+    ExtractedData.countDocuments({ sessionId }).exec(),
+  ]);
+  const replayedLogs = actionLogs(loggedSteps);
+
+  const failures: string[] = [];
+  if (!result.success) {
+    failures.push(`execution failed: ${result.error}`);
+  }
+  if (replayedSession?.status !== "completed") {
+    failures.push(`session ended as ${replayedSession?.status || "missing"}, expected completed`);
+  }
+  if (replayedLogs.length !== expectedActions) {
+    failures.push(`logged ${replayedLogs.length} action(s), expected ${expectedActions}`);
+  }
+  if (recordedLogs.length > 0) {
+    const recorded = toolSequence(recordedLogs).join(" → ");
+    const replayed = toolSequence(replayedLogs).join(" → ");
+    if (recorded !== replayed) {
+      failures.push(`tool sequence differs\n     recorded: ${recorded}\n     replayed: ${replayed}`);
+    }
+  }
+
+  console.log("\n📊 REPLAY RESULT");
+  console.log(`  Session: ${sessionId} (${replayedSession?.status})`);
+  console.log(`  Actions logged: ${replayedLogs.length}/${expectedActions}`);
+  console.log(`  Extractions saved: ${extractedCount}`);
+
+  if (failures.length > 0) {
+    console.log("\n❌ Replay did not match the recording:");
+    failures.forEach((failure) => console.log(`  - ${failure}`));
+    process.exitCode = 1;
+  } else {
+    console.log("\n✅ Replay matched the recording");
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Replay failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
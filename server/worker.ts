@@ -0,0 +1,248 @@
+// Background worker for agent executions.
+// Claims jobs from the agent_jobs queue and runs the CUA loop outside of any HTTP request.
+// Also ticks the agent scheduler, which queues cron-scheduled agent runs and due tasks,
+// and removes step screenshots past their retention period.
+//
+// Usage: npm run worker
+import "./load-env";
+import os from "os";
+import mongoose from "mongoose";
+import { connectDB, Agent as AgentModel, AgentSession } from "./db";
+import type { IAgentJob } from "../lib/models";
+import JobQueue from "../lib/services/JobQueue";
+import AgentScheduler from "../lib/services/AgentScheduler";
+import ScreenshotStore from "../lib/services/ScreenshotStore";
+import { executeWithExecutionPrompt, toAgentData } from "../lib/services/agent-executor";
+import { JOB_QUEUE_CONFIG, SCHEDULER_CONFIG, SCREENSHOT_CONFIG } from "../app/lib/constants";
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+
+let shuttingDown = false;
+// Jobs holding one of the worker's slots; a session waiting for an approval gives its slot back until it resumes
+let activeJobs = 0;
+let lastRecoveryAt = 0;
+let lastSchedulerTickAt = 0;
+let lastScreenshotSweepAt = 0;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function runRecoveryIfDue() {
+  if (Date.now() - lastRecoveryAt < JOB_QUEUE_CONFIG.RECOVERY_INTERVAL_MS) return;
+  lastRecoveryAt = Date.now();
+
+  try {
+    const result = await JobQueue.recoverStaleJobs();
+    if (result.requeued || result.failed || result.orphanedSessions) {
+      console.log(
+        `♻️ Recovery sweep: ${result.requeued} requeued, ${result.failed} failed, ${result.orphanedSessions} orphaned sessions`,
+      );
+    }
+  } catch (error) {
+    console.error("Error during stale job recovery:", error);
+  }
+}
+
+async function runSchedulerIfDue() {
+  if (!SCHEDULER_CONFIG.ENABLED) return;
+  if (Date.now() - lastSchedulerTickAt < SCHEDULER_CONFIG.TICK_INTERVAL_MS) return;
+  lastSchedulerTickAt = Date.now();
+
+  try {
+    const result = await AgentScheduler.tick();
+    if (result.launched || result.skipped || result.tasksReconciled) {
+      console.log(
+        `⏰ Scheduler tick: ${result.launched} launched, ${result.skipped} skipped, ${result.tasksReconciled} tasks closed`,
+      );
+    }
+  } catch (error) {
+    console.error("Error during scheduler tick:", error);
+  }
+}
+
+async function runScreenshotRetentionIfDue() {
+  if (SCREENSHOT_CONFIG.RETENTION_DAYS <= 0) return;
+  if (Date.now() - lastScreenshotSweepAt < SCREENSHOT_CONFIG.RETENTION_SWEEP_INTERVAL_MS) return;
+  lastScreenshotSweepAt = Date.now();
+
+  try {
+    const cleared = await ScreenshotStore.purgeExpired();
+    if (cleared) {
+      console.log(`🧹 Screenshot retention: removed screenshots from ${cleared} step logs older than ${SCREENSHOT_CONFIG.RETENTION_DAYS} days`);
+    }
+  } catch (error) {
+    console.error("Error during screenshot retention sweep:", error);
+  }
+}
+
+async function runJob(job: IAgentJob) {
+  const sessionId = job.sessionId.toString();
+  const agentId = job.agentId.toString();
+  let holdsSlot = true;
+  activeJobs++;
+  const onApprovalWait = (waiting: boolean) => {
+    if (holdsSlot !== waiting) return;
+    holdsSlot = !waiting;
+    activeJobs += waiting ? -1 : 1;
+  };
+
+  console.log(`\n🛠️ [${WORKER_ID}] Claimed job ${job._id} (session ${sessionId}, attempt ${job.attempts}/${job.maxAttempts})`);
+
+  // Keep the lease alive while the CUA loop runs; once it is lost the run is aborted,
+  // since another worker may reclaim the job and run the same session
+  const leaseLost = new AbortController();
+  const heartbeat = setInterval(async () => {
+    try {
+      const owned = await JobQueue.heartbeat(job._id, WORKER_ID);
+      if (!owned && !leaseLost.signal.aborted) {
+        console.warn(`⚠️ Lost lease on job ${job._id} - stopping the run, another worker may pick it up`);
+        clearInterval(heartbeat);
+        leaseLost.abort();
+      }
+    } catch (error) {
+      console.error(`💔 Heartbeat failed for job ${job._id}:`, error);
+    }
+  }, JOB_QUEUE_CONFIG.HEARTBEAT_INTERVAL_MS);
+
+  try {
+    // The user may have stopped the session while the job was waiting in the queue
+    const session = await AgentSession.findById(job.sessionId).lean().exec();
+    // A session paused before its job started waits for resume in the execution loop
+    if (!session || (session.status !== "running" && session.status !== "paused")) {
+      console.log(`⏭️ Session ${sessionId} is ${session?.status || "missing"} - cancelling job ${job._id}`);
+      await JobQueue.cancel(job._id, `Session was ${session?.status || "deleted"} before execution started`);
+      return;
+    }
+
+    // Billing and budgets start now, not while the job waited in the queue; a job reclaimed
+    // from a dead worker keeps the start of its first attempt
+    if (job.attempts === 1) {
+      const startedAt = new Date();
+      await AgentSession.findOneAndUpdate(
+        { _id: job.sessionId, status: session.status },
+        { startedAt, ...(session.status === "paused" && { pausedAt: startedAt }) },
+      ).exec();
+    }
+
+    const agent = await AgentModel.findOne({ _id: job.agentId, userId: job.userId }).lean().exec();
+    if (!agent) {
+      const errorMessage = "Agent was deleted before execution started";
+      await AgentSession.findOneAndUpdate(
+        { _id: job.sessionId, status: "running" },
+        { status: "failed", errorMessage, completedAt: new Date() },
+      ).exec();
+      await JobQueue.fail(job._id, WORKER_ID, errorMessage);
+      return;
+    }
+
+    const agentData = toAgentData(agent);
+
+    const result = await executeWithExecutionPrompt(
+      agentId,
+      sessionId,
+      job.payload.executionPrompt,
+      agentData,
+      job.payload.dailyTaskId ?? undefined,
+      job.userId,
+      { runtimeBudgetMinutes: job.payload.runtimeBudgetMinutes, onApprovalWait, signal: leaseLost.signal },
+    );
+
+    // The job is no longer ours to complete or fail
+    if (leaseLost.signal.aborted) {
+      console.log(`🛑 Job ${job._id} abandoned after losing its lease`);
+      return;
+    }
+
+    if (result.success) {
+      await JobQueue.complete(job._id, WORKER_ID);
+      console.log(`✅ Job ${job._id} completed`);
+    } else {
+      await JobQueue.fail(job._id, WORKER_ID, result.error || "Unknown error");
+      console.log(`❌ Job ${job._id} failed: ${result.error}`);
+    }
+  } catch (error) {
+    console.error(`❌ Unhandled error running job ${job._id}:`, error);
+    if (leaseLost.signal.aborted) return;
+    await JobQueue.fail(
+      job._id,
+      WORKER_ID,
+      error instanceof Error ? error.message : "Unknown error",
+    ).catch((err) => console.error("Error marking job failed:", err));
+  } finally {
+    clearInterval(heartbeat);
+    if (holdsSlot) activeJobs--;
+  }
+}
+
+// Claims jobs while a slot is free; a job resuming after an approval may briefly exceed the concurrency
+async function workLoop(concurrency: number) {
+  const running = new Set<Promise<void>>();
+
+  while (!shuttingDown) {
+    await runRecoveryIfDue();
+
+    if (activeJobs >= concurrency) {
+      await sleep(JOB_QUEUE_CONFIG.POLL_INTERVAL_MS);
+      continue;
+    }
+
+    let job: IAgentJob | null = null;
+    try {
+      job = await JobQueue.claimNext(WORKER_ID);
+    } catch (error) {
+      console.error("Error claiming job:", error);
+    }
+
+    if (!job) {
+      await sleep(JOB_QUEUE_CONFIG.POLL_INTERVAL_MS);
+      continue;
+    }
+
+    const run: Promise<void> = runJob(job).finally(() => running.delete(run));
+    running.add(run);
+  }
+
+  // Finish the running jobs before exiting
+  await Promise.all(running);
+}
+
+// Ticks independently of the work loops so schedules stay on time while jobs are running
+async function schedulerLoop() {
+  while (!shuttingDown) {
+    await runSchedulerIfDue();
+    await runScreenshotRetentionIfDue();
+    await sleep(JOB_QUEUE_CONFIG.POLL_INTERVAL_MS);
+  }
+}
+
+function handleShutdown(signal: string) {
+  if (shuttingDown) {
+    // Second signal: exit now, the lease will expire and the job will be requeued
+    console.warn(`⚠️ ${signal} received again - exiting immediately`);
+    process.exit(1);
+  }
+  shuttingDown = true;
+  console.log(`🛑 ${signal} received - finishing running jobs before exit (send again to force)`);
+}
+
+async function main() {
+  await connectDB();
+
+  const concurrency = Math.max(1, JOB_QUEUE_CONFIG.WORKER_CONCURRENCY);
+  console.log(`👷 Worker ${WORKER_ID} started (concurrency ${concurrency})`);
+
+  process.on("SIGINT", () => handleShutdown("SIGINT"));
+  process.on("SIGTERM", () => handleShutdown("SIGTERM"));
+
+  await Promise.all([workLoop(concurrency), schedulerLoop()]);
+
+  await mongoose.disconnect();
+  console.log(`👋 Worker ${WORKER_ID} stopped`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Worker crashed:", error);
+  process.exit(1);
+});